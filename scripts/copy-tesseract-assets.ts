@@ -0,0 +1,28 @@
+// scripts/copy-tesseract-assets.ts
+// This script copies the files tesseract.js loads in the browser from node_modules
+// to public/tesseract, so nutrition label scanning (services/labelOcr) is served by
+// this app instead of a CDN. It runs before `dev` and `build`. Only the LSTM builds
+// of the core and the matching English data are copied, as labels are read with
+// the default LSTM engine.
+
+import fs from 'fs';
+import path from 'path';
+
+const root = path.resolve(__dirname, '..');
+const target = path.join(root, 'public', 'tesseract');
+const resolvePackage = (name: string) => path.dirname(require.resolve(`${name}/package.json`, { paths: [root] }));
+
+const coreDirectory = resolvePackage('tesseract.js-core');
+const assets = [
+  path.join(resolvePackage('tesseract.js'), 'dist', 'worker.min.js'),
+  ...fs.readdirSync(coreDirectory)
+    .filter(file => /-lstm\.wasm\.js$/.test(file))
+    .map(file => path.join(coreDirectory, file)),
+  path.join(resolvePackage('@tesseract.js-data/eng'), '4.0.0_best_int', 'eng.traineddata.gz'),
+];
+
+fs.mkdirSync(target, { recursive: true });
+assets.forEach(asset => {
+  fs.copyFileSync(asset, path.join(target, path.basename(asset)));
+});
+console.log(`Copied ${assets.length} tesseract.js assets to ${path.relative(root, target)}`);
@@ -0,0 +1,105 @@
+// scripts/import-foods.ts
+// This script imports open nutrition datasets into food_items from local files
+// (services/foodImport). It needs SUPABASE_SERVICE_ROLE_KEY, as food_items is not
+// writable with the anon key.
+//
+// Usage:
+//   npm run import-foods -- --source usda <FoodData Central JSON file or CSV directory>
+//   npm run import-foods -- --source off <Open Food Facts .jsonl or .csv export>
+// Options:
+//   --format json|jsonl|csv|usda-csv  Override the format detected from the path
+//   --batch-size <n>                  Rows written per request (default 500)
+//   --dry-run                         Report what would be imported without writing
+
+import { createServerClient } from '../src/services/supabase';
+import { FoodImportStats, importFoodFile } from '../src/services/foodImport';
+import { FOOD_FILE_FORMATS, FOOD_SOURCES, FoodFileFormat, FoodSource } from '../src/utils/foodImport';
+
+interface CliOptions {
+  source?: FoodSource;
+  format?: FoodFileFormat;
+  batchSize?: number;
+  dryRun: boolean;
+  files: string[];
+}
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = { dryRun: false, files: [] };
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (arg === '--source') {
+      const source = args[++i];
+      if (!(FOOD_SOURCES as readonly string[]).includes(source)) {
+        throw new Error(`--source must be one of: ${FOOD_SOURCES.join(', ')}`);
+      }
+      options.source = source as FoodSource;
+    } else if (arg === '--format') {
+      const format = args[++i];
+      if (!(FOOD_FILE_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(`--format must be one of: ${FOOD_FILE_FORMATS.join(', ')}`);
+      }
+      options.format = format as FoodFileFormat;
+    } else if (arg === '--batch-size') {
+      options.batchSize = Number(args[++i]);
+      if (!Number.isInteger(options.batchSize) || options.batchSize <= 0) {
+        throw new Error('--batch-size must be a positive whole number');
+      }
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      options.files.push(arg);
+    }
+  }
+  return options;
+};
+
+const printStats = (file: string, stats: FoodImportStats, dryRun: boolean) => {
+  console.log(`\n${file}${dryRun ? ' (dry run, nothing written)' : ''}`);
+  console.table({
+    'Records read': stats.read,
+    Inserted: stats.inserted,
+    Updated: stats.updated,
+    'Duplicates merged': stats.duplicates,
+    'Barcode already in use': stats.skippedExisting,
+    Invalid: stats.invalid,
+    'Failed to write': stats.failed,
+    'Duration (s)': Math.round(stats.durationMs / 100) / 10,
+  });
+  if (stats.errors.length > 0) {
+    console.log(`First ${stats.errors.length} problems:`);
+    stats.errors.forEach(({ record, reason }) => console.log(`  ${record}: ${reason}`));
+  }
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.source || options.files.length === 0) {
+    throw new Error('Usage: import-foods --source usda|off [--format <format>] [--batch-size <n>] [--dry-run] <file>...');
+  }
+
+  const client = createServerClient();
+  let failed = false;
+
+  for (const file of options.files) {
+    const stats = await importFoodFile(client, file, {
+      source: options.source,
+      format: options.format,
+      batchSize: options.batchSize,
+      dryRun: options.dryRun,
+      onProgress: progress => process.stdout.write(
+        `\r${progress.read} read, ${progress.inserted} inserted, ${progress.updated} updated, ${progress.invalid} invalid`
+      ),
+    });
+    printStats(file, stats, options.dryRun);
+    failed = failed || stats.failed > 0;
+  }
+
+  if (failed) process.exitCode = 1;
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -26,6 +26,8 @@ import LoadingSpinner from './components/shared/LoadingSpinner';
 import LoginForm from './components/auth/LoginForm';
 import OnboardingFlow from './components/auth/OnboardingFlow';
 import MealLogger from './components/meal-logging/MealLogger';
+import MealHistory from './components/meal-logging/MealHistory';
+import Recipes from './components/meal-logging/Recipes';
 import DailyOverview from './components/dashboard/DailyOverview';
 import NutritionChart from './components/dashboard/NutritionChart';
 import ProgressTracker from './components/dashboard/ProgressTracker';
@@ -43,6 +45,8 @@ type AppView =
   | 'onboarding'
   | 'dashboard'
   | 'log-meal'
+  | 'meal-history'
+  | 'recipes'
   | 'profile'
   | 'goals'
   | 'preferences';
@@ -245,6 +249,10 @@ const AppCon: React.FC = () => {
         );
       case 'log-meal':
         return <MealLogger />;
+      case 'meal-history':
+        return <MealHistory />;
+      case 'recipes':
+        return <Recipes />;
       case 'profile':
         return <UserProfile />;
       case 'goals':
@@ -271,6 +279,12 @@ const AppCon: React.FC = () => {
               <ChakraLink onClick={() => setCurrentView('log-meal')} color="whiteAlpha.800">
                 Log Meal
               </ChakraLink>
+              <ChakraLink onClick={() => setCurrentView('meal-history')} color="whiteAlpha.800">
+                Meal History
+              </ChakraLink>
+              <ChakraLink onClick={() => setCurrentView('recipes')} color="whiteAlpha.800">
+                Recipes
+              </ChakraLink>
               <ChakraLink onClick={() => setCurrentView('profile')} color="whiteAlpha.800">
                 Profile
               </ChakraLink>
@@ -2,6 +2,8 @@
 // This component guides new users through an onboarding process to collect
 // initial profile data. It utilizes React Hook Form with Zod for validation
 // and sends the collected data to the n8n onboarding workflow via an API route.
+// The last step proposes calorie and macro targets from the entered profile
+// (utils/energy), which are saved as the user's first goals when accepted.
 
 import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
@@ -36,6 +38,12 @@ import { useErrorHandling } from '../../hooks/useErrorHandling';
 import { triggerOnboarding } from '../../services/n8nWebhooks';
 import { supabase } from '../../services/supabase';
 import { useRouter } from 'next/router';
+import TargetSuggestion from '../profile/TargetSuggestion';
+import { EnergyTargets, isEnergyProfileComplete } from '../../utils/energy';
+import { goalSettingSchema } from '../../utils/validation';
+import { syncMacroTargets } from '../../utils/macroTargets';
+import { saveUserGoals } from '../../services/goals';
+import { getErrorMessage } from '../../utils/errorHandling';
 
 // Inline validation schema
 const onboardingSchema = z.object({
@@ -144,6 +152,7 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({ onOnboardingComplete })
   const toast = useToast();
   const [step, setStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [acceptedTargets, setAcceptedTargets] = useState<EnergyTargets | null>(null);
 
   const {
     register,
@@ -259,7 +268,6 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({ onOnboardingComplete })
         target_weight: data.target_weight || null,
         target_date: data.target_date || null,
         weekly_workout_goal: data.weekly_workout_goal || 3,
-        water_intake_goal: data.water_intake_goal || 2,
         sleep_goal: data.sleep_goal || 8,
         meal_prep_preference: data.meal_prep_preference || 'daily',
         created_at: new Date().toISOString(),
@@ -279,6 +287,25 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({ onOnboardingComplete })
       }
       console.log('Profile saved successfully');
 
+      // The water goal is kept with the other goals, where the dashboard reads it
+      const goals = goalSettingSchema.parse({
+        water_intake_goal: data.water_intake_goal || 2,
+        ...(acceptedTargets ? {
+          target_calories: acceptedTargets.target_calories,
+          ...syncMacroTargets('percent', {
+            protein: acceptedTargets.target_protein_ratio,
+            carbs: acceptedTargets.target_carbs_ratio,
+            fat: acceptedTargets.target_fat_ratio,
+          }, acceptedTargets.target_calories),
+        } : {}),
+        ...(data.target_weight ? { target_weight_kg: data.target_weight } : {}),
+      });
+      try {
+        await saveUserGoals(user.id, goals);
+      } catch (goalsError) {
+        throw new Error(`Failed to save goals: ${getErrorMessage(goalsError)}`);
+      }
+
       // Trigger onboarding workflow
       console.log('Triggering onboarding workflow...');
       await triggerOnboarding({
@@ -323,6 +350,16 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({ onOnboardingComplete })
     }
   };
 
+  const watchedProfile = watch(['age', 'gender', 'height_cm', 'weight_kg', 'activity_level', 'goal_type']);
+  const energyProfile = {
+    age: watchedProfile[0],
+    gender: watchedProfile[1],
+    height_cm: watchedProfile[2],
+    weight_kg: watchedProfile[3],
+    activity_level: watchedProfile[4],
+    goal_type: watchedProfile[5],
+  };
+
   const validateCurrentStep = async () => {
     const currentStepFields = {
       1: ['full_name', 'age', 'gender', 'height_cm', 'weight_kg', 'activity_level'] as const,
@@ -702,6 +739,32 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({ onOnboardingComplete })
                   <option value="none">No Meal Prep</option>
                 </Select>
               </FormControl>
+
+              {isEnergyProfileComplete(energyProfile) && (
+                <Box w="100%">
+                  <TargetSuggestion profile={energyProfile} onAccept={setAcceptedTargets} />
+                </Box>
+              )}
+
+              {acceptedTargets && (
+                <FormControl>
+                  <FormLabel>Daily Calorie Target (kcal)</FormLabel>
+                  <NumberInput
+                    min={500}
+                    max={5000}
+                    step={10}
+                    value={acceptedTargets.target_calories}
+                    onChange={(_, valueAsNumber) =>
+                      setAcceptedTargets(prev => (prev ? { ...prev, target_calories: valueAsNumber || 0 } : prev))
+                    }
+                  >
+                    <NumberInputField />
+                  </NumberInput>
+                  <Text fontSize="xs" color="gray.500" mt={1}>
+                    Adjust the suggestion if you like; you can change all targets later in Goal Settings.
+                  </Text>
+                </FormControl>
+              )}
             </VStack>
           )}
 
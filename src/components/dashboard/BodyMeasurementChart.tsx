@@ -0,0 +1,77 @@
+// src/components/dashboard/BodyMeasurementChart.tsx
+// This component charts the history of the tracked body measurements, one line per
+// site, in the user's unit.
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useTheme } from '@chakra-ui/react';
+import { format, parseISO } from 'date-fns';
+import { BodyMeasurement } from '../../hooks/useBodyMeasurements';
+import { BodySiteId, getBodySiteLabel } from '../../utils/measurements';
+import { LengthUnit, convertLength } from '../../utils/units';
+
+interface BodyMeasurementChartProps {
+  measurements: BodyMeasurement[];
+  sites: BodySiteId[];
+  unit: LengthUnit;
+}
+
+const LINE_COLORS = ['accent.500', 'brand.500', 'blue.400', 'yellow.500', 'purple.400', 'pink.400', 'green.500', 'orange.400', 'cyan.500', 'gray.500'];
+
+const BodyMeasurementChart: React.FC<BodyMeasurementChartProps> = ({ measurements, sites, unit }) => {
+  const theme = useTheme();
+
+  // One data point per day with a value per measured site
+  const dates = Array.from(new Set(measurements.map(row => row.measured_on))).sort();
+  const chartData = dates.map(date => ({
+    date: format(parseISO(date), 'MMM d'),
+    ...Object.fromEntries(
+      measurements
+        .filter(row => row.measured_on === date)
+        .map(row => [row.site, Math.round(convertLength(row.value_cm, 'cm', unit) * 10) / 10])
+    ),
+  }));
+
+  const getColor = (index: number) => {
+    const [color, shade] = LINE_COLORS[index % LINE_COLORS.length].split('.');
+    return theme.colors[color][shade];
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <LineChart data={chartData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke={theme.colors.gray['200']} />
+        <XAxis
+          dataKey="date"
+          stroke={theme.colors.text.light}
+          tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+          axisLine={{ stroke: theme.colors.gray['300'] }}
+          tickLine={{ stroke: theme.colors.gray['300'] }}
+        />
+        <YAxis
+          domain={['auto', 'auto']}
+          stroke={theme.colors.text.light}
+          tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+          axisLine={{ stroke: theme.colors.gray['300'] }}
+          tickLine={{ stroke: theme.colors.gray['300'] }}
+          tickFormatter={(value) => `${value} ${unit}`}
+        />
+        <Tooltip formatter={(value: number, name: string) => [`${value} ${unit}`, name]} />
+        <Legend iconSize={10} iconType="circle" />
+        {sites.map((site, index) => (
+          <Line
+            key={site}
+            type="monotone"
+            dataKey={site}
+            name={getBodySiteLabel(site)}
+            stroke={getColor(index)}
+            strokeWidth={2}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default BodyMeasurementChart;
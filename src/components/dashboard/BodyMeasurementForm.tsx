@@ -0,0 +1,119 @@
+// src/components/dashboard/BodyMeasurementForm.tsx
+// This component records the tape measurements of a day for the body sites the user
+// tracks, in cm or inches. Sites left empty are skipped.
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormLabel,
+  HStack,
+  Input,
+  Select,
+  SimpleGrid,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { bodyMeasurementSchema } from '../../utils/validation';
+import { BodySiteId, getBodySiteLabel } from '../../utils/measurements';
+import { LENGTH_UNITS, LengthUnit } from '../../utils/units';
+import { BodyMeasurementInput } from '../../hooks/useBodyMeasurements';
+
+type BodyMeasurementFormInputs = z.infer<typeof bodyMeasurementSchema>;
+
+interface BodyMeasurementFormProps {
+  sites: BodySiteId[];
+  unit: LengthUnit;
+  onSave: (input: BodyMeasurementInput) => Promise<unknown>;
+  isSaving?: boolean;
+}
+
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const BodyMeasurementForm: React.FC<BodyMeasurementFormProps> = ({ sites, unit, onSave, isSaving }) => {
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    formState: { errors },
+  } = useForm<BodyMeasurementFormInputs>({
+    resolver: zodResolver(bodyMeasurementSchema),
+    defaultValues: {
+      measured_on: format(new Date(), 'yyyy-MM-dd'),
+      unit,
+      values: {},
+    },
+  });
+
+  // The preferred unit arrives after the form has mounted
+  useEffect(() => {
+    setValue('unit', unit);
+  }, [setValue, unit]);
+
+  const onSubmit = async (data: BodyMeasurementFormInputs) => {
+    try {
+      await onSave(data);
+      reset({ measured_on: format(new Date(), 'yyyy-MM-dd'), unit: data.unit, values: {} });
+    } catch (error) {
+      // Errors are already surfaced by useBodyMeasurements
+      console.error('Error saving body measurements:', error);
+    }
+  };
+
+  return (
+    <VStack as="form" onSubmit={handleSubmit(onSubmit)} align="stretch" spacing={3}>
+      <HStack spacing={3} align="flex-end">
+        <FormControl id="measurement_date" isInvalid={!!errors.measured_on}>
+          <FormLabel color="text.dark" fontSize="sm">Date</FormLabel>
+          <Input
+            type="date"
+            size="sm"
+            max={format(new Date(), 'yyyy-MM-dd')}
+            {...register('measured_on')}
+            borderColor="brand.200"
+          />
+          <FormErrorMessage>{errors.measured_on?.message}</FormErrorMessage>
+        </FormControl>
+        <FormControl id="measurement_unit" maxW="100px">
+          <FormLabel color="text.dark" fontSize="sm">Unit</FormLabel>
+          <Select size="sm" {...register('unit')} borderColor="brand.200">
+            {Object.values(LENGTH_UNITS).map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </Select>
+        </FormControl>
+      </HStack>
+
+      <SimpleGrid columns={{ base: 2, md: 3 }} gap={3}>
+        {sites.map(site => (
+          <FormControl key={site} id={`measurement_${site}`} isInvalid={!!errors.values?.[site]}>
+            <FormLabel color="text.dark" fontSize="sm">{getBodySiteLabel(site)}</FormLabel>
+            <Input
+              type="number"
+              size="sm"
+              step="0.1"
+              {...register(`values.${site}`, { setValueAs: toOptionalNumber })}
+              borderColor="brand.200"
+            />
+            <FormErrorMessage>{errors.values?.[site]?.message}</FormErrorMessage>
+          </FormControl>
+        ))}
+      </SimpleGrid>
+      {errors.values?.message && (
+        <Text color="red.500" fontSize="sm">{errors.values.message}</Text>
+      )}
+
+      <Button type="submit" size="sm" colorScheme="teal" isLoading={isSaving} loadingText="Saving..." alignSelf="flex-start">
+        Log Measurements
+      </Button>
+    </VStack>
+  );
+};
+
+export default BodyMeasurementForm;
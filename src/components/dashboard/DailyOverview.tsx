@@ -14,6 +14,7 @@ import {
   Textarea,
   Button,
   useColorModeValue,
+  Badge,
 } from '@chakra-ui/react';
 import { format } from 'date-fns';
 import { z } from 'zod';
@@ -23,8 +24,19 @@ import { FiSend, FiX } from 'react-icons/fi';
 import { motion, AnimatePresence } from 'framer-motion';
 import { processChatMessage as processN8nMessage } from '../../services/n8nWebhooks';
 import { FaUtensils } from 'react-icons/fa';
-
-interface DailyData {
+import { useNutritionLogs } from '../../hooks/useNutritionLogs';
+import { useMealParser, isMealEntryResponse, MealEntryResponse } from '../../hooks/useMealParser';
+import { useMealLogging } from '../../hooks/useMealLogging';
+import { useGoalProfiles } from '../../hooks/useGoalProfiles';
+import { saveMealDraft } from '../../services/mealDraft';
+import MealConfirmationCard from '../meal-logging/MealConfirmationCard';
+import MicronutrientSummary from './MicronutrientSummary';
+import WaterIntakeTracker from './WaterIntakeTracker';
+import { MicronutrientKey, getNutrientTargets } from '../../utils/nutrients';
+import { getDayTypeLabel } from '../../utils/goalProfiles';
+import { MacroTargetMode, resolveMacroTargets } from '../../utils/macroTargets';
+
+interface DailyData extends Partial<Record<MicronutrientKey, number>> {
   calories?: number;
   protein?: number;
   carbs?: number;
@@ -36,7 +48,12 @@ interface UserGoals {
   target_protein_ratio?: number;
   target_carbs_ratio?: number;
   target_fat_ratio?: number;
+  macro_target_mode?: MacroTargetMode | null;
+  target_protein_g?: number | null;
+  target_carbs_g?: number | null;
+  target_fat_g?: number | null;
   target_weight_kg?: number;
+  nutrient_targets?: Partial<Record<MicronutrientKey, number>> | null;
 }
 
 interface DailyOverviewProps {
@@ -46,6 +63,7 @@ interface DailyOverviewProps {
 }
 
 interface ChatMessageData {
+  id?: string;
   user_id: string;
   message: string;
   is_bot: boolean;
@@ -96,13 +114,20 @@ const WavingBot = () => (
   </motion.div>
 );
 
-const DailyOverview: React.FC<DailyOverviewProps> = ({ data, goals: initialGoals, onNavigate }) => {
+const DailyOverview: React.FC<DailyOverviewProps> = ({ data: providedData, goals: initialGoals, onNavigate }) => {
   const { user } = useAuth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  // Today's totals come from the nutrition_logs rollup unless the parent passes them in
+  const { getLogForDate } = useNutritionLogs(today, today, 'daily_overview_nutrition_logs');
   const [chatMessages, setChatMessages] = useState<ChatMessageData[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [pendingResponse, setPendingResponse] = useState<any>(null);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [loggingMessageId, setLoggingMessageId] = useState<string | null>(null);
+  const { parseMeal, confirmParsedMeal } = useMealParser();
+  const { submitMealLog } = useMealLogging();
+  const { getGoalsForDate } = useGoalProfiles('daily_overview_goal_profiles');
   const [goals, setGoals] = useState<UserGoals | null>(initialGoals || null);
   const toast = useToast();
   const bgColor = useColorModeValue('white', 'gray.800');
@@ -202,6 +227,16 @@ const DailyOverview: React.FC<DailyOverviewProps> = ({ data, goals: initialGoals
         throw new Error('Failed to save initial chat interaction');
       }
 
+      // Meal descriptions are answered with a parsed meal to confirm instead of a chat reply
+      const mealEntry = await parseMeal(message).catch((parseError) => {
+        console.error('Error parsing meal from message:', parseError);
+        return null;
+      });
+      if (mealEntry) {
+        await proposeParsedMeal(message, mealEntry);
+        return;
+      }
+
       // Then process through n8n
       const botResponse = await processN8nMessage({
         user_id: user.id,
@@ -265,6 +300,86 @@ const DailyOverview: React.FC<DailyOverviewProps> = ({ data, goals: initialGoals
     }
   };
 
+  const proposeParsedMeal = async (message: string, mealEntry: MealEntryResponse) => {
+    if (!user?.id) return;
+
+    const itemNames = mealEntry.meal.food_items.map(item => item.name).join(', ');
+    const botMessage = `I found ${itemNames} for ${mealEntry.meal.meal_type}. Should I log it?`;
+
+    // Unconfirmed until the user logs the meal from the confirmation card
+    const { data: savedProposal, error } = await supabase
+      .from('chat_interactions')
+      .insert([{
+        user_id: user.id,
+        message: botMessage,
+        response: mealEntry,
+        confirmed: false,
+        created_at: new Date().toISOString(),
+        metadata: { source: mealEntry.source }
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error('Failed to save parsed meal');
+    }
+
+    setChatMessages(prev => [
+      ...prev,
+      {
+        user_id: user.id,
+        message,
+        is_bot: false,
+        created_at: new Date().toISOString(),
+        metadata: {}
+      },
+      {
+        id: savedProposal.id,
+        user_id: user.id,
+        message: botMessage,
+        is_bot: true,
+        created_at: savedProposal.created_at,
+        response: mealEntry,
+        metadata: {},
+        confirmed: false
+      }
+    ]);
+  };
+
+  const handleConfirmParsedMeal = async (chatMessage: ChatMessageData, mealEntry: MealEntryResponse) => {
+    if (!chatMessage.id) return;
+
+    setLoggingMessageId(chatMessage.id);
+    try {
+      const result = await submitMealLog(mealEntry.meal);
+      try {
+        await confirmParsedMeal(chatMessage.id);
+      } catch (confirmError) {
+        // The meal is logged; only the chat message keeps showing it as unconfirmed
+        console.error('Error confirming parsed meal:', confirmError);
+      }
+
+      setChatMessages(prev => prev.map(msg => (msg.id === chatMessage.id ? { ...msg, confirmed: true } : msg)));
+      toast({
+        title: result?.queued ? 'Meal saved offline' : 'Meal logged successfully',
+        description: `Your ${mealEntry.meal.meal_type} has been ${result?.queued ? 'queued' : 'logged'}`,
+        status: result?.queued ? 'info' : 'success',
+        duration: 5000,
+        isClosable: true,
+      });
+    } catch (error) {
+      // Errors are already surfaced by useMealLogging
+      console.error('Error logging parsed meal:', error);
+    } finally {
+      setLoggingMessageId(null);
+    }
+  };
+
+  const handleEditParsedMeal = (chatMessage: ChatMessageData, mealEntry: MealEntryResponse) => {
+    saveMealDraft({ ...mealEntry.meal, chat_interaction_id: chatMessage.id });
+    onNavigate('log-meal');
+  };
+
   const saveChatInteraction = async (userMessage: string, botResponse: any) => {
     if (!user?.id) return;
 
@@ -359,6 +474,8 @@ const DailyOverview: React.FC<DailyOverviewProps> = ({ data, goals: initialGoals
     }
   };
 
+  const data: DailyData | null = providedData || getLogForDate(today) || null;
+
   if (!data) {
     return (
       <Box
@@ -376,23 +493,31 @@ const DailyOverview: React.FC<DailyOverviewProps> = ({ data, goals: initialGoals
         <Text color="gray.500" fontStyle="italic" fontSize="lg">
           No summary data available for today. Keep logging your meals to see insights!
         </Text>
+        <Divider borderColor="brand.100" my={6} />
+        <Box textAlign="left">
+          <Heading as="h3" size="md" mb={3}>
+            Water Intake
+          </Heading>
+          <WaterIntakeTracker />
+        </Box>
       </Box>
     );
   }
 
+  // Training, rest or refeed day targets replace the base goals when a profile applies
+  const { goals: activeGoals, profile: activeProfile } = getGoalsForDate(today, goals);
+
+  const targets = resolveMacroTargets(activeGoals);
   const currentCalories = data.calories || 0;
-  const targetCalories = goals?.target_calories || 2000;
+  const targetCalories = targets.calories;
   const caloriesProgress = (currentCalories / targetCalories) * 100;
 
-  const getMacroProgress = (current: number, targetRatio: number | undefined, totalCalories: number) => {
-    if (!targetRatio || totalCalories === 0) return 0;
-    const targetGrams = (targetRatio / 100) * totalCalories / (targetRatio === goals?.target_fat_ratio ? 9 : 4);
-    return (current / targetGrams) * 100;
-  };
+  const getMacroProgress = (current: number, targetGrams: number) =>
+    targetGrams > 0 ? (current / targetGrams) * 100 : 0;
 
-  const proteinProgress = getMacroProgress(data.protein || 0, goals?.target_protein_ratio, currentCalories);
-  const carbsProgress = getMacroProgress(data.carbs || 0, goals?.target_carbs_ratio, currentCalories);
-  const fatProgress = getMacroProgress(data.fat || 0, goals?.target_fat_ratio, currentCalories);
+  const proteinProgress = getMacroProgress(data.protein || 0, targets.protein.grams);
+  const carbsProgress = getMacroProgress(data.carbs || 0, targets.carbs.grams);
+  const fatProgress = getMacroProgress(data.fat || 0, targets.fat.grams);
 
   return (
     <>
@@ -419,6 +544,11 @@ const DailyOverview: React.FC<DailyOverviewProps> = ({ data, goals: initialGoals
               <Text color="text.light" fontSize="sm">
                 Track your daily nutritional intake
               </Text>
+              {activeProfile && (
+                <Badge colorScheme="teal">
+                  {activeProfile.name} ({getDayTypeLabel(activeProfile.day_type)}) targets
+                </Badge>
+              )}
             </VStack>
             <Button
               onClick={() => onNavigate('log-meal')}
@@ -442,46 +572,60 @@ const DailyOverview: React.FC<DailyOverviewProps> = ({ data, goals: initialGoals
             <Box p={4} bg="brand.100" borderRadius="md" boxShadow="sm">
               <Text color="text.light" fontSize="sm" fontWeight="medium">Protein</Text>
               <Text fontSize="3xl" color="accent.600" fontWeight="bold">{data.protein || 0} g</Text>
-              <Text color="text.light" fontSize="sm">Target: {goals?.target_protein_ratio || '--'}%</Text>
+              <Text color="text.light" fontSize="sm">Target: {targets.protein.grams} g ({targets.protein.percent}%)</Text>
               <Progress value={proteinProgress} size="sm" colorScheme={proteinProgress > 100 ? 'orange' : 'teal'} mt={2} borderRadius="md" />
             </Box>
 
             <Box p={4} bg="brand.100" borderRadius="md" boxShadow="sm">
               <Text color="text.light" fontSize="sm" fontWeight="medium">Carbohydrates</Text>
               <Text fontSize="3xl" color="accent.600" fontWeight="bold">{data.carbs || 0} g</Text>
-              <Text color="text.light" fontSize="sm">Target: {goals?.target_carbs_ratio || '--'}%</Text>
+              <Text color="text.light" fontSize="sm">Target: {targets.carbs.grams} g ({targets.carbs.percent}%)</Text>
               <Progress value={carbsProgress} size="sm" colorScheme={carbsProgress > 100 ? 'orange' : 'teal'} mt={2} borderRadius="md" />
             </Box>
 
             <Box p={4} bg="brand.100" borderRadius="md" boxShadow="sm">
               <Text color="text.light" fontSize="sm" fontWeight="medium">Fats</Text>
               <Text fontSize="3xl" color="accent.600" fontWeight="bold">{data.fat || 0} g</Text>
-              <Text color="text.light" fontSize="sm">Target: {goals?.target_fat_ratio || '--'}%</Text>
+              <Text color="text.light" fontSize="sm">Target: {targets.fat.grams} g ({targets.fat.percent}%)</Text>
               <Progress value={fatProgress} size="sm" colorScheme={fatProgress > 100 ? 'orange' : 'teal'} mt={2} borderRadius="md" />
             </Box>
           </SimpleGrid>
 
+          <Box>
+            <Heading as="h3" size="md" mb={3} color={textColor}>
+              Micronutrients
+            </Heading>
+            <MicronutrientSummary values={data} targets={getNutrientTargets(activeGoals?.nutrient_targets)} />
+          </Box>
+
+          <Box>
+            <Heading as="h3" size="md" mb={3} color={textColor}>
+              Water Intake
+            </Heading>
+            <WaterIntakeTracker />
+          </Box>
+
           <Divider borderColor="brand.100" />
 
           <Box>
             <Heading as="h3" size="md" mb={3} color={textColor}>
               Goals Summary
             </Heading>
-            {goals ? (
+            {activeGoals ? (
               <VStack align="flex-start" gap={2} color={textColor}>
                 <Text>
                   <Text as="span" fontWeight="semibold">Target Weight:</Text>{' '}
-                  {goals.target_weight_kg ? `${goals.target_weight_kg} kg` : 'Not set'}
+                  {activeGoals.target_weight_kg ? `${activeGoals.target_weight_kg} kg` : 'Not set'}
                 </Text>
                 <Text>
                   <Text as="span" fontWeight="semibold">Target Calories:</Text>{' '}
-                  {goals.target_calories ? `${goals.target_calories} kcal` : 'Not set'}
+                  {activeGoals.target_calories ? `${activeGoals.target_calories} kcal` : 'Not set'}
                 </Text>
                 <Text>
-                  <Text as="span" fontWeight="semibold">Macro Ratios:</Text>{' '}
-                  {goals.target_protein_ratio || '--'}% Protein,{' '}
-                  {goals.target_carbs_ratio || '--'}% Carbs,{' '}
-                  {goals.target_fat_ratio || '--'}% Fat
+                  <Text as="span" fontWeight="semibold">Macro Targets:</Text>{' '}
+                  {targets.protein.grams} g Protein,{' '}
+                  {targets.carbs.grams} g Carbs,{' '}
+                  {targets.fat.grams} g Fat
                 </Text>
               </VStack>
             ) : (
@@ -622,6 +766,15 @@ const DailyOverview: React.FC<DailyOverviewProps> = ({ data, goals: initialGoals
                         {msg.is_bot ? "Assistant" : "You"}
                       </Text>
                       <Text>{msg.message}</Text>
+                      {isMealEntryResponse(msg.response) && (
+                        <MealConfirmationCard
+                          entry={msg.response}
+                          isConfirmed={msg.confirmed}
+                          isLogging={loggingMessageId !== null && loggingMessageId === msg.id}
+                          onConfirm={() => handleConfirmParsedMeal(msg, msg.response)}
+                          onEdit={() => handleEditParsedMeal(msg, msg.response)}
+                        />
+                      )}
                       {msg.metadata && Object.keys(msg.metadata).length > 0 && (
                         <Text fontSize="xs" color="gray.500" mt={1}>
                           {JSON.stringify(msg.metadata)}
@@ -0,0 +1,51 @@
+// src/components/dashboard/MicronutrientSummary.tsx
+// This component shows the micronutrients of a day against the user's targets.
+// Goals such as fiber fill up towards 100%; limits such as sodium turn red once
+// they are exceeded.
+
+import React from 'react';
+import { Box, SimpleGrid, Text, Progress } from '@chakra-ui/react';
+import {
+  MICRONUTRIENTS,
+  MicronutrientKey,
+  NutrientTargets,
+  formatNutrientAmount,
+  isOverLimit,
+} from '../../utils/nutrients';
+
+interface MicronutrientSummaryProps {
+  values: Partial<Record<MicronutrientKey, number | null>>;
+  targets: NutrientTargets;
+}
+
+const MicronutrientSummary: React.FC<MicronutrientSummaryProps> = ({ values, targets }) => (
+  <SimpleGrid columns={{ base: 2, md: 3, lg: 5 }} gap={3}>
+    {MICRONUTRIENTS.map(nutrient => {
+      const value = values[nutrient.key] || 0;
+      const target = targets[nutrient.key];
+      const progress = (value / target) * 100;
+      const overLimit = isOverLimit(value, target, nutrient);
+
+      return (
+        <Box key={nutrient.key} p={3} bg="brand.100" borderRadius="md">
+          <Text color="text.light" fontSize="xs" fontWeight="medium">{nutrient.label}</Text>
+          <Text fontSize="md" color={overLimit ? 'red.500' : 'text.dark'} fontWeight="bold">
+            {formatNutrientAmount(value, nutrient)}
+          </Text>
+          <Text color="text.light" fontSize="xs">
+            {nutrient.targetKind === 'max' ? 'Limit' : 'Goal'}: {formatNutrientAmount(target, nutrient)}
+          </Text>
+          <Progress
+            value={Math.min(progress, 100)}
+            size="xs"
+            colorScheme={overLimit ? 'red' : 'teal'}
+            mt={2}
+            borderRadius="md"
+          />
+        </Box>
+      );
+    })}
+  </SimpleGrid>
+);
+
+export default MicronutrientSummary;
@@ -1,11 +1,64 @@
 // src/components/dashboard/NutritionChart.tsx
+// This component charts nutrition history: calories and macros as a share of the
+// targets in force on each day, water, or a single micronutrient. The range can be
+// the last 7, 30 or 90 days, the last 12 months or a custom one, shown per day or
+// as weekly or monthly averages over the days something was logged, with averages
+// compared to the previous period of the same length. Days are meal_date days from
+// the nutrition_logs rollup (utils/chartRanges).
 import React, { useEffect, useState } from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Box, Heading, Text, useTheme, Spinner, Center, Button, VStack, HStack, useColorModeValue } from '@chakra-ui/react';
+import { BarChart, Bar, ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
+import {
+  Box,
+  Heading,
+  Text,
+  useTheme,
+  Spinner,
+  Center,
+  Button,
+  VStack,
+  HStack,
+  Select,
+  Input,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+  useColorModeValue,
+} from '@chakra-ui/react';
 import { format, subDays } from 'date-fns';
 import { supabase } from '../../services/supabase';
 import { useAuth } from '../../hooks/useAuth';
+import { useNutritionLogs, NutritionLog } from '../../hooks/useNutritionLogs';
+import { useWaterIntake } from '../../hooks/useWaterIntake';
+import { useGoalProfiles } from '../../hooks/useGoalProfiles';
+import { useGoalHistory } from '../../hooks/useGoalHistory';
+import { formatWaterAmount, getWaterGoalMl } from '../../utils/hydration';
+import { MacroTargetMode, resolveMacroTargets } from '../../utils/macroTargets';
+import {
+  AGGREGATIONS,
+  Aggregation,
+  CHART_RANGES,
+  ChartRangeId,
+  DateRange,
+  averageOf,
+  getDefaultAggregation,
+  getPreviousPeriod,
+  getRangeDates,
+  getRangeLength,
+  groupDates,
+  listDates,
+  percentChange,
+  validateCustomRange,
+} from '../../utils/chartRanges';
 import { FaUtensils } from 'react-icons/fa';
+import {
+  MICRONUTRIENTS,
+  MicronutrientKey,
+  formatNutrientAmount,
+  getNutrientTargets,
+  mapMicronutrients,
+} from '../../utils/nutrients';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -27,14 +80,20 @@ ChartJS.register(
   ChartLegend
 );
 
-interface DailyNutritionData {
+type DailyNutritionData = {
   date: string;
   calories: number;
   protein: number;
   carbs: number;
   fat: number;
-  fiber: number;
-}
+  water: number; // ml
+  waterTarget: number; // ml, the goal in force, averaged over the bucket
+  nutrientTarget?: number; // Target of the selected micronutrient, averaged over the bucket
+} & Record<MicronutrientKey, number>;
+
+// Chart option showing the macros as % of target; every other option but water is a micronutrient
+const MACROS_VIEW = 'macros';
+const WATER_VIEW = 'water';
 
 interface NutritionChartProps {
   title?: string;
@@ -46,6 +105,12 @@ interface UserGoals {
   target_protein_ratio?: number;
   target_carbs_ratio?: number;
   target_fat_ratio?: number;
+  macro_target_mode?: MacroTargetMode | null;
+  target_protein_g?: number | null;
+  target_carbs_g?: number | null;
+  target_fat_g?: number | null;
+  nutrient_targets?: Partial<Record<MicronutrientKey, number>> | null;
+  water_intake_goal?: number | null;
 }
 
 const NutritionChart: React.FC<NutritionChartProps> = ({ 
@@ -54,18 +119,42 @@ const NutritionChart: React.FC<NutritionChartProps> = ({
 }) => {
   const theme = useTheme();
   const { user } = useAuth();
-  const [isLoading, setIsLoading] = useState(true);
-  const [chartData, setChartData] = useState<DailyNutritionData[]>([]);
+  const [isLoadingGoals, setIsLoadingGoals] = useState(true);
+  const { getGoalsForDate } = useGoalProfiles('nutrition_chart_goal_profiles');
+  const { getGoalsInEffect, isLoading: isLoadingHistory } = useGoalHistory('nutrition_chart_goal_history');
   const [userGoals, setUserGoals] = useState<UserGoals | null>(null);
+  const [selectedView, setSelectedView] = useState<string>(MACROS_VIEW);
   const bgColor = useColorModeValue('white', 'gray.800');
   const textColor = useColorModeValue('gray.800', 'white');
 
+  const today = new Date();
+  const [rangeId, setRangeId] = useState<ChartRangeId>('7d');
+  const [aggregation, setAggregation] = useState<Aggregation>('day');
+  const [customRange, setCustomRange] = useState<DateRange>({
+    startDate: format(subDays(today, 29), 'yyyy-MM-dd'),
+    endDate: format(today, 'yyyy-MM-dd'),
+  });
+  const customRangeError = rangeId === 'custom' ? validateCustomRange(customRange, today) : null;
+  const range = getRangeDates(rangeId, today, customRangeError ? undefined : customRange);
+  const previousRange = getPreviousPeriod(range);
+
+  // Both periods are loaded at once for the comparison
+  const { getLogForDate, isLoading: isLoadingLogs } = useNutritionLogs(
+    previousRange.startDate,
+    range.endDate,
+    'nutrition_chart_nutrition_logs'
+  );
+  const { goalMl: waterGoalMl, getTotalForDate: getWaterForDate } = useWaterIntake(
+    previousRange.startDate,
+    range.endDate,
+    'nutrition_chart_water_logs'
+  );
+
   useEffect(() => {
-    const fetchData = async () => {
+    const fetchGoals = async () => {
       if (!user?.id) return;
 
       try {
-        // Fetch user goals
         const { data: goalsData, error: goalsError } = await supabase
           .from('user_goals')
           .select('*')
@@ -74,113 +163,128 @@ const NutritionChart: React.FC<NutritionChartProps> = ({
 
         if (goalsError) throw goalsError;
         setUserGoals(goalsData);
-
-        // Fetch last 7 days of meal data
-        const sevenDaysAgo = subDays(new Date(), 7).toISOString();
-        const { data: mealsData, error: mealsError } = await supabase
-          .from('meal_logs')
-          .select('*')
-          .eq('user_id', user.id)
-          .gte('created_at', sevenDaysAgo)
-          .order('created_at', { ascending: true });
-
-        if (mealsError) throw mealsError;
-
-        // Process meal data
-        const dailyData = new Map<string, DailyNutritionData>();
-        
-        mealsData.forEach(meal => {
-          const date = format(new Date(meal.created_at), 'EEE dd');
-          const existing = dailyData.get(date) || {
-            date,
-            calories: 0,
-            protein: 0,
-            carbs: 0,
-            fat: 0,
-            fiber: 0
-          };
-
-          // Add meal macros to daily totals
-          existing.calories += meal.calories || 0;
-          existing.protein += meal.protein || 0;
-          existing.carbs += meal.carbs || 0;
-          existing.fat += meal.fat || 0;
-          existing.fiber += meal.fiber || 0;
-
-          dailyData.set(date, existing);
-        });
-
-        // Convert Map to array and fill in missing days
-        const last7Days = Array.from({ length: 7 }, (_, i) => {
-          const date = format(subDays(new Date(), i), 'EEE dd');
-          return dailyData.get(date) || {
-            date,
-            calories: 0,
-            protein: 0,
-            carbs: 0,
-            fat: 0,
-            fiber: 0
-          };
-        }).reverse();
-
-        setChartData(last7Days);
       } catch (error) {
-        console.error('Error fetching nutrition data:', error);
+        console.error('Error fetching nutrition goals:', error);
       } finally {
-        setIsLoading(false);
+        setIsLoadingGoals(false);
       }
     };
 
-    fetchData();
-
-    // Subscribe to real-time updates
-    const subscription = supabase
-      .channel('meal_logs_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'meal_logs',
-          filter: `user_id=eq.${user?.id}`
-        },
-        () => {
-          fetchData(); // Refetch data when changes occur
-        }
-      )
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
+    fetchGoals();
   }, [user?.id]);
 
-  // Calculate percentages based on user goals or default targets
-  const TARGETS = {
-    calories: userGoals?.target_calories || 2000,
-    protein: userGoals?.target_protein_ratio || 150,
-    carbs: userGoals?.target_carbs_ratio || 250,
-    fat: userGoals?.target_fat_ratio || 65,
-    fiber: 30 // Default fiber target
+  // Keeps the bars readable when switching to a longer or shorter range
+  const handleRangeChange = (id: ChartRangeId) => {
+    setRangeId(id);
+    const next = getRangeDates(id, today, id === 'custom' && !validateCustomRange(customRange, today) ? customRange : undefined);
+    setAggregation(getDefaultAggregation(getRangeLength(next)));
+  };
+
+  const handleCustomRangeChange = (changes: Partial<DateRange>) => {
+    const next = { ...customRange, ...changes };
+    setCustomRange(next);
+    if (!validateCustomRange(next, today)) {
+      setAggregation(getDefaultAggregation(getRangeLength(next)));
+    }
+  };
+
+  // Averages a rollup value over the days of a bucket that have meals logged
+  const averageOverLogs = (dates: string[], getValue: (log: NutritionLog, date: string) => number) =>
+    averageOf(dates.map(date => {
+      const log = getLogForDate(date);
+      return log ? getValue(log, date) : undefined;
+    }));
+
+  const averageWater = (dates: string[]) => averageOf(dates.map(date => getWaterForDate(date) || undefined));
+
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+
+  const dates = listDates(range);
+  const previousDates = listDates(previousRange);
+  const buckets = groupDates(dates, aggregation);
+
+  const isLoading = isLoadingGoals || isLoadingLogs || isLoadingHistory;
+  const selectedNutrient = MICRONUTRIENTS.find(nutrient => nutrient.key === selectedView);
+
+  // The goals of a day: its training, rest or refeed profile, else the base goals in
+  // force on that day
+  const getDayGoals = (date: string) => getGoalsForDate(date, getGoalsInEffect(date, userGoals)).goals;
+
+  // Calculate percentages based on the goals of each day or default targets, with
+  // macro targets in grams
+  const getTargetsForDate = (date: string) => {
+    const targets = resolveMacroTargets(getDayGoals(date));
+    return {
+      calories: targets.calories,
+      protein: targets.protein.grams,
+      carbs: targets.carbs.grams,
+      fat: targets.fat.grams,
+    };
+  };
+
+  // Days before the first goal version have none stored; the profile's goal applies
+  const getWaterTargetForDate = (date: string) => {
+    const goalLiters = getDayGoals(date)?.water_intake_goal;
+    return goalLiters ? getWaterGoalMl(goalLiters) : waterGoalMl;
   };
 
-  // Process data to show percentages of targets
-  const processedData = chartData.map(item => ({
-    date: item.date,
-    calories: (item.calories / TARGETS.calories) * 100,
-    protein: (item.protein / TARGETS.protein) * 100,
-    carbs: (item.carbs / TARGETS.carbs) * 100,
-    fat: (item.fat / TARGETS.fat) * 100,
-    fiber: (item.fiber / TARGETS.fiber) * 100
+  const getNutrientTargetForDate = (date: string, key: MicronutrientKey) =>
+    getNutrientTargets(getDayGoals(date)?.nutrient_targets)[key];
+
+  // One bar per day, week or month; days without meals are left out of averages
+  const chartData: DailyNutritionData[] = buckets.map(bucket => ({
+    date: bucket.label,
+    calories: Math.round(averageOverLogs(bucket.dates, log => log.calories || 0)),
+    protein: round1(averageOverLogs(bucket.dates, log => log.protein || 0)),
+    carbs: round1(averageOverLogs(bucket.dates, log => log.carbs || 0)),
+    fat: round1(averageOverLogs(bucket.dates, log => log.fat || 0)),
+    water: Math.round(averageWater(bucket.dates)),
+    waterTarget: Math.round(averageOf(bucket.dates.map(getWaterTargetForDate))),
+    nutrientTarget: selectedNutrient
+      ? averageOf(bucket.dates.map(date => getNutrientTargetForDate(date, selectedNutrient.key)))
+      : undefined,
+    ...mapMicronutrients(key => averageOverLogs(bucket.dates, log => log[key] || 0)),
+  }));
+
+  // Process data to show percentages of targets, each day against its own targets
+  const processedData = buckets.map(bucket => ({
+    date: bucket.label,
+    calories: averageOverLogs(bucket.dates, (log, date) => ((log.calories || 0) / getTargetsForDate(date).calories) * 100),
+    protein: averageOverLogs(bucket.dates, (log, date) => ((log.protein || 0) / getTargetsForDate(date).protein) * 100),
+    carbs: averageOverLogs(bucket.dates, (log, date) => ((log.carbs || 0) / getTargetsForDate(date).carbs) * 100),
+    fat: averageOverLogs(bucket.dates, (log, date) => ((log.fat || 0) / getTargetsForDate(date).fat) * 100),
   }));
 
+  // Averages of the selected view in this period and the one before
+  const comparison = selectedView === WATER_VIEW
+    ? [{ label: 'Water', current: averageWater(dates), previous: averageWater(previousDates), format: formatWaterAmount }]
+    : selectedNutrient
+    ? [{
+      label: selectedNutrient.label,
+      current: averageOverLogs(dates, log => log[selectedNutrient.key] || 0),
+      previous: averageOverLogs(previousDates, log => log[selectedNutrient.key] || 0),
+      format: (value: number) => formatNutrientAmount(value, selectedNutrient),
+    }]
+    : ([
+      ['Calories', 'calories', 'kcal'],
+      ['Protein', 'protein', 'g'],
+      ['Carbs', 'carbs', 'g'],
+      ['Fat', 'fat', 'g'],
+    ] as const).map(([label, key, unit]) => ({
+      label,
+      current: averageOverLogs(dates, log => log[key] || 0),
+      previous: averageOverLogs(previousDates, log => log[key] || 0),
+      format: (value: number) => `${Math.round(value)} ${unit}`,
+    }));
+
+  const averagedBy = aggregation === 'day' ? '' : `, averaged by ${aggregation}`;
+
   // Colors for each nutrient
   const colors = {
     calories: theme.colors.accent['500'],
     protein: theme.colors.brand['500'],
     carbs: theme.colors.blue['400'],
     fat: theme.colors.yellow['500'],
-    fiber: theme.colors.green['500']
   };
 
   // Custom tooltip formatter
@@ -241,9 +345,26 @@ const NutritionChart: React.FC<NutritionChartProps> = ({
               {title}
             </Heading>
             <Text color="text.light" fontSize="sm">
-              Daily breakdown of nutritional targets achieved (%)
+              {selectedView === WATER_VIEW
+                ? `Daily water intake against your goal of ${formatWaterAmount(waterGoalMl)}${averagedBy}`
+                : selectedNutrient
+                ? `Daily ${selectedNutrient.label.toLowerCase()} (${selectedNutrient.unit}) against your ${selectedNutrient.targetKind === 'max' ? 'limit' : 'goal'}${averagedBy}`
+                : `Daily breakdown of nutritional targets achieved (%)${averagedBy}`}
             </Text>
           </VStack>
+          <Select
+            value={selectedView}
+            onChange={(e) => setSelectedView(e.target.value)}
+            size="sm"
+            maxW="180px"
+            borderColor="brand.200"
+          >
+            <option value={MACROS_VIEW}>Calories & Macros</option>
+            <option value={WATER_VIEW}>Water</option>
+            {MICRONUTRIENTS.map(nutrient => (
+              <option key={nutrient.key} value={nutrient.key}>{nutrient.label}</option>
+            ))}
+          </Select>
           <Button
             onClick={() => onNavigate('log-meal')}
             colorScheme="teal"
@@ -255,39 +376,170 @@ const NutritionChart: React.FC<NutritionChartProps> = ({
           </Button>
         </HStack>
 
-        <Box height="300px">
-          <ResponsiveContainer width="100%" height={350}>
-            <BarChart
-              data={processedData}
-              margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
-            >
-              <CartesianGrid strokeDasharray="3 3" stroke={theme.colors.gray['200']} />
-              <XAxis
-                dataKey="date"
-                stroke={theme.colors.text.light}
-                tick={{ fill: theme.colors.text.light, fontSize: 12 }}
-                axisLine={{ stroke: theme.colors.gray['300'] }}
-                tickLine={{ stroke: theme.colors.gray['300'] }}
-              />
-              <YAxis
-                stroke={theme.colors.text.light}
-                tick={{ fill: theme.colors.text.light, fontSize: 12 }}
-                axisLine={{ stroke: theme.colors.gray['300'] }}
-                tickLine={{ stroke: theme.colors.gray['300'] }}
-                tickFormatter={(value) => `${value}%`}
+        <HStack spacing={3} flexWrap="wrap">
+          <Select
+            value={rangeId}
+            onChange={(e) => handleRangeChange(e.target.value as ChartRangeId)}
+            size="sm"
+            maxW="180px"
+            borderColor="brand.200"
+          >
+            {CHART_RANGES.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </Select>
+          {rangeId === 'custom' && (
+            <>
+              <Input
+                type="date"
+                size="sm"
+                maxW="160px"
+                borderColor="brand.200"
+                value={customRange.startDate}
+                onChange={(e) => handleCustomRangeChange({ startDate: e.target.value })}
               />
-              <RechartsTooltip content={<CustomTooltip />} />
-              <Legend
-                wrapperStyle={{ paddingTop: '20px', color: theme.colors.text.dark }}
-                iconSize={10}
-                iconType="circle"
+              <Text fontSize="sm" color="text.light">to</Text>
+              <Input
+                type="date"
+                size="sm"
+                maxW="160px"
+                borderColor="brand.200"
+                value={customRange.endDate}
+                onChange={(e) => handleCustomRangeChange({ endDate: e.target.value })}
               />
-              <Bar dataKey="calories" fill={colors.calories} name="Calories" barSize={20} />
-              <Bar dataKey="protein" fill={colors.protein} name="Protein" barSize={20} />
-              <Bar dataKey="carbs" fill={colors.carbs} name="Carbs" barSize={20} />
-              <Bar dataKey="fat" fill={colors.fat} name="Fat" barSize={20} />
-              <Bar dataKey="fiber" fill={colors.fiber} name="Fiber" barSize={20} />
-            </BarChart>
+            </>
+          )}
+          <Select
+            value={aggregation}
+            onChange={(e) => setAggregation(e.target.value as Aggregation)}
+            size="sm"
+            maxW="180px"
+            borderColor="brand.200"
+          >
+            {AGGREGATIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </Select>
+        </HStack>
+        {customRangeError && (
+          <Text color="orange.500" fontSize="sm">{customRangeError}</Text>
+        )}
+
+        <SimpleGrid columns={{ base: 2, md: comparison.length }} gap={3}>
+          {comparison.map(metric => {
+            const change = percentChange(metric.current, metric.previous);
+            return (
+              <Stat key={metric.label} p={3} bg="brand.100" borderRadius="md">
+                <StatLabel color="text.light">Avg {metric.label}</StatLabel>
+                <StatNumber fontSize="lg" color="text.dark">{metric.format(metric.current)}</StatNumber>
+                <StatHelpText mb={0} fontSize="xs">
+                  {change === null
+                    ? 'No data for the previous period'
+                    : `${change >= 0 ? '+' : ''}${Math.round(change)}% vs previous ${getRangeLength(range)} days`}
+                </StatHelpText>
+              </Stat>
+            );
+          })}
+        </SimpleGrid>
+
+        <Box height="300px">
+          <ResponsiveContainer width="100%" height={350}>
+            {selectedView === WATER_VIEW ? (
+              <ComposedChart
+                data={chartData}
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke={theme.colors.gray['200']} />
+                <XAxis
+                  dataKey="date"
+                  stroke={theme.colors.text.light}
+                  tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+                  axisLine={{ stroke: theme.colors.gray['300'] }}
+                  tickLine={{ stroke: theme.colors.gray['300'] }}
+                />
+                <YAxis
+                  stroke={theme.colors.text.light}
+                  tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+                  axisLine={{ stroke: theme.colors.gray['300'] }}
+                  tickLine={{ stroke: theme.colors.gray['300'] }}
+                  tickFormatter={(value) => `${value} ml`}
+                />
+                <RechartsTooltip formatter={(value: number, name: string) => [formatWaterAmount(value), name]} />
+                <Bar dataKey="water" fill={colors.carbs} name="Water" maxBarSize={20} />
+                <Line
+                  dataKey="waterTarget"
+                  type="step"
+                  stroke={theme.colors.red['400']}
+                  strokeDasharray="4 4"
+                  dot={false}
+                  name="Goal"
+                />
+              </ComposedChart>
+            ) : selectedNutrient ? (
+              <ComposedChart
+                data={chartData}
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke={theme.colors.gray['200']} />
+                <XAxis
+                  dataKey="date"
+                  stroke={theme.colors.text.light}
+                  tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+                  axisLine={{ stroke: theme.colors.gray['300'] }}
+                  tickLine={{ stroke: theme.colors.gray['300'] }}
+                />
+                <YAxis
+                  stroke={theme.colors.text.light}
+                  tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+                  axisLine={{ stroke: theme.colors.gray['300'] }}
+                  tickLine={{ stroke: theme.colors.gray['300'] }}
+                  tickFormatter={(value) => `${value} ${selectedNutrient.unit}`}
+                />
+                <RechartsTooltip
+                  formatter={(value: number, name: string) => [formatNutrientAmount(value, selectedNutrient), name]}
+                />
+                <Bar dataKey={selectedNutrient.key} fill={colors.protein} name={selectedNutrient.label} maxBarSize={20} />
+                <Line
+                  dataKey="nutrientTarget"
+                  type="step"
+                  stroke={theme.colors.red['400']}
+                  strokeDasharray="4 4"
+                  dot={false}
+                  name={selectedNutrient.targetKind === 'max' ? 'Limit' : 'Goal'}
+                />
+              </ComposedChart>
+            ) : (
+              <BarChart
+                data={processedData}
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke={theme.colors.gray['200']} />
+                <XAxis
+                  dataKey="date"
+                  stroke={theme.colors.text.light}
+                  tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+                  axisLine={{ stroke: theme.colors.gray['300'] }}
+                  tickLine={{ stroke: theme.colors.gray['300'] }}
+                />
+                <YAxis
+                  stroke={theme.colors.text.light}
+                  tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+                  axisLine={{ stroke: theme.colors.gray['300'] }}
+                  tickLine={{ stroke: theme.colors.gray['300'] }}
+                  tickFormatter={(value) => `${value}%`}
+                />
+                <RechartsTooltip content={<CustomTooltip />} />
+                <Legend
+                  wrapperStyle={{ paddingTop: '20px', color: theme.colors.text.dark }}
+                  iconSize={10}
+                  iconType="circle"
+                />
+                <Bar dataKey="calories" fill={colors.calories} name="Calories" maxBarSize={20} />
+                <Bar dataKey="protein" fill={colors.protein} name="Protein" maxBarSize={20} />
+                <Bar dataKey="carbs" fill={colors.carbs} name="Carbs" maxBarSize={20} />
+                <Bar dataKey="fat" fill={colors.fat} name="Fat" maxBarSize={20} />
+              </BarChart>
+            )}
           </ResponsiveContainer>
         </Box>
       </VStack>
@@ -1,4 +1,8 @@
 // src/components/dashboard/ProgressTracker.tsx
+// This component shows progress towards the user's goals: the current weight against
+// the target weight with the weight history, its trend and the projected date the
+// target is reached, tape measurements with waist-to-height and waist-to-hip ratios,
+// and today's calories against the calorie target.
 import React, { useEffect, useState } from 'react';
 import {
   Box,
@@ -10,22 +14,55 @@ import {
   Icon,
   Divider,
   Spinner,
-  Center
+  Center,
+  Button,
+  ButtonGroup
 } from '@chakra-ui/react';
 import { FaWeight, FaFire } from 'react-icons/fa';
 import { supabase } from '../../services/supabase';
 import { useAuth } from '../../hooks/useAuth';
+import { useNutritionLogs } from '../../hooks/useNutritionLogs';
+import { useWeightEntries } from '../../hooks/useWeightEntries';
+import { useBodyMeasurements } from '../../hooks/useBodyMeasurements';
+import { getDerivedMetrics } from '../../utils/measurements';
+import { projectTargetDate } from '../../utils/trends';
+import { format, parseISO, subDays } from 'date-fns';
+import WeightEntryForm from './WeightEntryForm';
+import WeightTrendChart from './WeightTrendChart';
+import BodyMeasurementForm from './BodyMeasurementForm';
+import BodyMeasurementChart from './BodyMeasurementChart';
 
 interface ProgressData {
   current_weight?: number | null;
   target_weight?: number | null;
   target_calories?: number | null;
+  height_cm?: number | null;
+  gender?: string | null;
 }
 
+// Periods the weight trend can be shown for, in days
+const TREND_RANGES = [30, 90, 365];
+
 const ProgressTracker: React.FC = () => {
   const { user } = useAuth();
   const [isLoading, setIsLoading] = useState(true);
   const [data, setData] = useState<ProgressData | null>(null);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const { getLogForDate } = useNutritionLogs(today, today, 'progress_nutrition_logs');
+  const [trendRange, setTrendRange] = useState(TREND_RANGES[0]);
+  const {
+    entries: weightEntries,
+    latestEntry,
+    isSaving: isSavingWeight,
+    saveWeightEntry,
+  } = useWeightEntries(format(subDays(new Date(), trendRange - 1), 'yyyy-MM-dd'), 'progress_weight_entries');
+  const {
+    measurements,
+    settings: measurementSettings,
+    isSaving: isSavingMeasurements,
+    saveMeasurements,
+    getLatestBySite,
+  } = useBodyMeasurements(format(subDays(new Date(), trendRange - 1), 'yyyy-MM-dd'), 'progress_body_measurements');
 
   useEffect(() => {
     const fetchProgressData = async () => {
@@ -35,7 +72,7 @@ const ProgressTracker: React.FC = () => {
         // Fetch user profile for current weight
         const { data: profileData, error: profileError } = await supabase
           .from('user_profiles')
-          .select('weight_kg')
+          .select('weight_kg, height_cm, gender')
           .eq('user_id', user.id)
           .single();
 
@@ -53,7 +90,9 @@ const ProgressTracker: React.FC = () => {
         setData({
           current_weight: profileData?.weight_kg,
           target_weight: goalsData?.target_weight_kg,
-          target_calories: goalsData?.target_calories
+          target_calories: goalsData?.target_calories,
+          height_cm: profileData?.height_cm,
+          gender: profileData?.gender
         });
       } catch (error) {
         console.error('Error fetching progress data:', error);
@@ -118,7 +157,8 @@ const ProgressTracker: React.FC = () => {
     );
   }
 
-  const currentWeight = data?.current_weight;
+  // The latest logged weight wins over the profile weight set during onboarding
+  const currentWeight = latestEntry?.weight_kg ?? data?.current_weight;
   const targetWeight = data?.target_weight;
   const targetCalories = data?.target_calories;
 
@@ -136,7 +176,14 @@ const ProgressTracker: React.FC = () => {
     weightProgress = Math.min(100, Math.max(0, weightProgress));
   }
 
-  const calorieTargetProgress = targetCalories ? 50 : 0;
+  const projectedDate = targetWeight && weightEntries.length > 1
+    ? projectTargetDate(weightEntries.map(entry => ({ date: entry.entry_date, value: entry.weight_kg })), targetWeight)
+    : null;
+
+  const derivedMetrics = getDerivedMetrics(getLatestBySite(), data?.height_cm, data?.gender);
+
+  const caloriesToday = getLogForDate(today)?.calories || 0;
+  const calorieTargetProgress = targetCalories ? (caloriesToday / targetCalories) * 100 : 0;
 
   return (
     <Box
@@ -190,7 +237,10 @@ const ProgressTracker: React.FC = () => {
                 />
               </Box>
             )}
-            {!currentWeight && <Text color="text.light" fontSize="sm">Log your current weight in your profile.</Text>}
+            {latestEntry?.body_fat_percentage && (
+              <Text color="text.light" fontSize="sm">Body fat: {latestEntry.body_fat_percentage}%</Text>
+            )}
+            {!currentWeight && <Text color="text.light" fontSize="sm">Log your current weight below.</Text>}
             {!targetWeight && <Text color="text.light" fontSize="sm">Set a target weight in Goal Settings.</Text>}
           </Box>
 
@@ -204,7 +254,7 @@ const ProgressTracker: React.FC = () => {
                 {targetCalories !== null && targetCalories ? `${targetCalories} kcal` : '--'}
               </Text>
               <Text color="text.light" fontSize="sm">
-                Daily Goal
+                Daily Goal{targetCalories ? ` - ${Math.round(caloriesToday)} kcal eaten today` : ''}
               </Text>
             </Box>
             {targetCalories !== null && targetCalories && (
@@ -229,6 +279,91 @@ const ProgressTracker: React.FC = () => {
 
         <Divider borderColor="brand.100" />
 
+        <Box>
+          <HStack justify="space-between" mb={3}>
+            <Heading as="h3" size="md" color="text.dark">
+              Weight Trend
+            </Heading>
+            <ButtonGroup size="xs" isAttached variant="outline" colorScheme="teal">
+              {TREND_RANGES.map(range => (
+                <Button
+                  key={range}
+                  onClick={() => setTrendRange(range)}
+                  variant={trendRange === range ? 'solid' : 'outline'}
+                >
+                  {range} days
+                </Button>
+              ))}
+            </ButtonGroup>
+          </HStack>
+          {weightEntries.length > 0 ? (
+            <WeightTrendChart entries={weightEntries} targetWeight={targetWeight} />
+          ) : (
+            <Text color="text.light" fontSize="sm">No weight logged in the last {trendRange} days.</Text>
+          )}
+          {targetWeight && weightEntries.length > 1 && (
+            <Text color="text.dark" fontSize="sm" mt={2}>
+              {projectedDate
+                ? `At your current trend you will reach ${targetWeight} kg around ${format(parseISO(projectedDate), 'MMM d, yyyy')}.`
+                : `Your ${trendRange}-day trend is not moving towards your target weight yet.`}
+            </Text>
+          )}
+          <Box mt={4}>
+            <WeightEntryForm onSave={saveWeightEntry} isSaving={isSavingWeight} />
+          </Box>
+        </Box>
+
+        <Divider borderColor="brand.100" />
+
+        <Box>
+          <Heading as="h3" size="md" mb={3} color="text.dark">
+            Body Measurements
+          </Heading>
+          <SimpleGrid columns={{ base: 1, md: 2 }} gap={4} mb={4}>
+            <Box p={3} bg="brand.100" borderRadius="md">
+              <Text color="text.light" fontSize="sm">Waist-to-Height Ratio</Text>
+              <Text fontSize="2xl" fontWeight="bold" color={derivedMetrics.waistToHeightElevated ? 'red.500' : 'accent.600'}>
+                {derivedMetrics.waistToHeight ?? '--'}
+              </Text>
+              <Text color="text.light" fontSize="xs">
+                {derivedMetrics.waistToHeight === null
+                  ? 'Log your waist and height to see this ratio.'
+                  : 'Below 0.5 is considered healthy.'}
+              </Text>
+            </Box>
+            <Box p={3} bg="brand.100" borderRadius="md">
+              <Text color="text.light" fontSize="sm">Waist-to-Hip Ratio</Text>
+              <Text fontSize="2xl" fontWeight="bold" color={derivedMetrics.waistToHipElevated ? 'red.500' : 'accent.600'}>
+                {derivedMetrics.waistToHip ?? '--'}
+              </Text>
+              <Text color="text.light" fontSize="xs">
+                {derivedMetrics.waistToHip === null
+                  ? 'Log your waist and hips to see this ratio.'
+                  : `Below ${data?.gender === 'male' ? '0.9' : '0.85'} is considered healthy.`}
+              </Text>
+            </Box>
+          </SimpleGrid>
+          {measurements.length > 0 ? (
+            <BodyMeasurementChart
+              measurements={measurements}
+              sites={measurementSettings.sites}
+              unit={measurementSettings.unit}
+            />
+          ) : (
+            <Text color="text.light" fontSize="sm">No measurements logged in the last {trendRange} days.</Text>
+          )}
+          <Box mt={4}>
+            <BodyMeasurementForm
+              sites={measurementSettings.sites}
+              unit={measurementSettings.unit}
+              onSave={saveMeasurements}
+              isSaving={isSavingMeasurements}
+            />
+          </Box>
+        </Box>
+
+        <Divider borderColor="brand.100" />
+
         <Box>
           <Heading as="h3" size="md" mb={3} color="text.dark">
             Overall Progress
@@ -0,0 +1,149 @@
+// src/components/dashboard/WaterIntakeTracker.tsx
+// This component logs today's water intake: one-tap buttons for common amounts, a
+// custom amount with the beverage it was, and a progress ring against the user's
+// daily water intake goal. Today's entries are listed so mistakes can be removed.
+
+import React, { useState } from 'react';
+import {
+  Button,
+  CircularProgress,
+  CircularProgressLabel,
+  HStack,
+  IconButton,
+  NumberInput,
+  NumberInputField,
+  Select,
+  Stack,
+  Text,
+  VStack,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react';
+import { format, parseISO } from 'date-fns';
+import { FaTint, FaTimes } from 'react-icons/fa';
+import { useWaterIntake } from '../../hooks/useWaterIntake';
+import {
+  BEVERAGES,
+  BeverageId,
+  QUICK_WATER_AMOUNTS_ML,
+  formatWaterAmount,
+  getBeverageLabel,
+} from '../../utils/hydration';
+
+const WaterIntakeTracker: React.FC = () => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const { goalMl, isSaving, addWater, deleteWaterLog, getLogsForDate, getTotalForDate } = useWaterIntake(
+    today,
+    today,
+    'water_intake_tracker_water_logs'
+  );
+  const [customAmount, setCustomAmount] = useState('');
+  const [beverage, setBeverage] = useState<BeverageId>('water');
+
+  const totalMl = getTotalForDate(today);
+  const progress = Math.min((totalMl / goalMl) * 100, 100);
+  const todaysLogs = getLogsForDate(today);
+
+  const handleAdd = async (amountMl: number, beverageId: BeverageId) => {
+    try {
+      await addWater(amountMl, beverageId, today);
+    } catch (error) {
+      // Errors are already surfaced by useWaterIntake
+      console.error('Error logging water:', error);
+    }
+  };
+
+  const handleDelete = async (logId: string) => {
+    try {
+      await deleteWaterLog(logId);
+    } catch (error) {
+      console.error('Error deleting water log:', error);
+    }
+  };
+
+  const handleAddCustom = async () => {
+    const amountMl = Number(customAmount);
+    if (!amountMl) return;
+    await handleAdd(amountMl, beverage);
+    setCustomAmount('');
+  };
+
+  return (
+    <Stack direction={{ base: 'column', md: 'row' }} spacing={6} align={{ base: 'center', md: 'flex-start' }}>
+      <CircularProgress value={progress} size="120px" thickness="10px" color="blue.400" trackColor="brand.100">
+        <CircularProgressLabel>
+          <Text fontSize="md" fontWeight="bold" color="text.dark">{formatWaterAmount(totalMl)}</Text>
+          <Text fontSize="xs" color="text.light">of {formatWaterAmount(goalMl)}</Text>
+        </CircularProgressLabel>
+      </CircularProgress>
+
+      <VStack align="stretch" spacing={3} flex={1} w="100%">
+        <HStack spacing={2}>
+          {QUICK_WATER_AMOUNTS_ML.map(amountMl => (
+            <Button
+              key={amountMl}
+              size="sm"
+              colorScheme="blue"
+              variant="outline"
+              leftIcon={<FaTint />}
+              onClick={() => handleAdd(amountMl, 'water')}
+              isDisabled={isSaving}
+            >
+              +{amountMl} ml
+            </Button>
+          ))}
+        </HStack>
+
+        <HStack spacing={2}>
+          <NumberInput
+            size="sm"
+            min={1}
+            max={5000}
+            value={customAmount}
+            onChange={(value) => setCustomAmount(value)}
+            maxW="110px"
+          >
+            <NumberInputField placeholder="Amount (ml)" borderColor="brand.200" />
+          </NumberInput>
+          <Select
+            size="sm"
+            value={beverage}
+            onChange={(e) => setBeverage(e.target.value as BeverageId)}
+            maxW="160px"
+            borderColor="brand.200"
+          >
+            {BEVERAGES.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </Select>
+          <Button size="sm" colorScheme="teal" onClick={handleAddCustom} isLoading={isSaving} isDisabled={!Number(customAmount)}>
+            Add
+          </Button>
+        </HStack>
+
+        {todaysLogs.length > 0 && (
+          <Wrap spacing={2}>
+            {todaysLogs.map(log => (
+              <WrapItem key={log.id}>
+                <HStack spacing={1} px={2} py={1} bg="brand.100" borderRadius="md">
+                  <Text fontSize="xs" color="text.dark">
+                    {format(parseISO(log.created_at), 'HH:mm')} {getBeverageLabel(log.beverage)} {formatWaterAmount(log.amount_ml)}
+                  </Text>
+                  <IconButton
+                    aria-label="Remove water log"
+                    icon={<FaTimes />}
+                    size="xs"
+                    variant="ghost"
+                    onClick={() => handleDelete(log.id)}
+                  />
+                </HStack>
+              </WrapItem>
+            ))}
+          </Wrap>
+        )}
+      </VStack>
+    </Stack>
+  );
+};
+
+export default WaterIntakeTracker;
@@ -0,0 +1,101 @@
+// src/components/dashboard/WeightEntryForm.tsx
+// This component records a body weight entry: the date (today by default), the
+// weight and an optional body fat percentage. Logging a date that already has an
+// entry replaces it.
+
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormLabel,
+  Input,
+  Stack,
+} from '@chakra-ui/react';
+import { weightEntrySchema } from '../../utils/validation';
+import { WeightEntryInput } from '../../hooks/useWeightEntries';
+
+type WeightEntryFormInputs = z.infer<typeof weightEntrySchema>;
+
+interface WeightEntryFormProps {
+  onSave: (input: WeightEntryInput) => Promise<unknown>;
+  isSaving?: boolean;
+}
+
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const WeightEntryForm: React.FC<WeightEntryFormProps> = ({ onSave, isSaving }) => {
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<WeightEntryFormInputs>({
+    resolver: zodResolver(weightEntrySchema),
+    defaultValues: {
+      entry_date: format(new Date(), 'yyyy-MM-dd'),
+    },
+  });
+
+  const onSubmit = async (data: WeightEntryFormInputs) => {
+    try {
+      await onSave(data);
+      reset({ entry_date: format(new Date(), 'yyyy-MM-dd') });
+    } catch (error) {
+      // Errors are already surfaced by useWeightEntries
+      console.error('Error saving weight entry:', error);
+    }
+  };
+
+  return (
+    <Stack as="form" onSubmit={handleSubmit(onSubmit)} direction={{ base: 'column', md: 'row' }} spacing={3} align="flex-end">
+      <FormControl id="weight_entry_date" isInvalid={!!errors.entry_date}>
+        <FormLabel color="text.dark" fontSize="sm">Date</FormLabel>
+        <Input
+          type="date"
+          size="sm"
+          max={format(new Date(), 'yyyy-MM-dd')}
+          {...register('entry_date')}
+          borderColor="brand.200"
+        />
+        <FormErrorMessage>{errors.entry_date?.message}</FormErrorMessage>
+      </FormControl>
+
+      <FormControl id="weight_entry_weight" isInvalid={!!errors.weight_kg}>
+        <FormLabel color="text.dark" fontSize="sm">Weight (kg)</FormLabel>
+        <Input
+          type="number"
+          size="sm"
+          step="0.1"
+          {...register('weight_kg', { valueAsNumber: true })}
+          placeholder="e.g., 72.5"
+          borderColor="brand.200"
+        />
+        <FormErrorMessage>{errors.weight_kg?.message}</FormErrorMessage>
+      </FormControl>
+
+      <FormControl id="weight_entry_body_fat" isInvalid={!!errors.body_fat_percentage}>
+        <FormLabel color="text.dark" fontSize="sm">Body fat % (optional)</FormLabel>
+        <Input
+          type="number"
+          size="sm"
+          step="0.1"
+          {...register('body_fat_percentage', { setValueAs: toOptionalNumber })}
+          placeholder="e.g., 22"
+          borderColor="brand.200"
+        />
+        <FormErrorMessage>{errors.body_fat_percentage?.message}</FormErrorMessage>
+      </FormControl>
+
+      <Button type="submit" size="sm" colorScheme="teal" isLoading={isSaving} loadingText="Saving..." flexShrink={0}>
+        Log Weight
+      </Button>
+    </Stack>
+  );
+};
+
+export default WeightEntryForm;
@@ -0,0 +1,66 @@
+// src/components/dashboard/WeightTrendChart.tsx
+// This component charts body weight entries as points with their moving-average
+// trend line, and the target weight as a reference line.
+
+import React from 'react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { useTheme } from '@chakra-ui/react';
+import { format, parseISO } from 'date-fns';
+import { WeightEntry } from '../../hooks/useWeightEntries';
+import { movingAverage } from '../../utils/trends';
+
+interface WeightTrendChartProps {
+  entries: WeightEntry[];
+  targetWeight?: number | null;
+}
+
+const WeightTrendChart: React.FC<WeightTrendChartProps> = ({ entries, targetWeight }) => {
+  const theme = useTheme();
+
+  const trend = movingAverage(entries.map(entry => ({ date: entry.entry_date, value: entry.weight_kg })));
+  const chartData = entries.map((entry, index) => ({
+    date: format(parseISO(entry.entry_date), 'MMM d'),
+    weight: entry.weight_kg,
+    trend: Math.round(trend[index].value * 10) / 10,
+  }));
+
+  const weights = [...entries.map(entry => entry.weight_kg), ...(targetWeight ? [targetWeight] : [])];
+  const domain = [Math.floor(Math.min(...weights) - 1), Math.ceil(Math.max(...weights) + 1)];
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke={theme.colors.gray['200']} />
+        <XAxis
+          dataKey="date"
+          stroke={theme.colors.text.light}
+          tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+          axisLine={{ stroke: theme.colors.gray['300'] }}
+          tickLine={{ stroke: theme.colors.gray['300'] }}
+        />
+        <YAxis
+          domain={domain}
+          stroke={theme.colors.text.light}
+          tick={{ fill: theme.colors.text.light, fontSize: 12 }}
+          axisLine={{ stroke: theme.colors.gray['300'] }}
+          tickLine={{ stroke: theme.colors.gray['300'] }}
+          tickFormatter={(value) => `${value} kg`}
+        />
+        <Tooltip formatter={(value: number, name: string) => [`${value} kg`, name]} />
+        <Legend iconSize={10} iconType="circle" />
+        {targetWeight && (
+          <ReferenceLine
+            y={targetWeight}
+            stroke={theme.colors.green['500']}
+            strokeDasharray="4 4"
+            label={{ value: 'Target', position: 'right', fontSize: 12 }}
+          />
+        )}
+        <Scatter dataKey="weight" name="Weight" fill={theme.colors.gray['400']} />
+        <Line type="monotone" dataKey="trend" name="Trend" stroke={theme.colors.accent['500']} strokeWidth={2} dot={false} />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default WeightTrendChart;
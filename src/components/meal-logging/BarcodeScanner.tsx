@@ -1,17 +1,24 @@
 // src/components/meal-logging/BarcodeScanner.tsx
 // This component provides a barcode scanning interface using react-zxing.
 // It allows users to scan barcodes with their webcam to quickly identify food items.
-// It handles camera permissions and provides visual feedback.
+// It handles camera permissions and provides visual feedback. Without a camera the
+// barcode can be read from an uploaded photo or typed in. Barcodes are validated
+// and normalized (utils/barcode) before they are looked up. When a barcode is
+// not in the database, the user can add the product right away (CustomFoodForm).
 
-import React, { useState } from 'react';
-import { useZxing } from 'react-zxing';
-import { Box, Button, Text, VStack, Center, Icon, Heading } from '@chakra-ui/react';
-import { FaBarcode, FaLightbulb, FaRegLightbulb } from 'react-icons/fa';
+import React, { useState, useRef } from 'react';
+import { useZxing, DecodeHintType } from 'react-zxing';
+import { Box, Button, Text, VStack, HStack, Center, Icon, Heading, Input } from '@chakra-ui/react';
+import { FaBarcode, FaImage, FaLightbulb, FaRegLightbulb } from 'react-icons/fa';
 import { useErrorHandling } from '../../hooks/useErrorHandling';
-import { supabase } from '../../services/supabase';
+import { useAuth } from '../../hooks/useAuth';
+import { decodeBarcodeImage, findFoodByBarcode, PRODUCT_BARCODE_FORMATS, toBarcodeFormatId } from '../../services/barcodes';
+import { MicronutrientsPerServing } from '../../utils/nutrients';
+import { BARCODE_FORMATS, BarcodeFormatId, parseBarcode } from '../../utils/barcode';
+import CustomFoodForm from './CustomFoodForm';
 
 // Define a basic type for a food item from search results
-export interface ScannedFoodItem {
+export interface ScannedFoodItem extends MicronutrientsPerServing {
   id: string;
   name: string;
   calories_per_serving: number;
@@ -20,6 +27,8 @@ export interface ScannedFoodItem {
   fat_per_serving: number;
   serving_size: number;
   serving_unit: string;
+  density_g_per_ml?: number | null;
+  piece_weight_g?: number | null;
   barcode: string;
 }
 
@@ -27,58 +36,110 @@ interface BarcodeScannerProps {
   onBarcodeScanned: (food: ScannedFoodItem) => void;
 }
 
+// Only product barcodes are decoded from the camera
+const CAMERA_HINTS = new Map<DecodeHintType, unknown>([
+  [DecodeHintType.POSSIBLE_FORMATS, Object.values(PRODUCT_BARCODE_FORMATS)],
+]);
+
 const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned }) => {
   const [result, setResult] = useState('');
+  // The scanned barcode no food was found for, while the user adds it
+  const [missingBarcode, setMissingBarcode] = useState<string | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isDecodingImage, setIsDecodingImage] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualBarcode, setManualBarcode] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
   const { showToast, handleError } = useErrorHandling();
 
+  /**
+   * Validates a barcode and looks up its food.
+   * @param value - The barcode as scanned or typed.
+   * @param format - The symbology reported by the decoder, if any.
+   */
+  const lookupBarcode = async (value: string, format?: BarcodeFormatId) => {
+    const parsed = parseBarcode(value, format);
+    if ('error' in parsed) {
+      showToast({ title: 'Invalid Barcode', description: parsed.error, status: 'error' });
+      return;
+    }
+
+    const { barcode } = parsed;
+    setResult(`${barcode.digits} (${BARCODE_FORMATS[barcode.format].label})`);
+    setIsLookingUp(true);
+    try {
+      const food = await findFoodByBarcode(barcode, user?.id);
+      if (!food) {
+        // No food item found with this barcode
+        setMissingBarcode(barcode.code);
+        showToast({
+          title: 'Food Not Found',
+          description: 'This barcode is not in our database yet. Add it from its nutrition label.',
+          status: 'warning',
+        });
+        return;
+      }
+
+      onBarcodeScanned({ ...food, barcode: food.barcode || barcode.code });
+      showToast({
+        title: 'Food Found!',
+        description: `Found: ${food.name}`,
+        status: 'success',
+      });
+    } catch (error: unknown) {
+      handleError(error, 'Failed to look up food item');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allows picking the same image again
+    event.target.value = '';
+    if (!file) return;
+
+    setIsDecodingImage(true);
+    try {
+      const decoded = await decodeBarcodeImage(file);
+      if (!decoded) {
+        showToast({
+          title: 'No Barcode Found',
+          description: 'Try a sharper photo with the whole barcode in view, or type the digits below it.',
+          status: 'warning',
+        });
+        return;
+      }
+      await lookupBarcode(decoded.text, decoded.format);
+    } catch (error) {
+      handleError(error, 'Failed to read barcode from image');
+    } finally {
+      setIsDecodingImage(false);
+    }
+  };
+
+  const handleManualLookup = () => {
+    if (manualBarcode.trim()) lookupBarcode(manualBarcode);
+  };
+
   const { ref, torch: { on, off, isOn, isAvailable } } = useZxing({
+    // The camera keeps decoding otherwise, looking the same code up again
+    paused: isLookingUp || !!missingBarcode || !!cameraError,
+    hints: CAMERA_HINTS,
     onDecodeResult(decodedResult) {
-      const barcode = decodedResult.getText();
-      setResult(barcode);
-      
-      // Look up the food item in the database
-      const lookupFoodItem = async () => {
-        try {
-          const { data, error } = await supabase
-            .from('food_items')
-            .select('*')
-            .eq('barcode', barcode)
-            .single();
-
-          if (error) {
-            if (error.code === 'PGRST116') {
-              // No food item found with this barcode
-              showToast({
-                title: 'Food Not Found',
-                description: 'This barcode is not in our database. You can add it manually.',
-                status: 'warning',
-              });
-            } else {
-              throw error;
-            }
-          } else if (data) {
-            onBarcodeScanned(data as ScannedFoodItem);
-            showToast({
-              title: 'Food Found!',
-              description: `Found: ${data.name}`,
-              status: 'success',
-            });
-          }
-        } catch (error: unknown) {
-          handleError(error, 'Failed to look up food item');
-        }
-      };
-
-      lookupFoodItem();
+      lookupBarcode(decodedResult.getText(), toBarcodeFormatId(decodedResult.getBarcodeFormat()));
     },
-    onDecodeError(error) {
+    onDecodeError() {
       // Silent handling of decode errors
     },
     onError(error: unknown) {
       const errorMessage = error instanceof Error && error.name === 'NotAllowedError'
         ? 'Please grant camera permissions to use the barcode scanner.'
         : 'Could not access camera. Ensure no other application is using it.';
-      handleError(error, errorMessage);
+      // Shown in place of the video; photo upload and manual entry still work
+      console.error('Error accessing camera:', error);
+      setCameraError(errorMessage);
     },
     constraints: {
       video: { facingMode: 'environment' },
@@ -93,7 +154,7 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned }) =>
           <Icon as={FaBarcode} mr={2} color="accent.500" />Scan a Barcode
         </Heading>
         <Text fontSize="md" color="text.light">
-          Point your camera at a product barcode.
+          Point your camera at a product barcode, upload a photo of it or type its digits.
         </Text>
 
         <Center
@@ -105,6 +166,11 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned }) =>
           overflow="hidden"
           position="relative"
         >
+          {cameraError && (
+            <Text position="absolute" px={6} fontSize="sm" color="text.light">
+              {cameraError}
+            </Text>
+          )}
           <video
             ref={ref as React.RefObject<HTMLVideoElement>}
             style={{
@@ -148,6 +214,65 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onBarcodeScanned }) =>
           </Button>
         )}
 
+        <HStack w="100%" maxW="500px">
+          <Input
+            value={manualBarcode}
+            onChange={(e) => setManualBarcode(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleManualLookup()}
+            placeholder="Barcode digits, e.g. 4006381333931"
+            inputMode="numeric"
+            borderColor="brand.200"
+          />
+          <Button
+            onClick={handleManualLookup}
+            isLoading={isLookingUp}
+            isDisabled={!manualBarcode.trim()}
+            colorScheme="teal"
+            bg="brand.300"
+            color="white"
+            _hover={{ bg: 'brand.400' }}
+          >
+            Look Up
+          </Button>
+        </HStack>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleImageUpload}
+          style={{ display: 'none' }}
+        />
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          isLoading={isDecodingImage}
+          loadingText="Reading barcode..."
+          colorScheme="teal"
+          variant="outline"
+          bg="brand.100"
+          color="text.dark"
+          _hover={{ bg: 'brand.200' }}
+        >
+          <Icon as={FaImage} mr={2} />
+          Scan from Photo
+        </Button>
+
+        {missingBarcode && (
+          <Box w="100%" p={4} borderRadius="md" bg="brand.50" borderColor="brand.200" borderWidth={1}>
+            <Heading as="h4" size="sm" color="text.dark" mb={3} textAlign="left">
+              Add {missingBarcode}
+            </Heading>
+            <CustomFoodForm
+              barcode={missingBarcode}
+              onCreated={food => {
+                setMissingBarcode(null);
+                onBarcodeScanned({ ...food, barcode: food.barcode || missingBarcode });
+              }}
+              onCancel={() => setMissingBarcode(null)}
+            />
+          </Box>
+        )}
+
         {result && (
           <Text mt={2} fontSize="md" color="text.dark">
             Last Scanned: <Text as="span" fontWeight="bold" color="accent.600">{result}</Text>
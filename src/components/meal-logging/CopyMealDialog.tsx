@@ -0,0 +1,97 @@
+// src/components/meal-logging/CopyMealDialog.tsx
+// This component renders a small modal that asks for the date and meal type a
+// meal, or a whole day of meals, should be copied onto. The copy itself is done
+// by the caller through useMealLogging.copyMeal or copyDay.
+
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  Select,
+  Stack,
+  Text,
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+
+// Select value meaning "keep the meal type of each copied meal"
+const KEEP_MEAL_TYPE = '';
+
+interface CopyMealDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  description: string;
+  isLoading?: boolean;
+  onConfirm: (mealDate: string, mealType?: string) => Promise<void>;
+}
+
+const CopyMealDialog: React.FC<CopyMealDialogProps> = ({ isOpen, onClose, title, description, isLoading, onConfirm }) => {
+  const [mealDate, setMealDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [mealType, setMealType] = useState(KEEP_MEAL_TYPE);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMealDate(format(new Date(), 'yyyy-MM-dd'));
+      setMealType(KEEP_MEAL_TYPE);
+    }
+  }, [isOpen]);
+
+  const handleConfirm = async () => {
+    await onConfirm(mealDate, mealType || undefined);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>{title}</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <Stack gap={4}>
+            <Text fontSize="sm" color="text.light">{description}</Text>
+            <FormControl id="copy_meal_date">
+              <FormLabel color="text.dark">Copy to Date</FormLabel>
+              <Input type="date" value={mealDate} onChange={(e) => setMealDate(e.target.value)} borderColor="brand.200" />
+            </FormControl>
+            <FormControl id="copy_meal_type">
+              <FormLabel color="text.dark">Meal Type</FormLabel>
+              <Select value={mealType} onChange={(e) => setMealType(e.target.value)} borderColor="brand.200">
+                <option value={KEEP_MEAL_TYPE}>Keep original</option>
+                <option value="breakfast">Breakfast</option>
+                <option value="lunch">Lunch</option>
+                <option value="dinner">Dinner</option>
+                <option value="snack">Snack</option>
+                <option value="other">Other</option>
+              </Select>
+            </FormControl>
+          </Stack>
+        </ModalBody>
+        <ModalFooter gap={3}>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            colorScheme="teal"
+            onClick={handleConfirm}
+            isLoading={isLoading}
+            loadingText="Copying..."
+            isDisabled={!mealDate}
+          >
+            Copy
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default CopyMealDialog;
@@ -0,0 +1,234 @@
+// src/components/meal-logging/CustomFoodForm.tsx
+// This component lets the user add a food that is missing from the database by
+// copying the values from its nutrition label. It is shown by the barcode scanner
+// when a scanned barcode is unknown, pre-filled with that barcode. The user chooses
+// whether the food stays private or is shared; shared foods are marked unverified
+// until an admin has checked them (see utils/customFoods). When the barcode already
+// belongs to a food, that food is offered instead.
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  FormHelperText,
+  HStack,
+  Input,
+  Radio,
+  RadioGroup,
+  SimpleGrid,
+  Stack,
+  Text,
+} from '@chakra-ui/react';
+import { useCustomFoods, CustomFoodInput, DuplicateFoodError } from '../../hooks/useCustomFoods';
+import { useErrorHandling } from '../../hooks/useErrorHandling';
+import { SearchedFoodItem } from '../../services/foodSearch';
+import { customFoodSchema } from '../../utils/validation';
+import { FOOD_VISIBILITIES, FOOD_VISIBILITY_IDS, FoodVisibility } from '../../utils/customFoods';
+import { MICRONUTRIENTS } from '../../utils/nutrients';
+
+interface CustomFoodFormProps {
+  barcode?: string;
+  onCreated: (food: SearchedFoodItem) => void;
+  onCancel?: () => void;
+}
+
+// Macros as printed on a label, in the order they are listed there
+const MACRO_FIELDS = [
+  { name: 'calories_per_serving', label: 'Calories (kcal)' },
+  { name: 'protein_per_serving', label: 'Protein (g)' },
+  { name: 'carbs_per_serving', label: 'Carbs (g)' },
+  { name: 'fat_per_serving', label: 'Fat (g)' },
+] as const;
+
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const CustomFoodForm: React.FC<CustomFoodFormProps> = ({ barcode = '', onCreated, onCancel }) => {
+  const { createCustomFood, isSaving } = useCustomFoods();
+  const { showToast } = useErrorHandling();
+  const [showMicronutrients, setShowMicronutrients] = useState(false);
+  // The existing food the barcode belongs to, after saving was refused
+  const [duplicate, setDuplicate] = useState<SearchedFoodItem | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<CustomFoodInput>({
+    resolver: zodResolver(customFoodSchema),
+    defaultValues: {
+      name: '',
+      brand: '',
+      barcode,
+      serving_size: 100,
+      serving_unit: 'g',
+      calories_per_serving: 0,
+      protein_per_serving: 0,
+      carbs_per_serving: 0,
+      fat_per_serving: 0,
+      visibility: 'private',
+    },
+  });
+
+  const visibility = watch('visibility');
+
+  const onSubmit = async (data: CustomFoodInput) => {
+    setDuplicate(null);
+    try {
+      const food = await createCustomFood(data);
+      showToast({
+        title: 'Food added',
+        description: data.visibility === 'shared'
+          ? `${food.name} was added and will be checked by an admin.`
+          : `${food.name} was added to your foods.`,
+        status: 'success',
+      });
+      onCreated(food);
+    } catch (error) {
+      if (error instanceof DuplicateFoodError) setDuplicate(error.food);
+      // Other errors are already surfaced by useCustomFoods
+    }
+  };
+
+  return (
+    <Box as="form" onSubmit={handleSubmit(onSubmit)} textAlign="left" w="100%">
+      <Stack gap={4}>
+        <Text fontSize="sm" color="text.light">
+          Enter the values from the product&apos;s nutrition label to add it.
+        </Text>
+
+        <FormControl id="custom_food_name" isInvalid={!!errors.name}>
+          <FormLabel color="text.dark">Name</FormLabel>
+          <Input {...register('name')} placeholder="e.g., Oat drink, unsweetened" borderColor="brand.200" />
+          <FormErrorMessage>{errors.name?.message}</FormErrorMessage>
+        </FormControl>
+
+        <HStack gap={4} align="start">
+          <FormControl id="custom_food_brand" isInvalid={!!errors.brand}>
+            <FormLabel color="text.dark">Brand (optional)</FormLabel>
+            <Input {...register('brand')} borderColor="brand.200" />
+            <FormErrorMessage>{errors.brand?.message}</FormErrorMessage>
+          </FormControl>
+          <FormControl id="custom_food_barcode" isInvalid={!!errors.barcode}>
+            <FormLabel color="text.dark">Barcode</FormLabel>
+            <Input {...register('barcode')} inputMode="numeric" borderColor="brand.200" />
+            <FormErrorMessage>{errors.barcode?.message}</FormErrorMessage>
+          </FormControl>
+        </HStack>
+
+        <FormControl id="custom_food_serving" isInvalid={!!errors.serving_size || !!errors.serving_unit}>
+          <FormLabel color="text.dark">Values per</FormLabel>
+          <HStack>
+            <Input
+              type="number"
+              step="any"
+              {...register('serving_size', { valueAsNumber: true })}
+              borderColor="brand.200"
+            />
+            <Input {...register('serving_unit')} placeholder="g, ml, piece" maxW="140px" borderColor="brand.200" />
+          </HStack>
+          <FormHelperText>Labels usually list values per 100 g or 100 ml and per serving; either works.</FormHelperText>
+          <FormErrorMessage>{errors.serving_size?.message || errors.serving_unit?.message}</FormErrorMessage>
+        </FormControl>
+
+        <SimpleGrid columns={2} gap={3}>
+          {MACRO_FIELDS.map(({ name, label }) => (
+            <FormControl key={name} id={`custom_food_${name}`} isInvalid={!!errors[name]}>
+              <FormLabel color="text.dark">{label}</FormLabel>
+              <Input type="number" step="any" min={0} {...register(name, { valueAsNumber: true })} borderColor="brand.200" />
+              <FormErrorMessage>{errors[name]?.message}</FormErrorMessage>
+            </FormControl>
+          ))}
+        </SimpleGrid>
+
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          colorScheme="teal"
+          alignSelf="flex-start"
+          onClick={() => setShowMicronutrients(show => !show)}
+        >
+          {showMicronutrients ? 'Hide more nutrients' : 'More nutrients (optional)'}
+        </Button>
+
+        {showMicronutrients && (
+          <SimpleGrid columns={2} gap={3}>
+            {MICRONUTRIENTS.map(({ key, label, unit }) => (
+              <FormControl key={key} id={`custom_food_${key}`} isInvalid={!!errors[`${key}_per_serving`]}>
+                <FormLabel color="text.dark">{label} ({unit})</FormLabel>
+                <Input
+                  type="number"
+                  step="any"
+                  min={0}
+                  {...register(`${key}_per_serving`, { setValueAs: toOptionalNumber })}
+                  borderColor="brand.200"
+                />
+                <FormErrorMessage>{errors[`${key}_per_serving`]?.message}</FormErrorMessage>
+              </FormControl>
+            ))}
+          </SimpleGrid>
+        )}
+
+        <FormControl id="custom_food_visibility" isInvalid={!!errors.visibility}>
+          <FormLabel color="text.dark">Who can use this food?</FormLabel>
+          <RadioGroup
+            value={visibility}
+            onChange={value => setValue('visibility', value as FoodVisibility, { shouldValidate: true })}
+          >
+            <HStack gap={6}>
+              {FOOD_VISIBILITY_IDS.map(id => (
+                <Radio key={id} value={id} colorScheme="teal">{FOOD_VISIBILITIES[id].label}</Radio>
+              ))}
+            </HStack>
+          </RadioGroup>
+          <FormHelperText>{FOOD_VISIBILITIES[visibility].description}</FormHelperText>
+          <FormErrorMessage>{errors.visibility?.message}</FormErrorMessage>
+        </FormControl>
+
+        {duplicate && (
+          <Alert status="warning" borderRadius="md">
+            <AlertIcon />
+            <Stack gap={2} flex={1}>
+              <Text fontSize="sm">
+                {duplicate.name} already has this barcode.
+                {visibility === 'shared' && ` You can use it, or choose "${FOOD_VISIBILITIES.private.label}" to keep your own values.`}
+              </Text>
+              <Button size="sm" colorScheme="teal" variant="outline" alignSelf="flex-start" onClick={() => onCreated(duplicate)}>
+                Use {duplicate.name}
+              </Button>
+            </Stack>
+          </Alert>
+        )}
+
+        <HStack justify="flex-end">
+          {onCancel && (
+            <Button variant="ghost" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="submit"
+            isLoading={isSaving}
+            colorScheme="teal"
+            bg="brand.300"
+            color="white"
+            _hover={{ bg: 'brand.400' }}
+          >
+            Add Food
+          </Button>
+        </HStack>
+      </Stack>
+    </Box>
+  );
+};
+
+export default CustomFoodForm;
@@ -2,8 +2,13 @@
 // This component allows users to search for food items, either from a local database
 // (e.g., Supabase) or an external nutrition API. It displays search results
 // and allows users to select a food item to add to their meal log.
+// The user's own recipes are searched alongside and returned with their
+// per-serving nutrition, so a recipe is added like any other food. Results are
+// matched and ranked by services/foodSearch (typo-tolerant, synonyms, boosted by how
+// often the user logs a food), update as the user types and are fetched a page at
+// a time.
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   Box,
   Input,
@@ -11,62 +16,153 @@ import {
   VStack,
   Text,
   HStack,
+  Badge,
   Spinner,
   InputGroup,
   InputRightElement,
 } from '@chakra-ui/react';
 import { useErrorHandling } from '../../hooks/useErrorHandling';
-import { supabase } from '../../services/supabase';
+import { useAuth } from '../../hooks/useAuth';
+import { useRecipes } from '../../hooks/useRecipes';
+import { useDebounce } from '../../hooks/useDebounce';
+import {
+  SearchedFoodItem,
+  fetchLoggingFrequencies,
+  searchFoodItems,
+} from '../../services/foodSearch';
+import { getSearchTerms, rankFoods, scoreFoodMatch } from '../../utils/foodSearch';
+import { recipeToServingFood } from '../../utils/recipes';
+import { getFoodBadge } from '../../utils/customFoods';
 import { CloseIcon, SearchIcon } from '@chakra-ui/icons';
 
-// Define a basic type for a food item from search results
-export interface SearchedFoodItem {
-  id: string;
-  name: string;
-  calories_per_serving: number;
-  protein_per_serving: number;
-  carbs_per_serving: number;
-  fat_per_serving: number;
-  serving_size: number;
-  serving_unit: string;
-  barcode?: string;
-}
+export type { SearchedFoodItem };
+
+// Typing pauses this long before the search runs
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Shorter terms match too much to be useful while typing
+const MIN_SEARCH_LENGTH = 2;
 
 interface FoodSearchProps {
   onFoodSelect: (food: SearchedFoodItem) => void;
+  includeRecipes?: boolean;
 }
 
-const FoodSearch: React.FC<FoodSearchProps> = ({ onFoodSelect }) => {
+const FoodSearch: React.FC<FoodSearchProps> = ({ onFoodSelect, includeRecipes = true }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [searchResults, setSearchResults] = useState<SearchedFoodItem[]>([]);
+  // Foods fetched so far, a page at a time, and the number of matches on all pages
+  const [foodResults, setFoodResults] = useState<SearchedFoodItem[]>([]);
+  const [foodTotal, setFoodTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  // The user's recipes matching the search, best first
+  const [recipeResults, setRecipeResults] = useState<SearchedFoodItem[]>([]);
+  const [searchedTerm, setSearchedTerm] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [frequencies, setFrequencies] = useState<Record<string, number>>({});
+  const { user } = useAuth();
   const { handleError } = useErrorHandling();
+  const { recipes, fetchRecipes } = useRecipes();
+  const debouncedTerm = useDebounce(searchTerm, SEARCH_DEBOUNCE_MS);
+  // The term of the latest search, so slower earlier responses are ignored
+  const latestTermRef = useRef('');
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchLoggingFrequencies(user.id)
+      .then(setFrequencies)
+      .catch(error => {
+        // Results are still ranked, just without the boost for frequent recipes
+        console.error('Error fetching food logging frequencies:', error);
+      });
+  }, [user?.id]);
 
-  const handleSearch = useCallback(async () => {
-    if (!searchTerm.trim()) {
-      setSearchResults([]);
+  // Recipes are few, so all of them are loaded once and matched locally
+  useEffect(() => {
+    if (includeRecipes) fetchRecipes();
+  }, [fetchRecipes, includeRecipes]);
+
+  const runSearch = useCallback(async (term: string) => {
+    const trimmed = term.trim();
+    latestTermRef.current = trimmed;
+    if (!trimmed) {
+      setFoodResults([]);
+      setFoodTotal(0);
+      setRecipeResults([]);
+      setSearchedTerm('');
+      setIsLoading(false);
       return;
     }
 
     setIsLoading(true);
-    setSearchResults([]);
     try {
-      const { data, error } = await supabase
-        .from('food_items')
-        .select('id, name, calories_per_serving, protein_per_serving, carbs_per_serving, fat_per_serving, serving_size, serving_unit, barcode')
-        .ilike('name', `%${searchTerm}%`)
-        .limit(10);
-
-      if (error) throw error;
+      const foodPage = await searchFoodItems(trimmed);
+      if (latestTermRef.current !== trimmed) return;
 
-      setSearchResults(data || []);
+      const terms = getSearchTerms(trimmed);
+      setRecipeResults(rankFoods((includeRecipes ? recipes : [])
+        .map(recipe => ({
+          ...recipeToServingFood(recipe),
+          is_recipe: true,
+          match_score: scoreFoodMatch(terms, recipe.name, frequencies[recipe.name.toLowerCase()]),
+        }))
+        .filter(food => food.match_score > 0)));
+      setFoodResults(foodPage.foods);
+      setFoodTotal(foodPage.total);
+      setPage(0);
+      setSearchedTerm(trimmed);
     } catch (err) {
       handleError(err, 'Failed to search food items');
-      setSearchResults([]);
+      setFoodResults([]);
+      setFoodTotal(0);
+      setRecipeResults([]);
     } finally {
-      setIsLoading(false);
+      if (latestTermRef.current === trimmed) setIsLoading(false);
+    }
+  }, [frequencies, handleError, includeRecipes, recipes]);
+
+  const handleShowMore = useCallback(async () => {
+    const term = searchedTerm;
+    setIsLoadingMore(true);
+    try {
+      const { foods } = await searchFoodItems(term, page + 1);
+      if (latestTermRef.current !== term) return;
+
+      setFoodResults(results => [
+        ...results,
+        ...foods.filter(food => !results.some(result => result.id === food.id)),
+      ]);
+      setPage(page + 1);
+    } catch (err) {
+      handleError(err, 'Failed to load more food items');
+    } finally {
+      setIsLoadingMore(false);
     }
-  }, [searchTerm, handleError]);
+  }, [handleError, page, searchedTerm]);
+
+  // A recipe is shown once the foods fetched so far reach its score, so results
+  // stay in order as more pages are loaded
+  const hasMoreFoods = foodResults.length < foodTotal;
+  const lowestFoodScore = foodResults[foodResults.length - 1]?.match_score ?? 0;
+  const searchResults = rankFoods([
+    ...recipeResults.filter(recipe => !hasMoreFoods || (recipe.match_score || 0) >= lowestFoodScore),
+    ...foodResults,
+  ]);
+  const totalResults = foodTotal + recipeResults.length;
+
+  // Search as the user types, once the term is long enough
+  useEffect(() => {
+    if (debouncedTerm.trim().length >= MIN_SEARCH_LENGTH) {
+      runSearch(debouncedTerm);
+    } else if (!debouncedTerm.trim()) {
+      runSearch('');
+    }
+  }, [debouncedTerm, runSearch]);
+
+  const handleSearch = useCallback(() => {
+    runSearch(searchTerm);
+  }, [runSearch, searchTerm]);
 
   const handleKeyPress = useCallback((event: React.KeyboardEvent) => {
     if (event.key === 'Enter') {
@@ -76,7 +172,7 @@ const FoodSearch: React.FC<FoodSearchProps> = ({ onFoodSelect }) => {
 
   const handleClearSearch = () => {
     setSearchTerm('');
-    setSearchResults([]);
+    runSearch('');
   };
 
   return (
@@ -156,32 +252,44 @@ const FoodSearch: React.FC<FoodSearchProps> = ({ onFoodSelect }) => {
           <Text fontSize="md" fontWeight="semibold" color="text.dark">
             Search Results:
           </Text>
-          {searchResults.map((food) => (
-            <HStack
-              key={food.id}
-              p={3}
-              borderRadius="md"
-              bg="brand.50"
-              _hover={{ bg: 'brand.100', cursor: 'pointer' }}
-              onClick={() => onFoodSelect(food)}
-              justifyContent="space-between"
-            >
-              <Box>
-                <Text fontWeight="bold" color="text.dark">{food.name}</Text>
-                <Text fontSize="sm" color="text.light">
-                  {food.calories_per_serving} kcal | {food.protein_per_serving}g P | {food.carbs_per_serving}g C | {food.fat_per_serving}g F
-                  {food.serving_unit && ` (per ${food.serving_size} ${food.serving_unit})`}
-                </Text>
-              </Box>
-              <Button size="sm" variant="outline" colorScheme="teal" onClick={() => onFoodSelect(food)}>
-                Add
-              </Button>
-            </HStack>
-          ))}
+          {searchResults.map((food) => {
+            const badge = getFoodBadge(food);
+            return (
+              <HStack
+                key={food.id}
+                p={3}
+                borderRadius="md"
+                bg="brand.50"
+                _hover={{ bg: 'brand.100', cursor: 'pointer' }}
+                onClick={() => onFoodSelect(food)}
+                justifyContent="space-between"
+              >
+                <Box>
+                  <HStack>
+                    <Text fontWeight="bold" color="text.dark">{food.name}</Text>
+                    {food.is_recipe && <Badge colorScheme="purple">Recipe</Badge>}
+                    {badge && <Badge colorScheme={badge.colorScheme}>{badge.label}</Badge>}
+                  </HStack>
+                  <Text fontSize="sm" color="text.light">
+                    {food.calories_per_serving} kcal | {food.protein_per_serving}g P | {food.carbs_per_serving}g C | {food.fat_per_serving}g F
+                    {food.serving_unit && ` (per ${food.serving_size} ${food.serving_unit})`}
+                  </Text>
+                </Box>
+                <Button size="sm" variant="outline" colorScheme="teal" onClick={() => onFoodSelect(food)}>
+                  Add
+                </Button>
+              </HStack>
+            );
+          })}
+          {totalResults > searchResults.length && (
+            <Button size="sm" variant="ghost" colorScheme="teal" onClick={handleShowMore} isLoading={isLoadingMore}>
+              Show more ({searchResults.length} of {totalResults})
+            </Button>
+          )}
         </VStack>
       )}
 
-      {!isLoading && searchResults.length === 0 && searchTerm.trim() && (
+      {!isLoading && searchResults.length === 0 && searchedTerm && (
         <Text mt={4} color="text.light" textAlign="center">
           No food items found. Try a different search term.
         </Text>
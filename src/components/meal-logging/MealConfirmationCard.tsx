@@ -0,0 +1,81 @@
+// src/components/meal-logging/MealConfirmationCard.tsx
+// This component shows a meal parsed from a chat message so the user can check it
+// before it is logged: meal type, date and time, each food with its quantity, and
+// the meal total. Phrases no food was found for are listed so they can be added in
+// the meal logger, which "Edit" opens pre-filled with the parsed meal.
+
+import React from 'react';
+import {
+  Box,
+  Button,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+} from '@chakra-ui/react';
+import { FaCheck, FaEdit } from 'react-icons/fa';
+import { format, parseISO } from 'date-fns';
+import { MealEntryResponse } from '../../hooks/useMealParser';
+import { calculateMealTotals, roundTotals } from '../../utils/nutrition';
+import { formatUnit } from '../../utils/units';
+
+interface MealConfirmationCardProps {
+  entry: MealEntryResponse;
+  isConfirmed?: boolean;
+  isLogging?: boolean;
+  onConfirm: () => void;
+  onEdit: () => void;
+}
+
+const MealConfirmationCard: React.FC<MealConfirmationCardProps> = ({ entry, isConfirmed, isLogging, onConfirm, onEdit }) => {
+  const { meal, unmatched } = entry;
+  const totals = roundTotals(calculateMealTotals(meal.food_items));
+
+  return (
+    <Box mt={2} p={3} bg="white" borderWidth={1} borderRadius="md" borderColor="brand.200">
+      <HStack justify="space-between" mb={2}>
+        <Badge colorScheme="teal" textTransform="capitalize">{meal.meal_type}</Badge>
+        <Text fontSize="xs" color="text.light">
+          {format(parseISO(meal.meal_date), 'MMM d')} {meal.meal_time}
+        </Text>
+      </HStack>
+      <VStack align="stretch" spacing={1}>
+        {meal.food_items.map((item, index) => (
+          <HStack key={index} justify="space-between">
+            <Text fontSize="sm" color="text.dark">{item.name}</Text>
+            <Text fontSize="sm" color="text.light">{item.quantity} {formatUnit(item.unit)}</Text>
+          </HStack>
+        ))}
+      </VStack>
+      <Text fontSize="sm" fontWeight="semibold" color="text.dark" mt={2}>
+        {totals.calories} kcal | {totals.protein}g P | {totals.carbs}g C | {totals.fat}g F
+      </Text>
+      {unmatched.length > 0 && (
+        <Text fontSize="xs" color="orange.500" mt={1}>
+          Not found: {unmatched.join(', ')}
+        </Text>
+      )}
+      {isConfirmed ? (
+        <Badge colorScheme="green" mt={2}>Logged</Badge>
+      ) : (
+        <HStack mt={3} spacing={2}>
+          <Button
+            size="xs"
+            colorScheme="teal"
+            leftIcon={<FaCheck />}
+            onClick={onConfirm}
+            isLoading={isLogging}
+            loadingText="Logging..."
+          >
+            Log Meal
+          </Button>
+          <Button size="xs" variant="outline" colorScheme="teal" leftIcon={<FaEdit />} onClick={onEdit} isDisabled={isLogging}>
+            Edit
+          </Button>
+        </HStack>
+      )}
+    </Box>
+  );
+};
+
+export default MealConfirmationCard;
@@ -0,0 +1,219 @@
+// src/components/meal-logging/MealEditor.tsx
+// This component renders a modal for editing a previously logged meal.
+// Users can move the meal to another meal type, date or time, change food
+// quantities, remove food items and update notes. Changes are saved through
+// the useMealLogging hook, which also notifies the n8n meal logging workflow.
+
+import React, { useEffect } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Box,
+  Button,
+  Input,
+  Stack,
+  Text,
+  IconButton,
+  HStack,
+  VStack,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  Select,
+  useTheme,
+} from '@chakra-ui/react';
+import { FaTrash } from 'react-icons/fa';
+import { mealLogFormSchema } from '../../utils/validation';
+import { useMealLogging, LoggedMeal } from '../../hooks/useMealLogging';
+import { useErrorHandling } from '../../hooks/useErrorHandling';
+import { MealLogData } from '../../services/n8nWebhooks';
+import { toMealLogData } from '../../services/meals';
+import { calculateMealTotals, roundTotals } from '../../utils/nutrition';
+import QuantityEditor from './QuantityEditor';
+
+type MealEditFormInputs = Omit<MealLogData, 'user_id' | 'created_at'>;
+
+interface MealEditorProps {
+  meal: LoggedMeal | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const toFormValues = (meal: LoggedMeal): MealEditFormInputs => {
+  const { meal_type, meal_date, meal_time, notes, food_items } = toMealLogData(meal);
+  return { meal_type, meal_date, meal_time, notes: notes || '', food_items };
+};
+
+const MealEditor: React.FC<MealEditorProps> = ({ meal, isOpen, onClose, onSaved }) => {
+  const { isLogging, updateMeal } = useMealLogging();
+  const { showToast } = useErrorHandling();
+  const theme = useTheme();
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors, isDirty },
+    reset,
+    setValue,
+    watch,
+  } = useForm<MealEditFormInputs>({
+    resolver: zodResolver(mealLogFormSchema),
+    mode: 'onChange',
+  });
+
+  const { fields, remove } = useFieldArray({
+    control,
+    name: 'food_items',
+  });
+
+  useEffect(() => {
+    if (meal) {
+      reset(toFormValues(meal));
+    }
+  }, [meal, reset]);
+
+  const foodItems = watch('food_items') || [];
+  const totals = roundTotals(calculateMealTotals(foodItems));
+
+  const onSubmit = async (data: MealEditFormInputs) => {
+    if (!meal) return;
+
+    try {
+      await updateMeal(meal.id, { ...data, created_at: meal.created_at });
+      showToast({
+        title: 'Meal updated',
+        description: `Your ${data.meal_type} has been updated.`,
+        status: 'success',
+      });
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      // Errors are already surfaced by useMealLogging
+      console.error('Error updating meal:', error);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl">
+      <ModalOverlay />
+      <ModalContent>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <ModalHeader>Edit Meal</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <Stack gap={4}>
+              <HStack gap={4} flexWrap="wrap">
+                <FormControl id="edit_meal_type" isInvalid={!!errors.meal_type} flex="1">
+                  <FormLabel color="text.dark">Meal Type</FormLabel>
+                  <Select
+                    {...register('meal_type')}
+                    borderColor="brand.200"
+                    _focus={{ borderColor: 'brand.300', boxShadow: `0 0 0 1px ${theme.colors.brand['300']}` }}
+                  >
+                    <option value="breakfast">Breakfast</option>
+                    <option value="lunch">Lunch</option>
+                    <option value="dinner">Dinner</option>
+                    <option value="snack">Snack</option>
+                    <option value="other">Other</option>
+                  </Select>
+                  <FormErrorMessage>{errors.meal_type?.message}</FormErrorMessage>
+                </FormControl>
+
+                <FormControl id="edit_meal_date" isInvalid={!!errors.meal_date} flex="1">
+                  <FormLabel color="text.dark">Date</FormLabel>
+                  <Input type="date" {...register('meal_date')} borderColor="brand.200" />
+                  <FormErrorMessage>{errors.meal_date?.message}</FormErrorMessage>
+                </FormControl>
+
+                <FormControl id="edit_meal_time" isInvalid={!!errors.meal_time} flex="1">
+                  <FormLabel color="text.dark">Time</FormLabel>
+                  <Input type="time" {...register('meal_time')} borderColor="brand.200" />
+                  <FormErrorMessage>{errors.meal_time?.message}</FormErrorMessage>
+                </FormControl>
+              </HStack>
+
+              <VStack gap={3} align="stretch">
+                {fields.length === 0 && (
+                  <Text textAlign="center" color="text.light">
+                    A meal needs at least one food item. Delete the meal instead if you did not eat it.
+                  </Text>
+                )}
+                {fields.map((item, index) => (
+                  <Box key={item.id} p={3} borderWidth={1} borderRadius="md" borderColor="brand.200">
+                    <HStack justify="space-between">
+                      <VStack align="start" spacing={1}>
+                        <Text fontWeight="bold">{item.name}</Text>
+                        <Text fontSize="sm" color="text.light">
+                          {item.calories} kcal | {item.protein}g P | {item.carbs}g C | {item.fat}g F
+                          {item.serving_size && item.serving_unit && ` per ${item.serving_size} ${item.serving_unit}`}
+                        </Text>
+                      </VStack>
+                      <HStack>
+                        <QuantityEditor
+                          item={foodItems[index] ?? item}
+                          onChange={(quantity, unit) => {
+                            setValue(`food_items.${index}.quantity`, quantity, {
+                              shouldDirty: true,
+                              shouldValidate: true,
+                            });
+                            setValue(`food_items.${index}.unit`, unit, { shouldDirty: true });
+                          }}
+                        />
+                        <IconButton
+                          aria-label="Remove food item"
+                          icon={<FaTrash />}
+                          size="sm"
+                          colorScheme="red"
+                          variant="ghost"
+                          onClick={() => remove(index)}
+                        />
+                      </HStack>
+                    </HStack>
+                  </Box>
+                ))}
+                {errors.food_items?.message && (
+                  <Text color="red.500" fontSize="sm">{errors.food_items.message}</Text>
+                )}
+              </VStack>
+
+              <Text fontSize="sm" color="text.light">
+                Meal total: {totals.calories} kcal | {totals.protein}g P | {totals.carbs}g C | {totals.fat}g F
+              </Text>
+
+              <FormControl id="edit_notes" isInvalid={!!errors.notes}>
+                <FormLabel color="text.dark">Notes</FormLabel>
+                <Input {...register('notes')} placeholder="Add any notes about your meal..." borderColor="brand.200" />
+                <FormErrorMessage>{errors.notes?.message}</FormErrorMessage>
+              </FormControl>
+            </Stack>
+          </ModalBody>
+          <ModalFooter gap={3}>
+            <Button variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              colorScheme="teal"
+              isLoading={isLogging}
+              loadingText="Saving..."
+              isDisabled={!isDirty || fields.length === 0}
+            >
+              Save Changes
+            </Button>
+          </ModalFooter>
+        </form>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default MealEditor;
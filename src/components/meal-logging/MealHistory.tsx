@@ -0,0 +1,314 @@
+// src/components/meal-logging/MealHistory.tsx
+// This component lists the meals logged in a chosen date range grouped by day
+// and lets users edit, delete or copy them onto another date. Editing opens the MealEditor modal; deleting asks for
+// confirmation first. Both actions keep meal_logs and meal_food_items in sync
+// and notify the n8n meal logging workflow through the useMealLogging hook.
+// Any logged meal can also be stored as a saved meal for quick relogging.
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Stack,
+  Heading,
+  Text,
+  HStack,
+  VStack,
+  Badge,
+  Divider,
+  IconButton,
+  Input,
+  FormControl,
+  FormLabel,
+  useDisclosure,
+  AlertDialog,
+  AlertDialogOverlay,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogBody,
+  AlertDialogFooter,
+} from '@chakra-ui/react';
+import { FaEdit, FaTrash, FaRegBookmark, FaCopy } from 'react-icons/fa';
+import { format, parseISO, subDays } from 'date-fns';
+import MealEditor from './MealEditor';
+import SaveMealDialog from './SaveMealDialog';
+import CopyMealDialog from './CopyMealDialog';
+import PendingMeals from './PendingMeals';
+import LoadingSpinner from '../shared/LoadingSpinner';
+import { useMealLogging, LoggedMeal } from '../../hooks/useMealLogging';
+import { useErrorHandling } from '../../hooks/useErrorHandling';
+import { calculateMealTotals, roundTotals } from '../../utils/nutrition';
+import { toMealLogData } from '../../services/meals';
+
+const groupMealsByDate = (meals: LoggedMeal[]) =>
+  meals.reduce<Record<string, LoggedMeal[]>>((groups, meal) => {
+    (groups[meal.meal_date] = groups[meal.meal_date] || []).push(meal);
+    return groups;
+  }, {});
+
+// What the copy dialog is copying: a single meal or all meals of a day
+type CopySource = { meal: LoggedMeal } | { date: string };
+
+const MealHistory: React.FC = () => {
+  const { fetchMealLogs, deleteMeal, copyMeal, copyDay, isLogging } = useMealLogging();
+  const { showToast } = useErrorHandling();
+  const [meals, setMeals] = useState<LoggedMeal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedMeal, setSelectedMeal] = useState<LoggedMeal | null>(null);
+  const [mealToDelete, setMealToDelete] = useState<LoggedMeal | null>(null);
+  const [mealToSave, setMealToSave] = useState<LoggedMeal | null>(null);
+  const [copySource, setCopySource] = useState<CopySource | null>(null);
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 6), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const { isOpen: isEditorOpen, onOpen: onEditorOpen, onClose: onEditorClose } = useDisclosure();
+  const cancelDeleteRef = useRef<HTMLButtonElement>(null);
+
+  const loadMeals = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setMeals(await fetchMealLogs(startDate, endDate));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchMealLogs, startDate, endDate]);
+
+  useEffect(() => {
+    loadMeals();
+  }, [loadMeals]);
+
+  const handleEdit = (meal: LoggedMeal) => {
+    setSelectedMeal(meal);
+    onEditorOpen();
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!mealToDelete) return;
+
+    try {
+      await deleteMeal(mealToDelete);
+      showToast({
+        title: 'Meal deleted',
+        description: `Your ${mealToDelete.meal_type} has been removed.`,
+        status: 'success',
+      });
+      setMeals(prev => prev.filter(meal => meal.id !== mealToDelete.id));
+    } catch (error) {
+      // Errors are already surfaced by useMealLogging
+      console.error('Error deleting meal:', error);
+    } finally {
+      setMealToDelete(null);
+    }
+  };
+
+  const handleCopy = async (mealDate: string, mealType?: string) => {
+    if (!copySource) return;
+
+    try {
+      let copied = 1;
+      if ('meal' in copySource) {
+        await copyMeal(copySource.meal, { meal_date: mealDate, meal_type: mealType });
+      } else {
+        copied = await copyDay(copySource.date, mealDate, mealType);
+      }
+      showToast({
+        title: 'Meals copied',
+        description: `Copied ${copied} ${copied === 1 ? 'meal' : 'meals'} to ${format(parseISO(mealDate), 'MMM d, yyyy')}.`,
+        status: 'success',
+      });
+      setCopySource(null);
+      loadMeals();
+    } catch (error) {
+      // Errors are already surfaced by useMealLogging
+      console.error('Error copying meals:', error);
+    }
+  };
+
+  const groupedMeals = groupMealsByDate(meals);
+
+  return (
+    <Box
+      p={8}
+      maxWidth="800px"
+      borderWidth={1}
+      borderRadius="lg"
+      boxShadow="lg"
+      bg="whiteAlpha.700"
+      borderColor="brand.200"
+      mx="auto"
+      my={8}
+    >
+      <Stack gap={6}>
+        <Heading as="h2" size="xl" textAlign="center" color="text.dark">
+          Meal History
+        </Heading>
+        <Text fontSize="md" color="text.light" textAlign="center">
+          Review, correct, copy or remove the meals you have logged.
+        </Text>
+
+        <PendingMeals />
+
+        <HStack gap={4}>
+          <FormControl id="history_start_date">
+            <FormLabel color="text.dark">From</FormLabel>
+            <Input
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => e.target.value && setStartDate(e.target.value)}
+              borderColor="brand.200"
+            />
+          </FormControl>
+          <FormControl id="history_end_date">
+            <FormLabel color="text.dark">To</FormLabel>
+            <Input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => e.target.value && setEndDate(e.target.value)}
+              borderColor="brand.200"
+            />
+          </FormControl>
+        </HStack>
+
+        {isLoading ? (
+          <LoadingSpinner message="Loading your meals..." />
+        ) : meals.length === 0 ? (
+          <Text textAlign="center" color="text.light">No meals logged in this period.</Text>
+        ) : (
+          Object.entries(groupedMeals).map(([date, dayMeals]) => (
+            <VStack key={date} align="stretch" gap={3}>
+              <HStack justify="space-between">
+                <Heading as="h3" size="md" color="text.dark">
+                  {format(parseISO(date), 'EEEE, MMM d, yyyy')}
+                </Heading>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  colorScheme="teal"
+                  leftIcon={<FaCopy />}
+                  onClick={() => setCopySource({ date })}
+                >
+                  Copy Day
+                </Button>
+              </HStack>
+              <Divider borderColor="brand.100" />
+              {dayMeals.map(meal => {
+                const totals = roundTotals(calculateMealTotals(meal.meal_food_items));
+                return (
+                  <Box key={meal.id} p={3} borderWidth={1} borderRadius="md" borderColor="brand.200">
+                    <HStack justify="space-between" align="start">
+                      <VStack align="start" spacing={1}>
+                        <HStack>
+                          <Badge colorScheme="teal" textTransform="capitalize">{meal.meal_type}</Badge>
+                          <Text fontSize="sm" color="text.light">{meal.meal_time}</Text>
+                        </HStack>
+                        <Text fontSize="sm" color="text.dark">
+                          {meal.meal_food_items.map(item => `${item.name} (${item.quantity} ${item.unit})`).join(', ')}
+                        </Text>
+                        <Text fontSize="sm" color="text.light">
+                          {totals.calories} kcal | {totals.protein}g P | {totals.carbs}g C | {totals.fat}g F
+                        </Text>
+                        {meal.notes && (
+                          <Text fontSize="xs" color="text.light" fontStyle="italic">{meal.notes}</Text>
+                        )}
+                      </VStack>
+                      <HStack>
+                        <IconButton
+                          aria-label="Copy meal"
+                          icon={<FaCopy />}
+                          size="sm"
+                          colorScheme="teal"
+                          variant="ghost"
+                          onClick={() => setCopySource({ meal })}
+                        />
+                        <IconButton
+                          aria-label="Save as meal"
+                          icon={<FaRegBookmark />}
+                          size="sm"
+                          colorScheme="teal"
+                          variant="ghost"
+                          onClick={() => setMealToSave(meal)}
+                        />
+                        <IconButton
+                          aria-label="Edit meal"
+                          icon={<FaEdit />}
+                          size="sm"
+                          colorScheme="teal"
+                          variant="ghost"
+                          onClick={() => handleEdit(meal)}
+                        />
+                        <IconButton
+                          aria-label="Delete meal"
+                          icon={<FaTrash />}
+                          size="sm"
+                          colorScheme="red"
+                          variant="ghost"
+                          onClick={() => setMealToDelete(meal)}
+                        />
+                      </HStack>
+                    </HStack>
+                  </Box>
+                );
+              })}
+            </VStack>
+          ))
+        )}
+      </Stack>
+
+      <MealEditor
+        meal={selectedMeal}
+        isOpen={isEditorOpen}
+        onClose={onEditorClose}
+        onSaved={loadMeals}
+      />
+
+      <SaveMealDialog
+        isOpen={!!mealToSave}
+        onClose={() => setMealToSave(null)}
+        mealType={mealToSave?.meal_type || 'other'}
+        foodItems={mealToSave ? toMealLogData(mealToSave).food_items : []}
+        defaultName={mealToSave ? `${mealToSave.meal_type.charAt(0).toUpperCase()}${mealToSave.meal_type.slice(1)} of ${format(parseISO(mealToSave.meal_date), 'MMM d')}` : ''}
+      />
+
+      <CopyMealDialog
+        isOpen={!!copySource}
+        onClose={() => setCopySource(null)}
+        title={copySource && 'date' in copySource ? 'Copy Day' : 'Copy Meal'}
+        description={
+          copySource && 'date' in copySource
+            ? `Log all meals of ${format(parseISO(copySource.date), 'EEEE, MMM d')} again on another date.`
+            : `Log this ${copySource && 'meal' in copySource ? copySource.meal.meal_type : 'meal'} again on another date.`
+        }
+        isLoading={isLogging}
+        onConfirm={handleCopy}
+      />
+
+      <AlertDialog
+        isOpen={!!mealToDelete}
+        leastDestructiveRef={cancelDeleteRef}
+        onClose={() => setMealToDelete(null)}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              Delete Meal
+            </AlertDialogHeader>
+            <AlertDialogBody>
+              Are you sure you want to delete this {mealToDelete?.meal_type}? This cannot be undone.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={cancelDeleteRef} onClick={() => setMealToDelete(null)}>
+                Cancel
+              </Button>
+              <Button colorScheme="red" onClick={handleConfirmDelete} ml={3} isLoading={isLogging}>
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+    </Box>
+  );
+};
+
+export default MealHistory;
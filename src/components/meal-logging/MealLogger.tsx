@@ -1,10 +1,10 @@
 // src/components/meal-logging/MealLogger.tsx
 // This is the main component for logging meals. It integrates FoodSearch,
-// BarcodeScanner, and QuickAdd components, allowing users to add food items
+// BarcodeScanner, QuickAdd and saved meals, allowing users to add food items
 // through various methods and then submit the complete meal log.
 // It uses React Hook Form with Zod for overall meal validation.
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useRef } from 'react';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -20,11 +20,6 @@ import {
   VStack,
   Icon,
   useDisclosure,
-  NumberInput,
-  NumberInputField,
-  NumberInputStepper,
-  NumberIncrementStepper,
-  NumberDecrementStepper,
   FormControl,
   FormLabel,
   FormErrorMessage,
@@ -39,21 +34,31 @@ import {
   useTheme,
   useToast,
 } from '@chakra-ui/react';
-import { FaBarcode, FaSearch, FaTrash, FaPlus } from 'react-icons/fa';
+import { FaBarcode, FaSearch, FaTrash, FaPlus, FaBookmark, FaRegBookmark, FaRedo } from 'react-icons/fa';
 import FoodSearch, { SearchedFoodItem } from './FoodSearch';
 import BarcodeScanner, { ScannedFoodItem } from './BarcodeScanner';
 import QuickAdd, { QuickAddFoodInputs } from './QuickAdd';
-import { mealLogSchema } from '../../utils/validation';
+import { mealLogFormSchema } from '../../utils/validation';
 import { useMealLogging } from '../../hooks/useMealLogging';
 import { useErrorHandling } from '../../hooks/useErrorHandling';
-import { format } from 'date-fns';
+import { format, subDays } from 'date-fns';
 import { useAuth } from '../../hooks/useAuth';
 import { MealLogData } from '../../services/n8nWebhooks';
+import QuantityEditor from './QuantityEditor';
+import SavedMeals from './SavedMeals';
+import SaveMealDialog from './SaveMealDialog';
+import PendingMeals from './PendingMeals';
+import { SavedMeal } from '../../hooks/useSavedMeals';
+import { useMealParser } from '../../hooks/useMealParser';
+import { takeMealDraft } from '../../services/mealDraft';
+import { calculateMealTotals, convertQuantity, roundTotals, toServingItem } from '../../utils/nutrition';
+import { SERVING_UNIT } from '../../utils/units';
+import { MicronutrientValues, pickMicronutrients } from '../../utils/nutrients';
 
 // Define the type for the meal log form inputs
 type MealLogFormInputs = Omit<MealLogData, 'user_id' | 'created_at'>;
 
-interface FoodItemData {
+interface FoodItemData extends MicronutrientValues {
   id?: string;
   name: string;
   calories: number;
@@ -62,19 +67,28 @@ interface FoodItemData {
   fat: number;
   quantity: number;
   unit: string;
+  serving_size?: number;
+  serving_unit?: string;
+  density_g_per_ml?: number;
+  piece_weight_g?: number;
   barcode?: string;
 }
 
 const MealLogger: React.FC = () => {
-  const { isLogging, submitMealLog } = useMealLogging();
+  const { isLogging, submitMealLog, copyDay } = useMealLogging();
   const { handleError } = useErrorHandling();
+  const { confirmParsedMeal } = useMealParser();
   const { user } = useAuth();
+  // The chat message the current draft was parsed from, if any
+  const chatInteractionIdRef = useRef<string | undefined>();
   const theme = useTheme();
   const toast = useToast();
 
   const { isOpen: isFoodSearchOpen, onOpen: onFoodSearchOpen, onClose: onFoodSearchClose } = useDisclosure();
   const { isOpen: isBarcodeScannerOpen, onOpen: onBarcodeScannerOpen, onClose: onBarcodeScannerClose } = useDisclosure();
   const { isOpen: isQuickAddOpen, onOpen: onQuickAddOpen, onClose: onQuickAddClose } = useDisclosure();
+  const { isOpen: isSavedMealsOpen, onOpen: onSavedMealsOpen, onClose: onSavedMealsClose } = useDisclosure();
+  const { isOpen: isSaveMealOpen, onOpen: onSaveMealOpen, onClose: onSaveMealClose } = useDisclosure();
 
   const {
     register,
@@ -84,8 +98,9 @@ const MealLogger: React.FC = () => {
     reset,
     setValue,
     getValues,
+    watch,
   } = useForm<MealLogFormInputs>({
-    resolver: zodResolver(mealLogSchema),
+    resolver: zodResolver(mealLogFormSchema),
     defaultValues: {
       meal_type: 'lunch',
       meal_date: format(new Date(), 'yyyy-MM-dd'),
@@ -101,25 +116,41 @@ const MealLogger: React.FC = () => {
     name: 'food_items',
   });
 
+  useEffect(() => {
+    const draft = takeMealDraft();
+    if (!draft) return;
+
+    chatInteractionIdRef.current = draft.chat_interaction_id;
+    reset({
+      meal_type: draft.meal_type as MealLogFormInputs['meal_type'],
+      meal_date: draft.meal_date,
+      meal_time: draft.meal_time,
+      food_items: draft.food_items,
+      notes: draft.notes || '',
+    });
+  }, [reset]);
+
+  const foodItems = watch('food_items') || [];
+  const totals = roundTotals(calculateMealTotals(foodItems));
+
   const handleAddFoodItem = useCallback((food: SearchedFoodItem | ScannedFoodItem | QuickAddFoodInputs) => {
     console.log('Adding food item:', food);
+    // Nutrition values are per reference serving, so a new item starts at one serving
     const foodWithQuantity: FoodItemData = {
       id: 'id' in food ? food.id : undefined,
-      name: food.name,
-      calories: food.calories_per_serving,
-      protein: food.protein_per_serving,
-      carbs: food.carbs_per_serving,
-      fat: food.fat_per_serving,
-      quantity: 'serving_size' in food ? food.serving_size : 1,
-      unit: food.serving_unit,
-      barcode: food.barcode
+      ...toServingItem(food),
     };
     
-    const existingIndex = fields.findIndex(item => item.name === food.name && item.unit === food.serving_unit);
+    const existingIndex = fields.findIndex(item => item.name === food.name && item.serving_unit === food.serving_unit);
 
     if (existingIndex > -1) {
-      const currentQuantity = getValues(`food_items.${existingIndex}.quantity`) || 0;
-      setValue(`food_items.${existingIndex}.quantity`, currentQuantity + foodWithQuantity.quantity);
+      // Add one serving to the existing item, in whatever unit it is currently logged
+      const existing = getValues(`food_items.${existingIndex}`);
+      const servings = convertQuantity(existing, SERVING_UNIT) + 1;
+      setValue(
+        `food_items.${existingIndex}.quantity`,
+        convertQuantity({ ...existing, quantity: servings, unit: SERVING_UNIT }, existing.unit)
+      );
     } else {
       append(foodWithQuantity);
     }
@@ -130,6 +161,28 @@ const MealLogger: React.FC = () => {
     onQuickAddClose();
   }, [append, fields, getValues, setValue, onFoodSearchClose, onBarcodeScannerClose, onQuickAddClose]);
 
+  const handleAddSavedMeal = useCallback((savedMeal: SavedMeal) => {
+    append(savedMeal.food_items);
+    setValue('meal_type', savedMeal.meal_type as MealLogFormInputs['meal_type'], { shouldValidate: true });
+    onSavedMealsClose();
+  }, [append, setValue, onSavedMealsClose]);
+
+  const handleLogYesterdayAgain = async () => {
+    try {
+      const today = new Date();
+      const copied = await copyDay(format(subDays(today, 1), 'yyyy-MM-dd'), format(today, 'yyyy-MM-dd'));
+      toast({
+        title: 'Meals logged successfully',
+        description: `Logged ${copied} of yesterday's ${copied === 1 ? 'meal' : 'meals'} again for today`,
+        status: 'success',
+        duration: 5000,
+        isClosable: true,
+      });
+    } catch (error) {
+      handleError(error, 'Logging yesterday again');
+    }
+  };
+
   const onSubmit = async (data: MealLogFormInputs) => {
     try {
       if (!user?.id) {
@@ -141,14 +194,6 @@ const MealLogger: React.FC = () => {
         throw new Error('Please add at least one food item');
       }
 
-      // Calculate total nutrition values
-      const totalNutrition = data.food_items.reduce((acc, item) => ({
-        calories: acc.calories + (item.calories * item.quantity),
-        protein: acc.protein + (item.protein * item.quantity),
-        carbs: acc.carbs + (item.carbs * item.quantity),
-        fat: acc.fat + (item.fat * item.quantity)
-      }), { calories: 0, protein: 0, carbs: 0, fat: 0 });
-
       const mealData = {
         user_id: user.id,
         meal_type: data.meal_type,
@@ -162,16 +207,18 @@ const MealLogger: React.FC = () => {
           fat: item.fat,
           quantity: item.quantity,
           unit: item.unit,
+          serving_size: item.serving_size,
+          serving_unit: item.serving_unit,
+          density_g_per_ml: item.density_g_per_ml,
+          piece_weight_g: item.piece_weight_g,
           barcode: item.barcode,
+          ...pickMicronutrients(item),
           regional_variant: 'general',
           preparation: 'prepared'
         })),
         notes: data.notes,
+        // Meal totals are calculated and stored by the /api/meals route
         created_at: new Date().toISOString(),
-        total_calories: totalNutrition.calories,
-        total_protein: totalNutrition.protein,
-        total_carbs: totalNutrition.carbs,
-        total_fat: totalNutrition.fat,
         source: 'manual'
       };
 
@@ -179,8 +226,22 @@ const MealLogger: React.FC = () => {
       const response = await submitMealLog(mealData);
       console.log('Meal log response:', response);
 
+      if (chatInteractionIdRef.current) {
+        const interactionId = chatInteractionIdRef.current;
+        chatInteractionIdRef.current = undefined;
+        await confirmParsedMeal(interactionId).catch((confirmError) => {
+          console.error('Error confirming parsed meal:', confirmError);
+        });
+      }
+
       // Show success message
-      toast({
+      toast(response?.queued ? {
+        title: 'Meal saved offline',
+        description: `Your ${data.meal_type} will be logged automatically when you are back online`,
+        status: 'info',
+        duration: 5000,
+        isClosable: true,
+      } : {
         title: 'Meal logged successfully',
         description: `Added ${data.food_items.length} food items to your ${data.meal_type}`,
         status: 'success',
@@ -230,6 +291,21 @@ const MealLogger: React.FC = () => {
         <Text fontSize="md" color="text.light" textAlign="center" mb={4}>
           Record what you've eaten to track your nutritional intake.
         </Text>
+        <Button
+          type="button"
+          onClick={handleLogYesterdayAgain}
+          isLoading={isLogging}
+          loadingText="Logging..."
+          variant="ghost"
+          colorScheme="teal"
+          size="sm"
+          alignSelf="center"
+          leftIcon={<FaRedo />}
+        >
+          Log Yesterday Again
+        </Button>
+
+        <PendingMeals />
 
         <form onSubmit={handleSubmit(onSubmit)}>
           <Stack gap={4}>
@@ -320,6 +396,18 @@ const MealLogger: React.FC = () => {
                 <Icon as={FaPlus} mr={2} />
                 Quick Add
               </Button>
+              <Button
+                type="button"
+                onClick={onSavedMealsOpen}
+                colorScheme="teal"
+                variant="outline"
+                bg="brand.100"
+                color="text.dark"
+                _hover={{ bg: 'brand.200' }}
+              >
+                <Icon as={FaBookmark} mr={2} />
+                Saved Meals
+              </Button>
             </HStack>
 
             <VStack gap={3} align="stretch">
@@ -339,24 +427,17 @@ const MealLogger: React.FC = () => {
                       <Text fontWeight="bold">{item.name}</Text>
                       <Text fontSize="sm" color="text.light">
                         {item.calories} kcal | {item.protein}g P | {item.carbs}g C | {item.fat}g F
+                        {item.serving_size && item.serving_unit && ` per ${item.serving_size} ${item.serving_unit}`}
                       </Text>
                     </VStack>
                     <HStack>
-                      <NumberInput
-                        size="sm"
-                        min={0.1}
-                        max={100}
-                        step={0.1}
-                        value={item.quantity}
-                        onChange={(_, value) => setValue(`food_items.${index}.quantity`, value)}
-                      >
-                        <NumberInputField />
-                        <NumberInputStepper>
-                          <NumberIncrementStepper />
-                          <NumberDecrementStepper />
-                        </NumberInputStepper>
-                      </NumberInput>
-                      <Text>{item.unit}</Text>
+                      <QuantityEditor
+                        item={foodItems[index] ?? item}
+                        onChange={(quantity, unit) => {
+                          setValue(`food_items.${index}.quantity`, quantity, { shouldValidate: true });
+                          setValue(`food_items.${index}.unit`, unit);
+                        }}
+                      />
                       <IconButton
                         aria-label="Remove food item"
                         icon={<FaTrash />}
@@ -369,6 +450,23 @@ const MealLogger: React.FC = () => {
                   </HStack>
                 </Box>
               ))}
+              {fields.length > 0 && (
+                <HStack justify="space-between">
+                  <Text fontSize="sm" color="text.light">
+                    Meal total: {totals.calories} kcal | {totals.protein}g P | {totals.carbs}g C | {totals.fat}g F
+                  </Text>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    colorScheme="teal"
+                    leftIcon={<FaRegBookmark />}
+                    onClick={onSaveMealOpen}
+                  >
+                    Save as Meal
+                  </Button>
+                </HStack>
+              )}
             </VStack>
 
             <FormControl id="notes" isInvalid={!!errors.notes}>
@@ -430,6 +528,24 @@ const MealLogger: React.FC = () => {
           </ModalBody>
         </ModalContent>
       </Modal>
+
+      <Modal isOpen={isSavedMealsOpen} onClose={onSavedMealsClose} size="xl">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Saved Meals</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody pb={6}>
+            <SavedMeals onAddToMeal={handleAddSavedMeal} onLogged={onSavedMealsClose} />
+          </ModalBody>
+        </ModalContent>
+      </Modal>
+
+      <SaveMealDialog
+        isOpen={isSaveMealOpen}
+        onClose={onSaveMealClose}
+        mealType={watch('meal_type')}
+        foodItems={foodItems}
+      />
     </Box>
   );
 };
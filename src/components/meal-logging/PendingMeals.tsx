@@ -0,0 +1,82 @@
+// src/components/meal-logging/PendingMeals.tsx
+// This component lists meals that were logged while offline and are waiting in the
+// offline queue. Each entry is marked as pending, shows the last sync error if the
+// server rejected it, and can be discarded. Nothing is rendered when the queue is empty.
+
+import React from 'react';
+import {
+  Box,
+  Button,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  IconButton,
+} from '@chakra-ui/react';
+import { FaTrash, FaSync } from 'react-icons/fa';
+import { format, parseISO } from 'date-fns';
+import { useOfflineMealQueue } from '../../hooks/useOfflineMealQueue';
+import { calculateMealTotals, roundTotals } from '../../utils/nutrition';
+
+const PendingMeals: React.FC = () => {
+  const { pendingMeals, isSyncing, syncNow, discardPendingMeal } = useOfflineMealQueue();
+
+  if (pendingMeals.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box p={4} borderWidth={1} borderRadius="md" borderColor="orange.200" bg="orange.50">
+      <HStack justify="space-between" mb={3}>
+        <Text fontWeight="bold" color="text.dark">
+          {pendingMeals.length} {pendingMeals.length === 1 ? 'meal' : 'meals'} waiting to sync
+        </Text>
+        <Button
+          size="sm"
+          variant="outline"
+          colorScheme="orange"
+          leftIcon={<FaSync />}
+          onClick={syncNow}
+          isLoading={isSyncing}
+          loadingText="Syncing..."
+        >
+          Sync Now
+        </Button>
+      </HStack>
+      <VStack gap={2} align="stretch">
+        {pendingMeals.map(({ id, meal, last_error }) => {
+          const totals = roundTotals(calculateMealTotals(meal.food_items));
+          return (
+            <HStack key={id} justify="space-between" align="start" p={2} bg="white" borderRadius="md">
+              <VStack align="start" spacing={1}>
+                <HStack>
+                  <Badge colorScheme="orange">Pending</Badge>
+                  <Badge colorScheme="teal" textTransform="capitalize">{meal.meal_type}</Badge>
+                  <Text fontSize="sm" color="text.light">
+                    {format(parseISO(meal.meal_date), 'MMM d')} {meal.meal_time}
+                  </Text>
+                </HStack>
+                <Text fontSize="sm" color="text.dark">
+                  {meal.food_items.map(item => item.name).join(', ')} - {totals.calories} kcal
+                </Text>
+                {last_error && (
+                  <Text fontSize="xs" color="red.500">Could not be logged: {last_error}</Text>
+                )}
+              </VStack>
+              <IconButton
+                aria-label="Discard pending meal"
+                icon={<FaTrash />}
+                size="sm"
+                colorScheme="red"
+                variant="ghost"
+                onClick={() => discardPendingMeal(id)}
+              />
+            </HStack>
+          );
+        })}
+      </VStack>
+    </Box>
+  );
+};
+
+export default PendingMeals;
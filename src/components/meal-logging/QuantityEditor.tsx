@@ -0,0 +1,78 @@
+// src/components/meal-logging/QuantityEditor.tsx
+// This component edits the logged quantity of a food item together with its unit.
+// A quantity can be entered in reference servings or in any unit the food's serving
+// converts to (e.g. grams or tablespoons for a food described per 100 g, given its
+// density). Switching the unit converts the quantity so the logged amount stays the same.
+
+import React from 'react';
+import {
+  HStack,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
+  Select,
+  Text,
+} from '@chakra-ui/react';
+import { NutritionItem, convertQuantity, getQuantityUnits } from '../../utils/nutrition';
+import { formatUnit, getUnit, normalizeUnit } from '../../utils/units';
+
+type QuantityItem = Pick<
+  NutritionItem,
+  'quantity' | 'unit' | 'serving_size' | 'serving_unit' | 'density_g_per_ml' | 'piece_weight_g'
+>;
+
+interface QuantityEditorProps {
+  item: QuantityItem;
+  onChange: (quantity: number, unit: string) => void;
+}
+
+const QuantityEditor: React.FC<QuantityEditorProps> = ({ item, onChange }) => {
+  const units = getQuantityUnits(item);
+  const unit = normalizeUnit(item.unit) || units[0];
+  const unitDefinition = getUnit(unit);
+  // Grams and millilitres are precise enough in whole steps
+  const step = unitDefinition?.toBase === 1 && unitDefinition.dimension !== 'count' ? 1 : 0.1;
+
+  const handleUnitChange = (newUnit: string) => {
+    const quantity = convertQuantity(item, newUnit);
+    onChange(Math.round(quantity * 100) / 100, newUnit);
+  };
+
+  return (
+    <HStack>
+      <NumberInput
+        size="sm"
+        min={step}
+        step={step}
+        maxW="100px"
+        value={item.quantity}
+        onChange={(_, value) => onChange(Number.isNaN(value) ? 0 : value, unit)}
+      >
+        <NumberInputField />
+        <NumberInputStepper>
+          <NumberIncrementStepper />
+          <NumberDecrementStepper />
+        </NumberInputStepper>
+      </NumberInput>
+      {units.length > 1 ? (
+        <Select
+          size="sm"
+          maxW="110px"
+          value={unit}
+          onChange={(e) => handleUnitChange(e.target.value)}
+          borderColor="brand.200"
+        >
+          {units.map(option => (
+            <option key={option} value={option}>{formatUnit(option)}</option>
+          ))}
+        </Select>
+      ) : (
+        <Text>{formatUnit(unit)}</Text>
+      )}
+    </HStack>
+  );
+};
+
+export default QuantityEditor;
@@ -2,8 +2,12 @@
 // This component provides a simplified interface for quickly adding a food item
 // with minimal details (e.g., just name and calories). It's designed for speed
 // and convenience, then passes the data to the parent for full meal logging.
+// Micronutrients such as fiber or sodium can optionally be entered per serving.
+// Instead of typing, the user can photograph a nutrition label: its values are read
+// on the device (services/labelOcr) into the form for review, and the food is saved
+// to the user's foods so it can be found again.
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -14,8 +18,27 @@ import {
   Stack,
   Heading,
   Text,
+  SimpleGrid,
+  Checkbox,
+  Progress,
+  Icon,
 } from '@chakra-ui/react';
+import { FaCamera } from 'react-icons/fa';
 import { useErrorHandling } from '../../hooks/useErrorHandling';
+import { useCustomFoods } from '../../hooks/useCustomFoods';
+import { scanNutritionLabel } from '../../services/labelOcr';
+import { MICRONUTRIENTS, MicronutrientKey } from '../../utils/nutrients';
+import { isUsableLabel, LabelNutrientField } from '../../utils/nutritionLabel';
+
+// Optional micronutrients per serving; empty inputs are left out instead of logged as 0
+const micronutrientFields = Object.fromEntries(
+  MICRONUTRIENTS.map(({ key, label }) => [`${key}_per_serving`, z.number().min(0, `${label} must be 0 or greater`).optional()])
+) as Record<`${MicronutrientKey}_per_serving`, z.ZodOptional<z.ZodNumber>>;
+
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+// Below this mean OCR confidence the user is asked to check the values with extra care
+const LOW_OCR_CONFIDENCE = 60;
 
 // Define the schema for quick add food items
 const quickAddFoodSchema = z.object({
@@ -27,23 +50,33 @@ const quickAddFoodSchema = z.object({
   serving_size: z.number().min(0.1, 'Serving size must be greater than 0'),
   serving_unit: z.string().min(1, 'Serving unit is required'),
   barcode: z.string().optional(),
+  ...micronutrientFields,
 });
 
 // Export the type for use in other files
 export type QuickAddFoodInputs = z.infer<typeof quickAddFoodSchema>;
 
 export interface QuickAddProps {
-  onQuickAdd: (food: QuickAddFoodInputs) => void;
+  // id is set when the food was also saved to food_items
+  onQuickAdd: (food: QuickAddFoodInputs & { id?: string }) => void;
 }
 
 const QuickAdd: React.FC<QuickAddProps> = ({ onQuickAdd }) => {
   const { handleError, showToast } = useErrorHandling();
+  const { createCustomFood } = useCustomFoods();
+  const [showMicronutrients, setShowMicronutrients] = useState(false);
+  const [scanProgress, setScanProgress] = useState<number | null>(null);
+  // Set once a label was read; the food is then saved to food_items as well
+  const [labelConfidence, setLabelConfidence] = useState<number | null>(null);
+  const [saveToFoods, setSaveToFoods] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const {
     register,
     handleSubmit,
     formState: { errors, isSubmitting },
     reset,
+    setValue,
   } = useForm<QuickAddFoodInputs>({
     resolver: zodResolver(quickAddFoodSchema),
     defaultValues: {
@@ -57,15 +90,67 @@ const QuickAdd: React.FC<QuickAddProps> = ({ onQuickAdd }) => {
     },
   });
 
-  const onSubmit = (data: QuickAddFoodInputs) => {
+  const handleLabelPhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allows picking the same photo again after a failed scan
+    event.target.value = '';
+    if (!file) return;
+
+    setScanProgress(0);
+    try {
+      const { label, confidence } = await scanNutritionLabel(file, setScanProgress);
+      if (!isUsableLabel(label)) {
+        showToast({
+          title: 'Label not readable',
+          description: 'No nutrition values were found. Try a sharper, straight-on photo of the label.',
+          status: 'warning',
+        });
+        return;
+      }
+
+      (Object.entries(label.values) as Array<[LabelNutrientField, number]>).forEach(([field, value]) => {
+        setValue(field, value, { shouldValidate: true });
+      });
+      if (label.serving_size) setValue('serving_size', label.serving_size, { shouldValidate: true });
+      if (label.serving_unit) setValue('serving_unit', label.serving_unit, { shouldValidate: true });
+      if (MICRONUTRIENTS.some(({ key }) => label.values[`${key}_per_serving`] !== undefined)) {
+        setShowMicronutrients(true);
+      }
+      setLabelConfidence(confidence);
+      setSaveToFoods(true);
+      showToast({
+        title: 'Label read',
+        description: confidence < LOW_OCR_CONFIDENCE
+          ? 'The photo was hard to read. Please check every value against the label.'
+          : 'Please check the values and enter a name before adding.',
+        status: confidence < LOW_OCR_CONFIDENCE ? 'warning' : 'info',
+      });
+    } catch (error) {
+      handleError(error, 'Reading nutrition label');
+    } finally {
+      setScanProgress(null);
+    }
+  };
+
+  const onSubmit = async (data: QuickAddFoodInputs) => {
+    const shouldSave = labelConfidence !== null && saveToFoods;
+    // The meal gets the food even when saving it fails; useCustomFoods reports why
+    const savedFood = shouldSave
+      ? await createCustomFood({ ...data, visibility: 'private' }).catch(() => null)
+      : null;
+
     try {
-      onQuickAdd(data);
+      onQuickAdd({ ...data, id: savedFood?.id });
+      const notSaved = shouldSave && !savedFood;
       showToast({
         title: 'Food Added!',
-        description: `${data.name} added to your meal.`,
-        status: 'success',
+        description: notSaved
+          ? `${data.name} added to your meal, but it could not be saved to your foods.`
+          : `${data.name} added to your meal.`,
+        status: notSaved ? 'warning' : 'success',
       });
       reset();
+      setLabelConfidence(null);
     } catch (error) {
       handleError(error, 'Failed to quick add food');
     }
@@ -83,6 +168,32 @@ const QuickAdd: React.FC<QuickAddProps> = ({ onQuickAdd }) => {
 
         <Box as="div" onSubmit={handleSubmit(onSubmit)}>
           <Stack gap={3}>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={handleLabelPhoto}
+              style={{ display: 'none' }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              colorScheme="teal"
+              bg="brand.100"
+              color="text.dark"
+              _hover={{ bg: 'brand.200' }}
+              onClick={() => fileInputRef.current?.click()}
+              isLoading={scanProgress !== null}
+              loadingText="Reading label..."
+            >
+              <Icon as={FaCamera} mr={2} />
+              Scan Nutrition Label
+            </Button>
+            {scanProgress !== null && (
+              <Progress value={scanProgress * 100} size="xs" colorScheme="teal" borderRadius="md" />
+            )}
+
             <div>
               <label htmlFor="quick-name" className="block text-sm font-medium text-gray-700">
                 Food Name
@@ -151,6 +262,50 @@ const QuickAdd: React.FC<QuickAddProps> = ({ onQuickAdd }) => {
               )}
             </div>
 
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              colorScheme="teal"
+              alignSelf="flex-start"
+              onClick={() => setShowMicronutrients(show => !show)}
+            >
+              {showMicronutrients ? 'Hide more nutrients' : 'More nutrients (optional)'}
+            </Button>
+
+            {showMicronutrients && (
+              <SimpleGrid columns={2} gap={3}>
+                {MICRONUTRIENTS.map(({ key, label, unit }) => (
+                  <div key={key}>
+                    <label htmlFor={`quick-${key}`} className="block text-sm font-medium text-gray-700">
+                      {label} ({unit})
+                    </label>
+                    <Input
+                      id={`quick-${key}`}
+                      type="number"
+                      min={0}
+                      step="any"
+                      {...register(`${key}_per_serving`, { setValueAs: toOptionalNumber })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-brand-300 focus:ring-brand-300"
+                    />
+                    {errors[`${key}_per_serving`] && (
+                      <p className="mt-1 text-sm text-red-600">{errors[`${key}_per_serving`]?.message}</p>
+                    )}
+                  </div>
+                ))}
+              </SimpleGrid>
+            )}
+
+            {labelConfidence !== null && (
+              <Checkbox
+                isChecked={saveToFoods}
+                onChange={(e) => setSaveToFoods(e.target.checked)}
+                colorScheme="teal"
+              >
+                Save to my foods so I can search for it later
+              </Checkbox>
+            )}
+
             <Button
               type="button"
               onClick={handleSubmit(onSubmit)}
@@ -0,0 +1,296 @@
+// src/components/meal-logging/RecipeBuilder.tsx
+// This component renders a modal for creating or editing a recipe. Ingredients are
+// added from the food database or through Quick Add, their quantities can be set in
+// any supported unit, and the per-serving nutrition is recalculated as the recipe,
+// its number of servings or its total yield change.
+
+import React, { useCallback, useEffect } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Box,
+  Button,
+  Input,
+  Stack,
+  Text,
+  IconButton,
+  HStack,
+  VStack,
+  Icon,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  FormHelperText,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  Select,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { FaSearch, FaPlus, FaTrash } from 'react-icons/fa';
+import FoodSearch, { SearchedFoodItem } from './FoodSearch';
+import QuickAdd, { QuickAddFoodInputs } from './QuickAdd';
+import QuantityEditor from './QuantityEditor';
+import { useRecipes, RecipeInput } from '../../hooks/useRecipes';
+import { useErrorHandling } from '../../hooks/useErrorHandling';
+import { recipeSchema } from '../../utils/validation';
+import { Recipe, calculateRecipeNutrition } from '../../utils/recipes';
+import { roundTotals, toServingItem } from '../../utils/nutrition';
+import { UNITS, formatUnit } from '../../utils/units';
+
+interface RecipeBuilderProps {
+  recipe: Recipe | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const EMPTY_RECIPE: RecipeInput = {
+  name: '',
+  servings: 1,
+  total_yield: undefined,
+  yield_unit: 'g',
+  ingredients: [],
+  notes: '',
+};
+
+const toFormValues = (recipe: Recipe): RecipeInput => ({
+  name: recipe.name,
+  servings: recipe.servings,
+  total_yield: recipe.total_yield ?? undefined,
+  yield_unit: recipe.yield_unit || 'g',
+  ingredients: recipe.ingredients,
+  notes: recipe.notes || '',
+});
+
+const toOptionalNumber = (value: string | number) => (value === '' || value === null ? undefined : Number(value));
+
+const RecipeBuilder: React.FC<RecipeBuilderProps> = ({ recipe, isOpen, onClose, onSaved }) => {
+  const { saveRecipe, isSaving } = useRecipes();
+  const { showToast } = useErrorHandling();
+  const { isOpen: isFoodSearchOpen, onOpen: onFoodSearchOpen, onClose: onFoodSearchClose } = useDisclosure();
+  const { isOpen: isQuickAddOpen, onOpen: onQuickAddOpen, onClose: onQuickAddClose } = useDisclosure();
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<RecipeInput>({
+    resolver: zodResolver(recipeSchema),
+    defaultValues: EMPTY_RECIPE,
+    mode: 'onChange',
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'ingredients',
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      reset(recipe ? toFormValues(recipe) : EMPTY_RECIPE);
+    }
+  }, [isOpen, recipe, reset]);
+
+  const values = watch();
+  const ingredients = values.ingredients || [];
+  const nutrition = calculateRecipeNutrition({
+    servings: values.servings || 1,
+    total_yield: values.total_yield ?? null,
+    yield_unit: values.yield_unit ?? null,
+    ingredients,
+  });
+  const perServing = roundTotals(nutrition.perServing);
+
+  const handleAddIngredient = useCallback((food: SearchedFoodItem | QuickAddFoodInputs) => {
+    append({
+      ...toServingItem(food),
+      food_item_id: 'id' in food ? food.id : undefined,
+    });
+    onFoodSearchClose();
+    onQuickAddClose();
+  }, [append, onFoodSearchClose, onQuickAddClose]);
+
+  const onSubmit = async (data: RecipeInput) => {
+    try {
+      await saveRecipe(data, recipe?.id);
+      showToast({
+        title: recipe ? 'Recipe updated' : 'Recipe saved',
+        description: `"${data.name.trim()}" can now be found in Search Food.`,
+        status: 'success',
+      });
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      // Errors are already surfaced by useRecipes
+      console.error('Error saving recipe:', error);
+    }
+  };
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={onClose} size="xl">
+        <ModalOverlay />
+        <ModalContent>
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <ModalHeader>{recipe ? 'Edit Recipe' : 'New Recipe'}</ModalHeader>
+            <ModalCloseButton />
+            <ModalBody>
+              <Stack gap={4}>
+                <FormControl id="recipe_name" isInvalid={!!errors.name}>
+                  <FormLabel color="text.dark">Name</FormLabel>
+                  <Input {...register('name')} placeholder="e.g., Lentil soup" borderColor="brand.200" />
+                  <FormErrorMessage>{errors.name?.message}</FormErrorMessage>
+                </FormControl>
+
+                <HStack gap={4} align="start" flexWrap="wrap">
+                  <FormControl id="recipe_servings" isInvalid={!!errors.servings} flex="1">
+                    <FormLabel color="text.dark">Servings</FormLabel>
+                    <Input
+                      type="number"
+                      step="any"
+                      {...register('servings', { valueAsNumber: true })}
+                      borderColor="brand.200"
+                    />
+                    <FormErrorMessage>{errors.servings?.message}</FormErrorMessage>
+                  </FormControl>
+
+                  <FormControl id="recipe_total_yield" isInvalid={!!errors.total_yield || !!errors.yield_unit} flex="2">
+                    <FormLabel color="text.dark">Total Yield (optional)</FormLabel>
+                    <HStack>
+                      <Input
+                        type="number"
+                        step="any"
+                        {...register('total_yield', { setValueAs: toOptionalNumber })}
+                        placeholder="e.g., 1200"
+                        borderColor="brand.200"
+                      />
+                      <Select {...register('yield_unit')} maxW="110px" borderColor="brand.200">
+                        {Object.keys(UNITS).map(unit => (
+                          <option key={unit} value={unit}>{formatUnit(unit)}</option>
+                        ))}
+                      </Select>
+                    </HStack>
+                    <FormHelperText>Lets you log this recipe by weight or volume as well as by serving.</FormHelperText>
+                    <FormErrorMessage>{errors.total_yield?.message || errors.yield_unit?.message}</FormErrorMessage>
+                  </FormControl>
+                </HStack>
+
+                <HStack gap={4}>
+                  <Button type="button" size="sm" variant="outline" colorScheme="teal" onClick={onFoodSearchOpen}>
+                    <Icon as={FaSearch} mr={2} />
+                    Add Ingredient
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" colorScheme="teal" onClick={onQuickAddOpen}>
+                    <Icon as={FaPlus} mr={2} />
+                    Quick Add
+                  </Button>
+                </HStack>
+
+                <VStack gap={3} align="stretch">
+                  {fields.length === 0 && (
+                    <Text textAlign="center" color="text.light">No ingredients added yet.</Text>
+                  )}
+                  {fields.map((item, index) => (
+                    <Box key={item.id} p={3} borderWidth={1} borderRadius="md" borderColor="brand.200">
+                      <HStack justify="space-between">
+                        <VStack align="start" spacing={1}>
+                          <Text fontWeight="bold">{item.name}</Text>
+                          <Text fontSize="sm" color="text.light">
+                            {item.calories} kcal | {item.protein}g P | {item.carbs}g C | {item.fat}g F
+                            {item.serving_size && item.serving_unit && ` per ${item.serving_size} ${item.serving_unit}`}
+                          </Text>
+                        </VStack>
+                        <HStack>
+                          <QuantityEditor
+                            item={ingredients[index] ?? item}
+                            onChange={(quantity, unit) => {
+                              setValue(`ingredients.${index}.quantity`, quantity, { shouldValidate: true });
+                              setValue(`ingredients.${index}.unit`, unit);
+                            }}
+                          />
+                          <IconButton
+                            aria-label="Remove ingredient"
+                            icon={<FaTrash />}
+                            size="sm"
+                            colorScheme="red"
+                            variant="ghost"
+                            onClick={() => remove(index)}
+                          />
+                        </HStack>
+                      </HStack>
+                    </Box>
+                  ))}
+                  {errors.ingredients?.message && (
+                    <Text color="red.500" fontSize="sm">{errors.ingredients.message}</Text>
+                  )}
+                </VStack>
+
+                <Box p={3} bg="brand.50" borderRadius="md">
+                  <Text fontSize="sm" fontWeight="semibold" color="text.dark">
+                    Per serving{nutrition.servingUnit !== 'serving' && ` (${nutrition.servingSize} ${formatUnit(nutrition.servingUnit)})`}
+                  </Text>
+                  <Text fontSize="sm" color="text.light">
+                    {perServing.calories} kcal | {perServing.protein}g P | {perServing.carbs}g C | {perServing.fat}g F
+                  </Text>
+                </Box>
+
+                <FormControl id="recipe_notes" isInvalid={!!errors.notes}>
+                  <FormLabel color="text.dark">Notes</FormLabel>
+                  <Input {...register('notes')} placeholder="Preparation notes..." borderColor="brand.200" />
+                  <FormErrorMessage>{errors.notes?.message}</FormErrorMessage>
+                </FormControl>
+              </Stack>
+            </ModalBody>
+            <ModalFooter gap={3}>
+              <Button variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                colorScheme="teal"
+                isLoading={isSaving}
+                loadingText="Saving..."
+                isDisabled={fields.length === 0}
+              >
+                Save Recipe
+              </Button>
+            </ModalFooter>
+          </form>
+        </ModalContent>
+      </Modal>
+
+      <Modal isOpen={isFoodSearchOpen} onClose={onFoodSearchClose} size="xl">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Add Ingredient</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody pb={6}>
+            <FoodSearch onFoodSelect={handleAddIngredient} includeRecipes={false} />
+          </ModalBody>
+        </ModalContent>
+      </Modal>
+
+      <Modal isOpen={isQuickAddOpen} onClose={onQuickAddClose} size="xl">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Quick Add Ingredient</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody pb={6}>
+            <QuickAdd onQuickAdd={handleAddIngredient} />
+          </ModalBody>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+};
+
+export default RecipeBuilder;
@@ -0,0 +1,131 @@
+// src/components/meal-logging/Recipes.tsx
+// This component lists the user's recipes with their per-serving nutrition and
+// lets users create, edit and delete them through the RecipeBuilder modal.
+// Saved recipes are found through Search Food in the meal logger.
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Stack,
+  Heading,
+  Text,
+  HStack,
+  VStack,
+  IconButton,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { FaEdit, FaTrash, FaPlus } from 'react-icons/fa';
+import RecipeBuilder from './RecipeBuilder';
+import LoadingSpinner from '../shared/LoadingSpinner';
+import { useRecipes } from '../../hooks/useRecipes';
+import { Recipe, calculateRecipeNutrition } from '../../utils/recipes';
+import { roundTotals } from '../../utils/nutrition';
+import { formatUnit } from '../../utils/units';
+
+const Recipes: React.FC = () => {
+  const { recipes, isLoading, fetchRecipes, deleteRecipe } = useRecipes();
+  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
+  const { isOpen: isBuilderOpen, onOpen: onBuilderOpen, onClose: onBuilderClose } = useDisclosure();
+
+  useEffect(() => {
+    fetchRecipes();
+  }, [fetchRecipes]);
+
+  const handleOpenBuilder = (recipe: Recipe | null) => {
+    setSelectedRecipe(recipe);
+    onBuilderOpen();
+  };
+
+  const handleDelete = async (recipe: Recipe) => {
+    try {
+      await deleteRecipe(recipe.id);
+    } catch (error) {
+      // Errors are already surfaced by useRecipes
+      console.error('Error deleting recipe:', error);
+    }
+  };
+
+  return (
+    <Box
+      p={8}
+      maxWidth="800px"
+      borderWidth={1}
+      borderRadius="lg"
+      boxShadow="lg"
+      bg="whiteAlpha.700"
+      borderColor="brand.200"
+      mx="auto"
+      my={8}
+    >
+      <Stack gap={6}>
+        <Heading as="h2" size="xl" textAlign="center" color="text.dark">
+          Recipes
+        </Heading>
+        <Text fontSize="md" color="text.light" textAlign="center">
+          Build your home-cooked dishes once and log them by the serving.
+        </Text>
+
+        <Button colorScheme="teal" leftIcon={<FaPlus />} onClick={() => handleOpenBuilder(null)} alignSelf="center">
+          New Recipe
+        </Button>
+
+        {isLoading ? (
+          <LoadingSpinner message="Loading your recipes..." />
+        ) : recipes.length === 0 ? (
+          <Text textAlign="center" color="text.light">No recipes yet.</Text>
+        ) : (
+          <VStack gap={3} align="stretch">
+            {recipes.map(recipe => {
+              const { perServing, servingSize, servingUnit } = calculateRecipeNutrition(recipe);
+              const totals = roundTotals(perServing);
+              return (
+                <Box key={recipe.id} p={3} borderWidth={1} borderRadius="md" borderColor="brand.200">
+                  <HStack justify="space-between" align="start">
+                    <VStack align="start" spacing={1}>
+                      <Text fontWeight="bold">{recipe.name}</Text>
+                      <Text fontSize="sm" color="text.dark">
+                        {recipe.ingredients.length} ingredients | {recipe.servings} servings
+                        {servingUnit !== 'serving' && ` of ${servingSize} ${formatUnit(servingUnit)}`}
+                      </Text>
+                      <Text fontSize="sm" color="text.light">
+                        Per serving: {totals.calories} kcal | {totals.protein}g P | {totals.carbs}g C | {totals.fat}g F
+                      </Text>
+                    </VStack>
+                    <HStack>
+                      <IconButton
+                        aria-label="Edit recipe"
+                        icon={<FaEdit />}
+                        size="sm"
+                        colorScheme="teal"
+                        variant="ghost"
+                        onClick={() => handleOpenBuilder(recipe)}
+                      />
+                      <IconButton
+                        aria-label="Delete recipe"
+                        icon={<FaTrash />}
+                        size="sm"
+                        colorScheme="red"
+                        variant="ghost"
+                        onClick={() => handleDelete(recipe)}
+                      />
+                    </HStack>
+                  </HStack>
+                </Box>
+              );
+            })}
+          </VStack>
+        )}
+      </Stack>
+
+      <RecipeBuilder
+        recipe={selectedRecipe}
+        isOpen={isBuilderOpen}
+        onClose={onBuilderClose}
+        onSaved={fetchRecipes}
+      />
+    </Box>
+  );
+};
+
+export default Recipes;
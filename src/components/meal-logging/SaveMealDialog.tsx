@@ -0,0 +1,121 @@
+// src/components/meal-logging/SaveMealDialog.tsx
+// This component renders a small modal that stores a list of food items as a
+// saved meal. It is opened from the meal logger (to save the meal being built)
+// and from the meal history (to save a meal that was already logged).
+
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  Input,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  Select,
+  Stack,
+  Text,
+} from '@chakra-ui/react';
+import { MealLogData } from '../../services/n8nWebhooks';
+import { useSavedMeals } from '../../hooks/useSavedMeals';
+import { useErrorHandling } from '../../hooks/useErrorHandling';
+
+interface SaveMealDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mealType: string;
+  foodItems: MealLogData['food_items'];
+  defaultName?: string;
+}
+
+const SaveMealDialog: React.FC<SaveMealDialogProps> = ({ isOpen, onClose, mealType, foodItems, defaultName = '' }) => {
+  const { saveMeal, isSaving } = useSavedMeals();
+  const { showToast } = useErrorHandling();
+  const [name, setName] = useState(defaultName);
+  const [selectedMealType, setSelectedMealType] = useState(mealType);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(defaultName);
+      setSelectedMealType(mealType || 'other');
+    }
+  }, [isOpen, defaultName, mealType]);
+
+  const handleSave = async () => {
+    try {
+      await saveMeal({ name, meal_type: selectedMealType, food_items: foodItems });
+      showToast({
+        title: 'Meal saved',
+        description: `"${name.trim()}" is now in your saved meals.`,
+        status: 'success',
+      });
+      onClose();
+    } catch (error) {
+      // Errors are already surfaced by useSavedMeals
+      console.error('Error saving meal:', error);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Save Meal</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <Stack gap={4}>
+            <Text fontSize="sm" color="text.light">
+              Save these {foodItems.length} food items so you can log them again in one tap.
+            </Text>
+            <FormControl id="saved_meal_name" isInvalid={name.trim().length === 0}>
+              <FormLabel color="text.dark">Name</FormLabel>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Weekday breakfast"
+                borderColor="brand.200"
+                maxLength={100}
+              />
+              <FormErrorMessage>Name is required</FormErrorMessage>
+            </FormControl>
+            <FormControl id="saved_meal_type">
+              <FormLabel color="text.dark">Default Meal Type</FormLabel>
+              <Select
+                value={selectedMealType}
+                onChange={(e) => setSelectedMealType(e.target.value)}
+                borderColor="brand.200"
+              >
+                <option value="breakfast">Breakfast</option>
+                <option value="lunch">Lunch</option>
+                <option value="dinner">Dinner</option>
+                <option value="snack">Snack</option>
+                <option value="other">Other</option>
+              </Select>
+            </FormControl>
+          </Stack>
+        </ModalBody>
+        <ModalFooter gap={3}>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            colorScheme="teal"
+            onClick={handleSave}
+            isLoading={isSaving}
+            loadingText="Saving..."
+            isDisabled={name.trim().length === 0 || foodItems.length === 0}
+          >
+            Save
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default SaveMealDialog;
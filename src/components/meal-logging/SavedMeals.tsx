@@ -0,0 +1,120 @@
+// src/components/meal-logging/SavedMeals.tsx
+// This component lists the user's saved meals inside the meal logger. A saved
+// meal can be logged straight away with its default meal type, or its food items
+// can be added to the meal currently being built so they can be adjusted first.
+
+import React, { useEffect } from 'react';
+import {
+  Box,
+  Button,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  IconButton,
+} from '@chakra-ui/react';
+import { FaTrash } from 'react-icons/fa';
+import LoadingSpinner from '../shared/LoadingSpinner';
+import { useSavedMeals, SavedMeal } from '../../hooks/useSavedMeals';
+import { useErrorHandling } from '../../hooks/useErrorHandling';
+import { calculateMealTotals, roundTotals } from '../../utils/nutrition';
+
+interface SavedMealsProps {
+  onAddToMeal: (savedMeal: SavedMeal) => void;
+  onLogged?: () => void;
+}
+
+const SavedMeals: React.FC<SavedMealsProps> = ({ onAddToMeal, onLogged }) => {
+  const { savedMeals, isLoading, isLogging, fetchSavedMeals, deleteSavedMeal, logSavedMeal } = useSavedMeals();
+  const { showToast } = useErrorHandling();
+
+  useEffect(() => {
+    fetchSavedMeals();
+  }, [fetchSavedMeals]);
+
+  const handleLog = async (savedMeal: SavedMeal) => {
+    try {
+      await logSavedMeal(savedMeal);
+      showToast({
+        title: 'Meal logged successfully',
+        description: `Logged "${savedMeal.name}" as your ${savedMeal.meal_type}`,
+        status: 'success',
+      });
+      onLogged?.();
+    } catch (error) {
+      // Errors are already surfaced by useMealLogging
+      console.error('Error logging saved meal:', error);
+    }
+  };
+
+  const handleDelete = async (savedMeal: SavedMeal) => {
+    try {
+      await deleteSavedMeal(savedMeal.id);
+    } catch (error) {
+      // Errors are already surfaced by useSavedMeals
+      console.error('Error deleting saved meal:', error);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading saved meals..." />;
+  }
+
+  if (savedMeals.length === 0) {
+    return (
+      <Text textAlign="center" color="text.light">
+        No saved meals yet. Build a meal and use &quot;Save as Meal&quot;, or save one from your meal history.
+      </Text>
+    );
+  }
+
+  return (
+    <VStack gap={3} align="stretch">
+      {savedMeals.map(savedMeal => {
+        const totals = roundTotals(calculateMealTotals(savedMeal.food_items));
+        return (
+          <Box key={savedMeal.id} p={3} borderWidth={1} borderRadius="md" borderColor="brand.200">
+            <HStack justify="space-between" align="start">
+              <VStack align="start" spacing={1}>
+                <HStack>
+                  <Text fontWeight="bold">{savedMeal.name}</Text>
+                  <Badge colorScheme="teal" textTransform="capitalize">{savedMeal.meal_type}</Badge>
+                </HStack>
+                <Text fontSize="sm" color="text.dark">
+                  {savedMeal.food_items.map(item => `${item.name} (${item.quantity} ${item.unit})`).join(', ')}
+                </Text>
+                <Text fontSize="sm" color="text.light">
+                  {totals.calories} kcal | {totals.protein}g P | {totals.carbs}g C | {totals.fat}g F
+                </Text>
+              </VStack>
+              <IconButton
+                aria-label="Delete saved meal"
+                icon={<FaTrash />}
+                size="sm"
+                colorScheme="red"
+                variant="ghost"
+                onClick={() => handleDelete(savedMeal)}
+              />
+            </HStack>
+            <HStack mt={3} justify="flex-end">
+              <Button size="sm" variant="outline" colorScheme="teal" onClick={() => onAddToMeal(savedMeal)}>
+                Add to Meal
+              </Button>
+              <Button
+                size="sm"
+                colorScheme="teal"
+                onClick={() => handleLog(savedMeal)}
+                isLoading={isLogging}
+                loadingText="Logging..."
+              >
+                Log Now
+              </Button>
+            </HStack>
+          </Box>
+        );
+      })}
+    </VStack>
+  );
+};
+
+export default SavedMeals;
@@ -0,0 +1,118 @@
+// src/components/profile/AdaptiveTargetCard.tsx
+// This component shows the calorie expenditure estimated from the user's logged
+// meals and weight trend, offers the weekly calorie target adjustment it suggests,
+// and lists the adjustments accepted so far.
+
+import React from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  SimpleGrid,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { format, parseISO } from 'date-fns';
+import { useAdaptiveTarget } from '../../hooks/useAdaptiveTarget';
+import { ADAPTIVE_WINDOW_DAYS, MIN_LOGGED_DAYS } from '../../utils/adaptiveTdee';
+
+interface AdaptiveTargetCardProps {
+  currentTarget?: number;
+  goalType?: string;
+  onAccepted: (targetCalories: number) => void;
+}
+
+const CONFIDENCE_COLORS = { low: 'orange', medium: 'yellow', high: 'green' };
+
+const AdaptiveTargetCard: React.FC<AdaptiveTargetCardProps> = ({ currentTarget, goalType, onAccepted }) => {
+  const { estimate, suggestion, history, isLoading, isAccepting, acceptAdjustment } = useAdaptiveTarget(currentTarget, goalType);
+
+  const handleAccept = async () => {
+    if (!suggestion || !estimate) return;
+    try {
+      onAccepted(await acceptAdjustment(suggestion, estimate));
+    } catch (error) {
+      // Errors are already surfaced by useAdaptiveTarget
+      console.error('Error accepting calorie adjustment:', error);
+    }
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <Box p={4} bg="brand.100" borderRadius="md" borderWidth={1} borderColor="brand.200">
+      <VStack align="stretch" spacing={3}>
+        <HStack justify="space-between">
+          <Text fontWeight="semibold" color="text.dark">Adaptive Calorie Target</Text>
+          {estimate && (
+            <Badge colorScheme={CONFIDENCE_COLORS[estimate.confidence]}>{estimate.confidence} confidence</Badge>
+          )}
+        </HStack>
+
+        {!estimate ? (
+          <Text fontSize="sm" color="text.light">
+            Log your meals on at least {MIN_LOGGED_DAYS} days and weigh in regularly over the last {ADAPTIVE_WINDOW_DAYS} days
+            to get a target based on how your body actually responds.
+          </Text>
+        ) : (
+          <>
+            <SimpleGrid columns={{ base: 2, md: 3 }} gap={3}>
+              <Box>
+                <Text fontSize="xs" color="text.light">Estimated TDEE</Text>
+                <Text fontWeight="bold" color="accent.600">{estimate.tdee} kcal</Text>
+              </Box>
+              <Box>
+                <Text fontSize="xs" color="text.light">Average Intake</Text>
+                <Text fontWeight="bold" color="text.dark">{estimate.averageIntake} kcal</Text>
+              </Box>
+              <Box>
+                <Text fontSize="xs" color="text.light">Weight Trend</Text>
+                <Text fontWeight="bold" color="text.dark">
+                  {estimate.weightChangePerWeek > 0 ? '+' : ''}{estimate.weightChangePerWeek} kg/week
+                </Text>
+              </Box>
+            </SimpleGrid>
+            <Text fontSize="xs" color="text.light">
+              Based on {estimate.loggedDays} logged days and {estimate.weighIns} weigh-ins in the last {ADAPTIVE_WINDOW_DAYS} days.
+            </Text>
+
+            {suggestion ? (
+              <Box p={3} bg="white" borderRadius="md">
+                <Text fontSize="sm" color="text.dark">{suggestion.reason}</Text>
+                <HStack mt={2} justify="space-between">
+                  <Text fontWeight="semibold" color="text.dark">
+                    {suggestion.currentTarget} → {suggestion.suggestedTarget} kcal ({suggestion.change > 0 ? '+' : ''}{suggestion.change})
+                  </Text>
+                  <Button size="sm" colorScheme="teal" onClick={handleAccept} isLoading={isAccepting}>
+                    Accept
+                  </Button>
+                </HStack>
+              </Box>
+            ) : (
+              <Text fontSize="sm" color="text.dark">Your calorie target is on track; no adjustment needed this week.</Text>
+            )}
+          </>
+        )}
+
+        {history.length > 0 && (
+          <Box>
+            <Text fontSize="sm" fontWeight="semibold" color="text.dark" mb={1}>Accepted Adjustments</Text>
+            <VStack align="stretch" spacing={1}>
+              {history.map(adjustment => (
+                <HStack key={adjustment.id} justify="space-between" fontSize="xs" color="text.light">
+                  <Text>{format(parseISO(adjustment.created_at), 'MMM d, yyyy')}</Text>
+                  <Text>
+                    {adjustment.previous_calories} → {adjustment.new_calories} kcal (TDEE {adjustment.estimated_tdee} kcal)
+                  </Text>
+                </HStack>
+              ))}
+            </VStack>
+          </Box>
+        )}
+      </VStack>
+    </Box>
+  );
+};
+
+export default AdaptiveTargetCard;
@@ -0,0 +1,56 @@
+// src/components/profile/GoalHistoryTimeline.tsx
+// This component lists the changes of the user's goals over time, newest first:
+// the date each version took effect and what changed compared with the version
+// before it (utils/goalHistory).
+
+import React from 'react';
+import { Badge, Box, HStack, Text, VStack } from '@chakra-ui/react';
+import { format, parseISO } from 'date-fns';
+import { useGoalHistory } from '../../hooks/useGoalHistory';
+import { describeGoalChanges } from '../../utils/goalHistory';
+
+const GoalHistoryTimeline: React.FC = () => {
+  const { versions, isLoading } = useGoalHistory('goal_history_timeline');
+
+  if (isLoading) return null;
+
+  if (versions.length === 0) {
+    return (
+      <Text fontSize="sm" color="text.light">
+        Changes to your goals will appear here once you save them.
+      </Text>
+    );
+  }
+
+  const entries = versions
+    .map((version, index) => ({ version, changes: describeGoalChanges(versions[index - 1], version) }))
+    .filter(({ changes }, index) => index === 0 || changes.length > 0)
+    .reverse();
+
+  return (
+    <VStack align="stretch" spacing={0}>
+      {entries.map(({ version, changes }, index) => (
+        <HStack key={version.id} align="flex-start" spacing={3}>
+          <VStack spacing={0} pt={1}>
+            <Box w={3} h={3} borderRadius="full" bg={index === 0 ? 'accent.500' : 'brand.200'} />
+            {index < entries.length - 1 && <Box w="2px" minH={12} flex={1} bg="brand.100" />}
+          </VStack>
+          <Box pb={4}>
+            <HStack spacing={2}>
+              <Text fontSize="sm" fontWeight="semibold" color="text.dark">
+                {format(parseISO(version.effective_from), 'MMM d, yyyy')}
+              </Text>
+              {index === 0 && <Badge colorScheme="teal">Current</Badge>}
+              {index === entries.length - 1 && <Badge>First saved</Badge>}
+            </HStack>
+            {changes.map(change => (
+              <Text key={change} fontSize="xs" color="text.light">{change}</Text>
+            ))}
+          </Box>
+        </HStack>
+      ))}
+    </VStack>
+  );
+};
+
+export default GoalHistoryTimeline;
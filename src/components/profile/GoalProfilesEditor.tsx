@@ -0,0 +1,209 @@
+// src/components/profile/GoalProfilesEditor.tsx
+// This component edits the user's goal profiles: targets for training, rest or
+// refeed days, optionally pinned to weekdays. Days without a pinned profile use the
+// training or rest profile depending on the user's preferred workout days, and
+// targets left empty fall back to the base goals above.
+
+import React, { useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  FormControl,
+  FormErrorMessage,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  Select,
+  SimpleGrid,
+  Text,
+  VStack,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react';
+import { FaEdit, FaTrash } from 'react-icons/fa';
+import { goalProfileSchema } from '../../utils/validation';
+import { DAY_TYPES, WEEKDAYS, getDayTypeLabel } from '../../utils/goalProfiles';
+import { GoalProfile, useGoalProfiles } from '../../hooks/useGoalProfiles';
+
+type GoalProfileFormInputs = z.infer<typeof goalProfileSchema>;
+
+const EMPTY_PROFILE: GoalProfileFormInputs = {
+  name: '',
+  day_type: 'training',
+  weekdays: [],
+};
+
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const GoalProfilesEditor: React.FC = () => {
+  const { profiles, workoutDays, isSaving, saveGoalProfile, deleteGoalProfile } = useGoalProfiles('goal_profiles_editor');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    reset,
+    formState: { errors },
+  } = useForm<GoalProfileFormInputs>({
+    resolver: zodResolver(goalProfileSchema),
+    defaultValues: EMPTY_PROFILE,
+  });
+
+  const openForm = (profile?: GoalProfile) => {
+    setEditingId(profile?.id || null);
+    reset(profile
+      ? {
+          name: profile.name,
+          day_type: profile.day_type as GoalProfileFormInputs['day_type'],
+          weekdays: (profile.weekdays || []) as GoalProfileFormInputs['weekdays'],
+          target_calories: profile.target_calories ?? undefined,
+          target_protein_ratio: profile.target_protein_ratio ?? undefined,
+          target_carbs_ratio: profile.target_carbs_ratio ?? undefined,
+          target_fat_ratio: profile.target_fat_ratio ?? undefined,
+        }
+      : EMPTY_PROFILE);
+    setIsFormOpen(true);
+  };
+
+  const onSubmit = async (data: GoalProfileFormInputs) => {
+    try {
+      await saveGoalProfile(data, editingId || undefined);
+      setIsFormOpen(false);
+      setEditingId(null);
+    } catch (error) {
+      // Errors are already surfaced by useGoalProfiles
+      console.error('Error saving goal profile:', error);
+    }
+  };
+
+  const handleDelete = async (profileId: string) => {
+    try {
+      await deleteGoalProfile(profileId);
+    } catch (error) {
+      console.error('Error deleting goal profile:', error);
+    }
+  };
+
+  return (
+    <VStack align="stretch" spacing={3}>
+      <Text fontSize="sm" color="text.light">
+        Days not pinned to a profile use your Training Day profile on workout days
+        ({workoutDays.length > 0 ? workoutDays.map(capitalize).join(', ') : 'none set'}) and your Rest Day profile otherwise.
+      </Text>
+
+      {profiles.map(profile => (
+        <Box key={profile.id} p={3} bg="brand.100" borderRadius="md">
+          <HStack justify="space-between">
+            <HStack spacing={2}>
+              <Text fontWeight="semibold" color="text.dark">{profile.name}</Text>
+              <Badge colorScheme="teal">{getDayTypeLabel(profile.day_type)}</Badge>
+            </HStack>
+            <HStack spacing={1}>
+              <IconButton aria-label="Edit goal profile" icon={<FaEdit />} size="xs" variant="ghost" onClick={() => openForm(profile)} />
+              <IconButton aria-label="Delete goal profile" icon={<FaTrash />} size="xs" variant="ghost" onClick={() => handleDelete(profile.id)} />
+            </HStack>
+          </HStack>
+          <Text fontSize="sm" color="text.dark">
+            {profile.target_calories ? `${profile.target_calories} kcal` : 'Base calories'}
+            {profile.target_protein_ratio
+              ? ` | ${profile.target_protein_ratio}/${profile.target_carbs_ratio}/${profile.target_fat_ratio}% P/C/F`
+              : ' | Base macros'}
+          </Text>
+          {profile.weekdays && profile.weekdays.length > 0 && (
+            <Text fontSize="xs" color="text.light">Pinned to {profile.weekdays.map(capitalize).join(', ')}</Text>
+          )}
+        </Box>
+      ))}
+
+      {isFormOpen ? (
+        <Box as="form" onSubmit={handleSubmit(onSubmit)} p={3} borderWidth={1} borderColor="brand.200" borderRadius="md">
+          <VStack align="stretch" spacing={3}>
+            <SimpleGrid columns={{ base: 1, md: 2 }} gap={3}>
+              <FormControl id="goal_profile_name" isInvalid={!!errors.name}>
+                <FormLabel color="text.dark" fontSize="sm">Name</FormLabel>
+                <Input size="sm" {...register('name')} placeholder="e.g., Leg day" borderColor="brand.200" />
+                <FormErrorMessage>{errors.name?.message}</FormErrorMessage>
+              </FormControl>
+              <FormControl id="goal_profile_day_type" isInvalid={!!errors.day_type}>
+                <FormLabel color="text.dark" fontSize="sm">Day Type</FormLabel>
+                <Select size="sm" {...register('day_type')} borderColor="brand.200">
+                  {DAY_TYPES.map(dayType => (
+                    <option key={dayType.id} value={dayType.id}>{dayType.label}</option>
+                  ))}
+                </Select>
+                <FormErrorMessage>{errors.day_type?.message}</FormErrorMessage>
+              </FormControl>
+            </SimpleGrid>
+
+            <FormControl id="goal_profile_weekdays">
+              <FormLabel color="text.dark" fontSize="sm">Pin to Weekdays (optional)</FormLabel>
+              <Controller
+                name="weekdays"
+                control={control}
+                render={({ field }) => (
+                  <CheckboxGroup colorScheme="teal" value={field.value} onChange={field.onChange}>
+                    <Wrap spacing={3}>
+                      {WEEKDAYS.map(weekday => (
+                        <WrapItem key={weekday}>
+                          <Checkbox value={weekday}>{capitalize(weekday).slice(0, 3)}</Checkbox>
+                        </WrapItem>
+                      ))}
+                    </Wrap>
+                  </CheckboxGroup>
+                )}
+              />
+            </FormControl>
+
+            <SimpleGrid columns={{ base: 2, md: 4 }} gap={3}>
+              <FormControl id="goal_profile_calories" isInvalid={!!errors.target_calories}>
+                <FormLabel color="text.dark" fontSize="sm">Calories</FormLabel>
+                <Input size="sm" type="number" {...register('target_calories', { setValueAs: toOptionalNumber })} borderColor="brand.200" />
+                <FormErrorMessage>{errors.target_calories?.message}</FormErrorMessage>
+              </FormControl>
+              <FormControl id="goal_profile_protein" isInvalid={!!errors.target_protein_ratio}>
+                <FormLabel color="text.dark" fontSize="sm">Protein %</FormLabel>
+                <Input size="sm" type="number" {...register('target_protein_ratio', { setValueAs: toOptionalNumber })} borderColor="brand.200" />
+                <FormErrorMessage>{errors.target_protein_ratio?.message}</FormErrorMessage>
+              </FormControl>
+              <FormControl id="goal_profile_carbs" isInvalid={!!errors.target_carbs_ratio}>
+                <FormLabel color="text.dark" fontSize="sm">Carbs %</FormLabel>
+                <Input size="sm" type="number" {...register('target_carbs_ratio', { setValueAs: toOptionalNumber })} borderColor="brand.200" />
+                <FormErrorMessage>{errors.target_carbs_ratio?.message}</FormErrorMessage>
+              </FormControl>
+              <FormControl id="goal_profile_fat" isInvalid={!!errors.target_fat_ratio}>
+                <FormLabel color="text.dark" fontSize="sm">Fat %</FormLabel>
+                <Input size="sm" type="number" {...register('target_fat_ratio', { setValueAs: toOptionalNumber })} borderColor="brand.200" />
+                <FormErrorMessage>{errors.target_fat_ratio?.message}</FormErrorMessage>
+              </FormControl>
+            </SimpleGrid>
+            <Text fontSize="xs" color="text.light">Leave a target empty to use your base goal.</Text>
+
+            <HStack spacing={2}>
+              <Button type="submit" size="sm" colorScheme="teal" isLoading={isSaving}>
+                {editingId ? 'Update Profile' : 'Add Profile'}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setIsFormOpen(false)}>Cancel</Button>
+            </HStack>
+          </VStack>
+        </Box>
+      ) : (
+        <Button size="sm" variant="outline" colorScheme="teal" alignSelf="flex-start" onClick={() => openForm()}>
+          Add Goal Profile
+        </Button>
+      )}
+    </VStack>
+  );
+};
+
+export default GoalProfilesEditor;
@@ -1,7 +1,7 @@
 // src/components/profile/GoalSetting.tsx
 // This component allows users to set and update their fitness and nutrition goals.
 // It uses React Hook Form with Zod for validation and interacts directly with Supabase
-// to manage user goals.
+// to manage user goals. Goal profiles and the goal history are shown below the form.
 
 import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
@@ -27,13 +27,32 @@ import {
   NumberIncrementStepper,
   NumberDecrementStepper,
   InputRightElement,
+  SimpleGrid,
+  Select,
   useToast,
 } from '@chakra-ui/react';
 import { goalSettingSchema } from '../../utils/validation';
 import { useAuth } from '../../hooks/useAuth';
 import { useErrorHandling } from '../../hooks/useErrorHandling';
+import { useEnergyProfile } from '../../hooks/useEnergyProfile';
 import { supabase } from '../../services/supabase';
+import { saveUserGoals } from '../../services/goals';
 import LoadingSpinner from '../shared/LoadingSpinner';
+import TargetSuggestion from './TargetSuggestion';
+import AdaptiveTargetCard from './AdaptiveTargetCard';
+import GoalProfilesEditor from './GoalProfilesEditor';
+import GoalHistoryTimeline from './GoalHistoryTimeline';
+import { EnergyTargets } from '../../utils/energy';
+import { MICRONUTRIENTS, MicronutrientKey } from '../../utils/nutrients';
+import {
+  MACRO_KEYS,
+  MACRO_TARGET_MODES,
+  DEFAULT_TARGET_CALORIES,
+  MacroKey,
+  MacroTargetMode,
+  getMacroCalories,
+  syncMacroTargets,
+} from '../../utils/macroTargets';
 
 type AppView = 'login' | 'signup' | 'onboarding' | 'dashboard' | 'log-meal' | 'profile' | 'goals' | 'preferences';
 
@@ -47,11 +66,19 @@ type GoalSettingInputs = {
   target_protein_ratio?: number;
   target_carbs_ratio?: number;
   target_fat_ratio?: number;
+  macro_target_mode?: MacroTargetMode;
+  target_protein_g?: number;
+  target_carbs_g?: number;
+  target_fat_g?: number;
+  target_protein_g_per_kg?: number;
+  target_carbs_g_per_kg?: number;
+  target_fat_g_per_kg?: number;
   target_weight_kg?: number;
   target_date?: string;
   weekly_workout_goal?: number;
   water_intake_goal?: number;
   sleep_goal?: number;
+  nutrient_targets?: Partial<Record<MicronutrientKey, number>>;
 };
 
 interface UserGoals {
@@ -59,18 +86,48 @@ interface UserGoals {
   target_protein_ratio?: number;
   target_carbs_ratio?: number;
   target_fat_ratio?: number;
+  macro_target_mode?: MacroTargetMode | null;
+  target_protein_g?: number | null;
+  target_carbs_g?: number | null;
+  target_fat_g?: number | null;
   target_weight_kg?: number;
   target_date?: string;
   weekly_workout_goal?: number;
   water_intake_goal?: number;
   sleep_goal?: number;
+  nutrient_targets?: Partial<Record<MicronutrientKey, number>> | null;
 }
 
+type MacroFieldName = `target_${MacroKey}_ratio` | `target_${MacroKey}_g` | `target_${MacroKey}_g_per_kg`;
+
+// Form inputs shown for each way of entering macro targets
+const MACRO_INPUTS: Record<MacroTargetMode, { field: (macro: MacroKey) => MacroFieldName; step: number; placeholders: Record<MacroKey, string> }> = {
+  percent: { field: macro => `target_${macro}_ratio`, step: 5, placeholders: { protein: '30', carbs: '40', fat: '30' } },
+  grams: { field: macro => `target_${macro}_g`, step: 5, placeholders: { protein: '150', carbs: '200', fat: '65' } },
+  grams_per_kg: { field: macro => `target_${macro}_g_per_kg`, step: 0.1, placeholders: { protein: '2', carbs: '3', fat: '1' } },
+};
+
+const MACRO_LABELS: Record<MacroKey, string> = { protein: 'Protein', carbs: 'Carbs', fat: 'Fat' };
+
+// Per-kg targets are converted to grams before saving
+const FORM_ONLY_FIELDS: string[] = MACRO_KEYS.map(macro => `target_${macro}_g_per_kg`);
+
+// Macro targets adding up to more than this share of the calorie target are flagged
+const MACRO_CALORIE_TOLERANCE = 0.05;
+
+// Empty target inputs mean "use the default" rather than 0
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+// Per-kg values are not stored; they are derived from the stored grams
+const toGramsPerKg = (grams: number | null | undefined, weightKg: number | null) =>
+  grams && weightKg ? Math.round((grams / weightKg) * 10) / 10 : undefined;
+
 const GoalSetting: React.FC<GoalSettingProps> = ({ onViewChange }) => {
   const { user, isAuthReady } = useAuth();
   const { handleError, showToast } = useErrorHandling();
   const theme = useTheme();
   const toast = useToast();
+  const { profile: energyProfile, weightKg } = useEnergyProfile();
 
   const [isLoadingGoals, setIsLoadingGoals] = useState(true);
   const [isSavingGoals, setIsSavingGoals] = useState(false);
@@ -101,11 +158,19 @@ const GoalSetting: React.FC<GoalSettingProps> = ({ onViewChange }) => {
       target_protein_ratio: goals.target_protein_ratio,
       target_carbs_ratio: goals.target_carbs_ratio,
       target_fat_ratio: goals.target_fat_ratio,
+      macro_target_mode: goals.macro_target_mode || 'percent',
+      target_protein_g: goals.target_protein_g ?? undefined,
+      target_carbs_g: goals.target_carbs_g ?? undefined,
+      target_fat_g: goals.target_fat_g ?? undefined,
+      target_protein_g_per_kg: toGramsPerKg(goals.target_protein_g, weightKg),
+      target_carbs_g_per_kg: toGramsPerKg(goals.target_carbs_g, weightKg),
+      target_fat_g_per_kg: toGramsPerKg(goals.target_fat_g, weightKg),
       target_weight_kg: goals.target_weight_kg,
       target_date: goals.target_date,
       weekly_workout_goal: goals.weekly_workout_goal,
       water_intake_goal: goals.water_intake_goal,
       sleep_goal: goals.sleep_goal,
+      nutrient_targets: goals.nutrient_targets || {},
     },
   });
 
@@ -117,20 +182,59 @@ const GoalSetting: React.FC<GoalSettingProps> = ({ onViewChange }) => {
         target_protein_ratio: goals.target_protein_ratio,
         target_carbs_ratio: goals.target_carbs_ratio,
         target_fat_ratio: goals.target_fat_ratio,
+        macro_target_mode: goals.macro_target_mode || 'percent',
+        target_protein_g: goals.target_protein_g ?? undefined,
+        target_carbs_g: goals.target_carbs_g ?? undefined,
+        target_fat_g: goals.target_fat_g ?? undefined,
+        target_protein_g_per_kg: toGramsPerKg(goals.target_protein_g, weightKg),
+        target_carbs_g_per_kg: toGramsPerKg(goals.target_carbs_g, weightKg),
+        target_fat_g_per_kg: toGramsPerKg(goals.target_fat_g, weightKg),
         target_weight_kg: goals.target_weight_kg,
         target_date: goals.target_date,
         weekly_workout_goal: goals.weekly_workout_goal,
         water_intake_goal: goals.water_intake_goal,
         sleep_goal: goals.sleep_goal,
+        nutrient_targets: goals.nutrient_targets || {},
       });
     }
-  }, [goals, isLoadingGoals, reset]);
+  }, [goals, isLoadingGoals, reset, weightKg]);
 
+  const macroMode = watch('macro_target_mode') || 'percent';
+  const targetCalories = watch('target_calories');
   const protein = watch('target_protein_ratio');
   const carbs = watch('target_carbs_ratio');
   const fat = watch('target_fat_ratio');
   const macroSum = (protein || 0) + (carbs || 0) + (fat || 0);
-  const showMacroSumWarning = macroSum > 0 && macroSum !== 100;
+  const showMacroSumWarning = macroMode === 'percent' && macroSum > 0 && macroSum !== 100;
+
+  const getMacroValues = (mode: MacroTargetMode): Partial<Record<MacroKey, number>> =>
+    Object.fromEntries(MACRO_KEYS.map(macro => [macro, watch(MACRO_INPUTS[mode].field(macro))]));
+
+  // Calories from macros entered as grams, to compare with the calorie target
+  const macroCalories = macroMode === 'percent' || (macroMode === 'grams_per_kg' && !weightKg)
+    ? null
+    : Math.round(getMacroCalories(
+      macroMode === 'grams'
+        ? getMacroValues('grams')
+        : Object.fromEntries(MACRO_KEYS.map(macro => [macro, (watch(`target_${macro}_g_per_kg`) || 0) * (weightKg || 0)]))
+    ));
+  const showMacroCalorieWarning = !!macroCalories && !!targetCalories
+    && Math.abs(macroCalories - targetCalories) > targetCalories * MACRO_CALORIE_TOLERANCE;
+
+  // Switching modes converts the current targets, so the new inputs start from the same values
+  const handleMacroModeChange = (mode: MacroTargetMode) => {
+    const current = getMacroValues(macroMode);
+    const hasValues = MACRO_KEYS.some(macro => current[macro]);
+    if (hasValues && targetCalories && (macroMode !== 'grams_per_kg' || weightKg)) {
+      const synced = syncMacroTargets(macroMode, current, targetCalories, weightKg);
+      MACRO_KEYS.forEach(macro => {
+        setValue(`target_${macro}_ratio`, synced[`target_${macro}_ratio`]);
+        setValue(`target_${macro}_g`, synced[`target_${macro}_g`]);
+        setValue(`target_${macro}_g_per_kg`, toGramsPerKg(synced[`target_${macro}_g`], weightKg));
+      });
+    }
+    setValue('macro_target_mode', mode, { shouldDirty: true, shouldValidate: true });
+  };
 
   useEffect(() => {
     const fetchUserGoals = async () => {
@@ -199,17 +303,17 @@ const GoalSetting: React.FC<GoalSettingProps> = ({ onViewChange }) => {
 
     setIsSavingGoals(true);
     try {
-      const { error } = await supabase
-        .from('user_goals')
-        .upsert({
-          user_id: user.id,
-          ...data,
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'user_id'
-        });
-
-      if (error) throw error;
+      const goalData = Object.fromEntries(
+        Object.entries(data).filter(([key]) => !FORM_ONLY_FIELDS.includes(key))
+      );
+      const mode = data.macro_target_mode || 'percent';
+      const macroValues = Object.fromEntries(MACRO_KEYS.map(macro => [macro, data[MACRO_INPUTS[mode].field(macro)]]));
+      const hasMacroTargets = MACRO_KEYS.some(macro => macroValues[macro]);
+      const macroTargets = hasMacroTargets
+        ? syncMacroTargets(mode, macroValues, data.target_calories || DEFAULT_TARGET_CALORIES, weightKg)
+        : {};
+
+      await saveUserGoals(user.id, { ...goalData, ...macroTargets });
 
       showToast({
         title: 'Goals Saved!',
@@ -235,6 +339,20 @@ const GoalSetting: React.FC<GoalSettingProps> = ({ onViewChange }) => {
     }
   };
 
+  // Suggested targets replace the current values but stay editable until saved
+  const handleAcceptTargets = (targets: EnergyTargets) => {
+    setValue('target_calories', targets.target_calories, { shouldDirty: true, shouldValidate: true });
+    setValue('target_protein_ratio', targets.target_protein_ratio, { shouldDirty: true, shouldValidate: true });
+    setValue('target_carbs_ratio', targets.target_carbs_ratio, { shouldDirty: true, shouldValidate: true });
+    setValue('target_fat_ratio', targets.target_fat_ratio, { shouldDirty: true, shouldValidate: true });
+    setValue('macro_target_mode', 'percent', { shouldDirty: true, shouldValidate: true });
+    showToast({
+      title: 'Suggested targets applied',
+      description: 'Review them, adjust if you like, and save your goals.',
+      status: 'info',
+    });
+  };
+
   if (isLoadingGoals) {
     return <LoadingSpinner message="Loading your goals..." />;
   }
@@ -285,6 +403,20 @@ const GoalSetting: React.FC<GoalSettingProps> = ({ onViewChange }) => {
               <FormErrorMessage>{errors.target_weight_kg?.message}</FormErrorMessage>
             </FormControl>
 
+            {energyProfile ? (
+              <TargetSuggestion profile={energyProfile} onAccept={handleAcceptTargets} />
+            ) : (
+              <Text fontSize="sm" color="text.light">
+                Complete your profile (age, gender, height, weight, activity level and goal) to get suggested targets.
+              </Text>
+            )}
+
+            <AdaptiveTargetCard
+              currentTarget={goals.target_calories}
+              goalType={energyProfile?.goal_type}
+              onAccepted={(targetCalories) => setValue('target_calories', targetCalories)}
+            />
+
             <FormControl id="target_calories" isInvalid={!!errors.target_calories}>
               <FormLabel color="text.dark">Target Daily Calories (kcal)</FormLabel>
               <NumberInput
@@ -390,93 +522,71 @@ const GoalSetting: React.FC<GoalSettingProps> = ({ onViewChange }) => {
             <Divider my={4} borderColor="brand.100" />
 
             <Heading as="h3" size="md" color="text.dark">
-              Macronutrient Ratios (%)
+              Macronutrient Targets
             </Heading>
             <Text fontSize="sm" color="text.light">
-              (Optional) Set your target protein, carbs, and fat percentages. They should sum to 100%.
+              (Optional) Set your protein, carbs, and fat targets as a share of your calories, in grams per day, or in grams per kg of body weight. Percentages should sum to 100%.
             </Text>
 
+            <FormControl id="macro_target_mode">
+              <FormLabel color="text.dark">Enter Macros As</FormLabel>
+              <Select
+                value={macroMode}
+                onChange={(e) => handleMacroModeChange(e.target.value as MacroTargetMode)}
+                borderColor="brand.200"
+                _focus={{ borderColor: 'brand.300', boxShadow: `0 0 0 1px ${theme.colors.brand['300']}` }}
+              >
+                {MACRO_TARGET_MODES.map(mode => (
+                  <option key={mode.id} value={mode.id}>{mode.label}</option>
+                ))}
+              </Select>
+            </FormControl>
+            {macroMode === 'grams_per_kg' && !weightKg && (
+              <Text color="orange.500" fontSize="sm">
+                Add your current weight to your profile to set macros per kg of body weight.
+              </Text>
+            )}
+
             <HStack gap={4}>
-              <FormControl id="target_protein_ratio" isInvalid={!!errors.target_protein_ratio}>
-                <FormLabel color="text.dark">Protein</FormLabel>
-                <InputGroup>
-                  <>
-                    <NumberInput
-                      min={0}
-                      max={100}
-                      step={5}
-                      onChange={(_, valueAsNumber) => setValue('target_protein_ratio', valueAsNumber)}
-                      value={watch('target_protein_ratio') || ''}
-                    >
-                      <NumberInputField
-                        {...register('target_protein_ratio', { valueAsNumber: true })}
-                        placeholder="e.g., 30"
-                        borderColor="brand.200"
-                        _focus={{ borderColor: 'brand.300', boxShadow: `0 0 0 1px ${theme.colors.brand['300']}` }}
-                      />
-                      <NumberInputStepper>
-                        <NumberIncrementStepper />
-                        <NumberDecrementStepper />
-                      </NumberInputStepper>
-                    </NumberInput>
-                    <InputRightElement pointerEvents="none" bg="brand.100" color="text.dark">%</InputRightElement>
-                  </>
-                </InputGroup>
-                <FormErrorMessage>{errors.target_protein_ratio?.message}</FormErrorMessage>
-              </FormControl>
-
-              <FormControl id="target_carbs_ratio" isInvalid={!!errors.target_carbs_ratio}>
-                <FormLabel color="text.dark">Carbs</FormLabel>
-                <InputGroup>
-                  <>
-                    <NumberInput
-                      min={0} max={100} step={5}
-                      onChange={(_, valueAsNumber) => setValue('target_carbs_ratio', valueAsNumber)}
-                      value={watch('target_carbs_ratio') || ''}
-                    >
-                      <NumberInputField
-                        {...register('target_carbs_ratio', { valueAsNumber: true })}
-                        placeholder="e.g., 40"
-                        borderColor="brand.200"
-                        _focus={{ borderColor: 'brand.300', boxShadow: `0 0 0 1px ${theme.colors.brand['300']}` }}
-                      />
-                      <NumberInputStepper>
-                        <NumberIncrementStepper />
-                        <NumberDecrementStepper />
-                      </NumberInputStepper>
-                    </NumberInput>
-                    <InputRightElement pointerEvents="none" bg="brand.100" color="text.dark">%</InputRightElement>
-                  </>
-                </InputGroup>
-                <FormErrorMessage>{errors.target_carbs_ratio?.message}</FormErrorMessage>
-              </FormControl>
-
-              <FormControl id="target_fat_ratio" isInvalid={!!errors.target_fat_ratio}>
-                <FormLabel color="text.dark">Fat</FormLabel>
-                <InputGroup>
-                  <>
-                    <NumberInput
-                      min={0} max={100} step={5}
-                      onChange={(_, valueAsNumber) => setValue('target_fat_ratio', valueAsNumber)}
-                      value={watch('target_fat_ratio') || ''}
-                    >
-                      <NumberInputField
-                        {...register('target_fat_ratio', { valueAsNumber: true })}
-                        placeholder="e.g., 30"
-                        borderColor="brand.200"
-                        _focus={{ borderColor: 'brand.300', boxShadow: `0 0 0 1px ${theme.colors.brand['300']}` }}
-                      />
-                      <NumberInputStepper>
-                        <NumberIncrementStepper />
-                        <NumberDecrementStepper />
-                      </NumberInputStepper>
-                    </NumberInput>
-                    <InputRightElement pointerEvents="none" bg="brand.100" color="text.dark">%</InputRightElement>
-                  </>
-                </InputGroup>
-                <FormErrorMessage>{errors.target_fat_ratio?.message}</FormErrorMessage>
-              </FormControl>
+              {MACRO_KEYS.map(macro => {
+                const field = MACRO_INPUTS[macroMode].field(macro);
+                const unit = MACRO_TARGET_MODES.find(mode => mode.id === macroMode)?.unit;
+                return (
+                  <FormControl key={field} id={field} isInvalid={!!errors[field]}>
+                    <FormLabel color="text.dark">{MACRO_LABELS[macro]}</FormLabel>
+                    <InputGroup>
+                      <>
+                        <NumberInput
+                          min={0}
+                          max={macroMode === 'percent' ? 100 : undefined}
+                          step={MACRO_INPUTS[macroMode].step}
+                          onChange={(_, valueAsNumber) => setValue(field, valueAsNumber, { shouldDirty: true })}
+                          value={watch(field) || ''}
+                        >
+                          <NumberInputField
+                            {...register(field, { valueAsNumber: true })}
+                            placeholder={`e.g., ${MACRO_INPUTS[macroMode].placeholders[macro]}`}
+                            borderColor="brand.200"
+                            _focus={{ borderColor: 'brand.300', boxShadow: `0 0 0 1px ${theme.colors.brand['300']}` }}
+                          />
+                          <NumberInputStepper>
+                            <NumberIncrementStepper />
+                            <NumberDecrementStepper />
+                          </NumberInputStepper>
+                        </NumberInput>
+                        <InputRightElement pointerEvents="none" bg="brand.100" color="text.dark" width="3rem">{unit}</InputRightElement>
+                      </>
+                    </InputGroup>
+                    <FormErrorMessage>{errors[field]?.message}</FormErrorMessage>
+                  </FormControl>
+                );
+              })}
             </HStack>
+            {showMacroCalorieWarning && (
+              <Text color="orange.500" fontSize="sm" mt={2}>
+                These macros add up to {macroCalories} kcal, while your calorie target is {targetCalories} kcal.
+              </Text>
+            )}
             {showMacroSumWarning && (
               <Text color="orange.500" fontSize="sm" mt={2}>
                 Macro ratios sum to {macroSum}%. They should sum to 100% if specified.
@@ -486,6 +596,39 @@ const GoalSetting: React.FC<GoalSettingProps> = ({ onViewChange }) => {
               <Text color="red.500" fontSize="sm">{errors.root.message}</Text>
             )}
 
+            <Divider my={4} borderColor="brand.100" />
+
+            <Heading as="h3" size="md" color="text.dark">
+              Micronutrient Targets
+            </Heading>
+            <Text fontSize="sm" color="text.light">
+              (Optional) Leave a field empty to use the recommended daily value shown.
+            </Text>
+
+            <SimpleGrid columns={{ base: 1, md: 2 }} gap={4}>
+              {MICRONUTRIENTS.map(nutrient => (
+                <FormControl
+                  key={nutrient.key}
+                  id={`nutrient_target_${nutrient.key}`}
+                  isInvalid={!!errors.nutrient_targets?.[nutrient.key]}
+                >
+                  <FormLabel color="text.dark">
+                    {nutrient.label} {nutrient.targetKind === 'max' ? 'limit' : 'goal'} ({nutrient.unit})
+                  </FormLabel>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    {...register(`nutrient_targets.${nutrient.key}`, { setValueAs: toOptionalNumber })}
+                    placeholder={String(nutrient.defaultTarget)}
+                    borderColor="brand.200"
+                    _focus={{ borderColor: 'brand.300', boxShadow: `0 0 0 1px ${theme.colors.brand['300']}` }}
+                  />
+                  <FormErrorMessage>{errors.nutrient_targets?.[nutrient.key]?.message}</FormErrorMessage>
+                </FormControl>
+              ))}
+            </SimpleGrid>
+
             <Button
               type="submit"
               isLoading={isSavingGoals}
@@ -502,6 +645,24 @@ const GoalSetting: React.FC<GoalSettingProps> = ({ onViewChange }) => {
             </Button>
           </Stack>
         </form>
+
+        <Divider borderColor="brand.100" />
+
+        <Box>
+          <Heading as="h3" size="md" color="text.dark" mb={2}>
+            Day-Specific Goals
+          </Heading>
+          <GoalProfilesEditor />
+        </Box>
+
+        <Divider borderColor="brand.100" />
+
+        <Box>
+          <Heading as="h3" size="md" color="text.dark" mb={2}>
+            Goal History
+          </Heading>
+          <GoalHistoryTimeline />
+        </Box>
       </Stack>
     </Box>
   );
@@ -1,10 +1,10 @@
 // src/components/profile/Preferences.tsx
 // This component allows users to manage their application preferences,
-// such as notification settings or theme preferences. It interacts with Supabase
-// to store and retrieve these settings.
+// such as notification settings, theme preferences and which body measurements
+// are tracked. It interacts with Supabase to store and retrieve these settings.
 
 import React, { useEffect, useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, Controller } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import {
@@ -20,6 +20,9 @@ import {
   Select,
   Switch,
   Divider,
+  Checkbox,
+  CheckboxGroup,
+  SimpleGrid,
   useTheme,
 } from '@chakra-ui/react';
 import { preferencesSchema } from '../../utils/validation';
@@ -27,6 +30,7 @@ import { useAuth } from '../../hooks/useAuth';
 import { useErrorHandling } from '../../hooks/useErrorHandling';
 import { supabase } from '../../services/supabase';
 import LoadingSpinner from '../shared/LoadingSpinner';
+import { BODY_SITES, DEFAULT_MEASUREMENT_SITES, DEFAULT_MEASUREMENT_UNIT } from '../../utils/measurements';
 
 // Define the type for form data based on the Zod schema
 type PreferencesInputs = z.infer<typeof preferencesSchema>;
@@ -52,6 +56,8 @@ const Preferences: React.FC = () => {
       receiveNotifications: false,
       notificationFrequency: 'daily',
       themePreference: 'system',
+      measurementUnit: DEFAULT_MEASUREMENT_UNIT,
+      measurementSites: DEFAULT_MEASUREMENT_SITES,
     },
   });
 
@@ -82,6 +88,8 @@ const Preferences: React.FC = () => {
             receiveNotifications: data.receiveNotifications || false,
             notificationFrequency: data.notificationFrequency || 'daily',
             themePreference: data.themePreference || 'system',
+            measurementUnit: data.measurementUnit || DEFAULT_MEASUREMENT_UNIT,
+            measurementSites: data.measurementSites || DEFAULT_MEASUREMENT_SITES,
           });
         }
       } catch (err) {
@@ -106,10 +114,13 @@ const Preferences: React.FC = () => {
         },
         (payload) => {
           if (payload.new) {
+            const updated = payload.new as Partial<PreferencesInputs>;
             reset({
-              receiveNotifications: (payload.new as any).receiveNotifications || false,
-              notificationFrequency: (payload.new as any).notificationFrequency || 'daily',
-              themePreference: (payload.new as any).themePreference || 'system',
+              receiveNotifications: updated.receiveNotifications || false,
+              notificationFrequency: updated.notificationFrequency || 'daily',
+              themePreference: updated.themePreference || 'system',
+              measurementUnit: updated.measurementUnit || DEFAULT_MEASUREMENT_UNIT,
+              measurementSites: updated.measurementSites || DEFAULT_MEASUREMENT_SITES,
             });
             showToast({
               title: 'Preferences Updated!',
@@ -229,6 +240,39 @@ const Preferences: React.FC = () => {
               <FormErrorMessage>{errors.themePreference && errors.themePreference.message}</FormErrorMessage>
             </FormControl>
 
+            <Divider my={4} borderColor="brand.100" />
+
+            <FormControl id="measurementUnit" isInvalid={!!errors.measurementUnit}>
+              <FormLabel color="text.dark">Body Measurement Unit</FormLabel>
+              <Select
+                {...register('measurementUnit')}
+                borderColor="brand.200"
+                _focus={{ borderColor: 'brand.300', boxShadow: `0 0 0 1px ${theme.colors.brand['300']}` }}
+              >
+                <option value="cm">Centimetres (cm)</option>
+                <option value="in">Inches (in)</option>
+              </Select>
+              <FormErrorMessage>{errors.measurementUnit && errors.measurementUnit.message}</FormErrorMessage>
+            </FormControl>
+
+            <FormControl id="measurementSites" isInvalid={!!errors.measurementSites}>
+              <FormLabel color="text.dark">Tracked Body Measurements</FormLabel>
+              <Controller
+                name="measurementSites"
+                control={control}
+                render={({ field }) => (
+                  <CheckboxGroup colorScheme="teal" value={field.value || []} onChange={field.onChange}>
+                    <SimpleGrid columns={{ base: 2, md: 3 }} gap={2}>
+                      {BODY_SITES.map(site => (
+                        <Checkbox key={site.id} value={site.id}>{site.label}</Checkbox>
+                      ))}
+                    </SimpleGrid>
+                  </CheckboxGroup>
+                )}
+              />
+              <FormErrorMessage>{errors.measurementSites && errors.measurementSites.message}</FormErrorMessage>
+            </FormControl>
+
             <Button
               type="submit"
               isLoading={isSavingPreferences}
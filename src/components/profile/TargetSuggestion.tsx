@@ -0,0 +1,106 @@
+// src/components/profile/TargetSuggestion.tsx
+// This component proposes calorie and macro targets calculated from the user's
+// profile (utils/energy), lets them pick the BMR formula, shows the math behind the
+// numbers and hands the targets to the parent form when accepted. Accepted targets
+// are only a starting point; the parent form keeps them editable.
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Collapse,
+  HStack,
+  ListItem,
+  Select,
+  SimpleGrid,
+  Text,
+  UnorderedList,
+  VStack,
+} from '@chakra-ui/react';
+import {
+  BMR_FORMULAS,
+  BmrFormula,
+  EnergyProfile,
+  EnergyTargets,
+  calculateEnergyTargets,
+  getAvailableFormulas,
+  getDefaultFormula,
+} from '../../utils/energy';
+
+interface TargetSuggestionProps {
+  profile: EnergyProfile;
+  onAccept: (targets: EnergyTargets) => void;
+  acceptLabel?: string;
+}
+
+const TargetSuggestion: React.FC<TargetSuggestionProps> = ({ profile, onAccept, acceptLabel = 'Use these targets' }) => {
+  const availableFormulas = getAvailableFormulas(profile);
+  const [formula, setFormula] = useState<BmrFormula>(getDefaultFormula(profile));
+  const [showMath, setShowMath] = useState(false);
+
+  // Body fat may arrive after mount, which changes the formulas on offer
+  const targets = calculateEnergyTargets(profile, availableFormulas.includes(formula) ? formula : getDefaultFormula(profile));
+
+  return (
+    <Box p={4} bg="brand.100" borderRadius="md" borderWidth={1} borderColor="brand.200">
+      <VStack align="stretch" spacing={3}>
+        <HStack justify="space-between" align="center">
+          <Text fontWeight="semibold" color="text.dark">Suggested Targets</Text>
+          <Select
+            size="sm"
+            maxW="220px"
+            value={targets.formula}
+            onChange={(e) => setFormula(e.target.value as BmrFormula)}
+            borderColor="brand.200"
+            bg="white"
+          >
+            {availableFormulas.map(option => (
+              <option key={option} value={option}>{BMR_FORMULAS[option].label}</option>
+            ))}
+          </Select>
+        </HStack>
+        <Text fontSize="xs" color="text.light">{BMR_FORMULAS[targets.formula].description}</Text>
+
+        <SimpleGrid columns={{ base: 2, md: 4 }} gap={3}>
+          <Box>
+            <Text fontSize="xs" color="text.light">BMR</Text>
+            <Text fontWeight="bold" color="text.dark">{targets.bmr} kcal</Text>
+          </Box>
+          <Box>
+            <Text fontSize="xs" color="text.light">TDEE</Text>
+            <Text fontWeight="bold" color="text.dark">{targets.tdee} kcal</Text>
+          </Box>
+          <Box>
+            <Text fontSize="xs" color="text.light">Daily Target</Text>
+            <Text fontWeight="bold" color="accent.600">{targets.target_calories} kcal</Text>
+          </Box>
+          <Box>
+            <Text fontSize="xs" color="text.light">Protein / Carbs / Fat</Text>
+            <Text fontWeight="bold" color="text.dark">
+              {targets.target_protein_ratio}/{targets.target_carbs_ratio}/{targets.target_fat_ratio}%
+            </Text>
+          </Box>
+        </SimpleGrid>
+
+        <Collapse in={showMath} animateOpacity>
+          <UnorderedList fontSize="sm" color="text.dark" spacing={1}>
+            {targets.explanation.map(step => (
+              <ListItem key={step}>{step}</ListItem>
+            ))}
+          </UnorderedList>
+        </Collapse>
+
+        <HStack spacing={2}>
+          <Button size="sm" colorScheme="teal" onClick={() => onAccept(targets)}>
+            {acceptLabel}
+          </Button>
+          <Button size="sm" variant="ghost" colorScheme="teal" onClick={() => setShowMath(prev => !prev)}>
+            {showMath ? 'Hide the math' : 'How is this calculated?'}
+          </Button>
+        </HStack>
+      </VStack>
+    </Box>
+  );
+};
+
+export default TargetSuggestion;
@@ -0,0 +1,13 @@
+// src/components/shared/OfflineMealSync.tsx
+// This component renders nothing; it keeps the offline meal queue syncing in the
+// background on every page, replaying queued meals whenever the browser is online.
+
+import React from 'react';
+import { useOfflineMealQueue } from '../../hooks/useOfflineMealQueue';
+
+const OfflineMealSync: React.FC = () => {
+  useOfflineMealQueue({ autoSync: true });
+  return null;
+};
+
+export default OfflineMealSync;
@@ -0,0 +1,123 @@
+// src/hooks/useAdaptiveTarget.ts
+// This custom hook estimates the current user's real energy expenditure from the
+// last weeks of logged intake (nutrition_logs) and weight entries, suggests an
+// adjustment of their calorie target (utils/adaptiveTdee), and records accepted
+// adjustments in goal_adjustments. A new suggestion is offered at most once a week.
+
+import { useState, useCallback, useEffect } from 'react';
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { supabase } from '../services/supabase';
+import { saveUserGoals } from '../services/goals';
+import { Database } from '../types/database.types';
+import {
+  ADAPTIVE_WINDOW_DAYS,
+  AdaptiveTdeeEstimate,
+  TargetAdjustment,
+  estimateAdaptiveTdee,
+  suggestTargetAdjustment,
+} from '../utils/adaptiveTdee';
+import { useAuth } from './useAuth';
+import { useErrorHandling } from './useErrorHandling';
+import { useNutritionLogs } from './useNutritionLogs';
+import { useWeightEntries } from './useWeightEntries';
+
+export type GoalAdjustment = Database['public']['Tables']['goal_adjustments']['Row'];
+
+const DAYS_BETWEEN_ADJUSTMENTS = 7;
+
+/**
+ * @param currentTarget - The user's current target_calories.
+ * @param goalType - The user's goal_type from user_profiles.
+ */
+export const useAdaptiveTarget = (currentTarget: number | undefined, goalType: string | undefined) => {
+  const { user } = useAuth();
+  const { handleError } = useErrorHandling();
+  const [history, setHistory] = useState<GoalAdjustment[]>([]);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  const today = new Date();
+  // Today is left out, since its meals are usually not all logged yet
+  const startDate = format(subDays(today, ADAPTIVE_WINDOW_DAYS), 'yyyy-MM-dd');
+  const endDate = format(subDays(today, 1), 'yyyy-MM-dd');
+  const { logs, isLoading: isLoadingLogs } = useNutritionLogs(startDate, endDate, 'adaptive_target_nutrition_logs');
+  const { entries, isLoading: isLoadingWeights } = useWeightEntries(startDate, 'adaptive_target_weight_entries');
+
+  const fetchHistory = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('goal_adjustments')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      console.error('Error fetching goal adjustments:', error);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const estimate: AdaptiveTdeeEstimate | null = estimateAdaptiveTdee(
+    logs.map(log => ({ date: log.date, calories: log.calories })),
+    entries.map(entry => ({ date: entry.entry_date, value: entry.weight_kg })),
+  );
+
+  const lastAdjustment = history[0];
+  const isDue = !lastAdjustment
+    || differenceInCalendarDays(today, parseISO(lastAdjustment.created_at)) >= DAYS_BETWEEN_ADJUSTMENTS;
+  const suggestion: TargetAdjustment | null = estimate && currentTarget && isDue
+    ? suggestTargetAdjustment(estimate, currentTarget, goalType || 'maintain_weight')
+    : null;
+
+  /**
+   * Applies a suggested adjustment to user_goals and records it in the history.
+   * @returns The new calorie target.
+   */
+  const acceptAdjustment = useCallback(async (adjustment: TargetAdjustment, basis: AdaptiveTdeeEstimate): Promise<number> => {
+    if (!user?.id) throw new Error('User must be logged in to adjust goals');
+
+    setIsAccepting(true);
+    try {
+      await saveUserGoals(user.id, { target_calories: adjustment.suggestedTarget });
+
+      const { data, error } = await supabase
+        .from('goal_adjustments')
+        .insert([{
+          user_id: user.id,
+          previous_calories: adjustment.currentTarget,
+          new_calories: adjustment.suggestedTarget,
+          estimated_tdee: basis.tdee,
+          average_intake: basis.averageIntake,
+          weight_change_per_week: basis.weightChangePerWeek,
+          window_days: ADAPTIVE_WINDOW_DAYS,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      setHistory(prev => [data, ...prev]);
+      return adjustment.suggestedTarget;
+    } catch (error) {
+      handleError(error, 'Adjusting calorie target');
+      throw error;
+    } finally {
+      setIsAccepting(false);
+    }
+  }, [handleError, user?.id]);
+
+  return {
+    estimate,
+    suggestion,
+    history,
+    isLoading: isLoadingLogs || isLoadingWeights,
+    isAccepting,
+    acceptAdjustment,
+  };
+};
@@ -0,0 +1,186 @@
+// src/hooks/useBodyMeasurements.ts
+// This custom hook manages the tape measurements of the current user in
+// body_measurements, together with the measurement settings from their
+// preferences: which body sites they track and whether they measure in cm or
+// inches. Values are converted to centimetres on save.
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../services/supabase';
+import { Database } from '../types/database.types';
+import { bodyMeasurementSchema } from '../utils/validation';
+import {
+  BODY_SITE_IDS,
+  BodySiteId,
+  DEFAULT_MEASUREMENT_SITES,
+  DEFAULT_MEASUREMENT_UNIT,
+} from '../utils/measurements';
+import { LengthUnit, convertLength } from '../utils/units';
+import { useAuth } from './useAuth';
+import { useErrorHandling } from './useErrorHandling';
+
+export type BodyMeasurement = Database['public']['Tables']['body_measurements']['Row'];
+
+export interface BodyMeasurementInput {
+  measured_on: string;
+  unit: LengthUnit;
+  values: Partial<Record<BodySiteId, number>>;
+}
+
+export interface MeasurementSettings {
+  unit: LengthUnit;
+  sites: BodySiteId[];
+}
+
+const isBodySite = (site: string): site is BodySiteId => (BODY_SITE_IDS as string[]).includes(site);
+
+/**
+ * Loads the body measurements of the current user from a date until today.
+ * @param startDate - First day to include, formatted yyyy-MM-dd.
+ * @param channelName - Unique realtime channel name for the calling component.
+ */
+export const useBodyMeasurements = (startDate: string, channelName: string) => {
+  const { user } = useAuth();
+  const { handleError } = useErrorHandling();
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [settings, setSettings] = useState<MeasurementSettings>({
+    unit: DEFAULT_MEASUREMENT_UNIT,
+    sites: DEFAULT_MEASUREMENT_SITES,
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchMeasurements = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('body_measurements')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('measured_on', startDate)
+        .order('measured_on', { ascending: true });
+
+      if (error) throw error;
+      setMeasurements(data || []);
+    } catch (error) {
+      console.error('Error fetching body measurements:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id, startDate]);
+
+  const fetchSettings = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('measurementUnit, measurementSites')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const sites = ((data?.measurementSites || []) as string[]).filter(isBodySite);
+      setSettings({
+        unit: data?.measurementUnit || DEFAULT_MEASUREMENT_UNIT,
+        sites: sites.length > 0 ? sites : DEFAULT_MEASUREMENT_SITES,
+      });
+    } catch (error) {
+      console.error('Error fetching measurement settings:', error);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchMeasurements();
+    fetchSettings();
+
+    const subscription = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'body_measurements',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchMeasurements();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id, channelName, fetchMeasurements, fetchSettings]);
+
+  /**
+   * Records the measurements of a day, replacing earlier values of the same sites
+   * on that day.
+   * @param input - The date, the unit the values are given in and a value per site.
+   */
+  const saveMeasurements = useCallback(async (input: BodyMeasurementInput) => {
+    if (!user?.id) throw new Error('User must be logged in to log measurements');
+
+    setIsSaving(true);
+    try {
+      const parsed = bodyMeasurementSchema.parse(input);
+      const updatedAt = new Date().toISOString();
+      const rows = Object.entries(parsed.values)
+        .filter((entry): entry is [string, number] => entry[1] !== undefined)
+        .map(([site, value]) => ({
+          user_id: user.id,
+          measured_on: parsed.measured_on,
+          site,
+          value_cm: Math.round(convertLength(value, parsed.unit, 'cm') * 10) / 10,
+          updated_at: updatedAt,
+        }));
+
+      const { data, error } = await supabase
+        .from('body_measurements')
+        .upsert(rows, { onConflict: 'user_id,measured_on,site' })
+        .select();
+
+      if (error) throw error;
+
+      const saved: BodyMeasurement[] = data || [];
+      setMeasurements(prev =>
+        [
+          ...prev.filter(row => !saved.some(savedRow => savedRow.measured_on === row.measured_on && savedRow.site === row.site)),
+          ...saved,
+        ].sort((a, b) => a.measured_on.localeCompare(b.measured_on))
+      );
+    } catch (error) {
+      handleError(error, 'Logging measurements');
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Returns the most recent measurement of every site, in cm.
+   */
+  const getLatestBySite = useCallback((): Partial<Record<BodySiteId, number>> => {
+    const latest: Partial<Record<BodySiteId, number>> = {};
+    // Rows are sorted by date, so later rows overwrite earlier ones
+    measurements.forEach(row => {
+      if (isBodySite(row.site)) latest[row.site] = row.value_cm;
+    });
+    return latest;
+  }, [measurements]);
+
+  return {
+    measurements,
+    settings,
+    isLoading,
+    isSaving,
+    saveMeasurements,
+    getLatestBySite,
+    refetch: fetchMeasurements,
+  };
+};
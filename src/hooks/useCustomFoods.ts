@@ -0,0 +1,81 @@
+// src/hooks/useCustomFoods.ts
+// This custom hook adds foods the user enters from a nutrition label, e.g. when a
+// scanned barcode is not known yet, through the /api/foods route. The food belongs
+// to the user and is either kept private or shared; shared foods wait for an admin
+// to verify them (see utils/customFoods).
+
+import { useState, useCallback } from 'react';
+import { z } from 'zod';
+import { supabase } from '../services/supabase';
+import { SearchedFoodItem } from '../services/foodSearch';
+import { customFoodSchema } from '../utils/validation';
+import { NetworkError } from '../utils/errorHandling';
+import { useAuth } from './useAuth';
+import { useErrorHandling } from './useErrorHandling';
+
+export type CustomFoodInput = z.input<typeof customFoodSchema>;
+
+/**
+ * Thrown when the barcode of a new food is already taken by a food the user can
+ * see, which callers can offer instead.
+ */
+export class DuplicateFoodError extends Error {
+  food: SearchedFoodItem;
+
+  constructor(food: SearchedFoodItem) {
+    super(`${food.name} already has this barcode.`);
+    this.name = 'DuplicateFoodError';
+    this.food = food;
+  }
+}
+
+export const useCustomFoods = () => {
+  const { user } = useAuth();
+  const { handleError } = useErrorHandling();
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Adds a food on behalf of the current user.
+   * @param input - The values of the nutrition label.
+   * @returns The stored food, ready to be logged.
+   * @throws DuplicateFoodError when the barcode belongs to an existing food.
+   */
+  const createCustomFood = useCallback(async (input: CustomFoodInput): Promise<SearchedFoodItem> => {
+    if (!user?.id) throw new Error('User must be logged in to add foods');
+
+    setIsSaving(true);
+    try {
+      const parsed = customFoodSchema.parse(input);
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch('/api/foods', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+        },
+        body: JSON.stringify(parsed),
+      }).catch(() => {
+        throw new NetworkError();
+      });
+
+      const responseData = await response.json().catch(() => ({}));
+      if (response.status === 409 && responseData.data) {
+        throw new DuplicateFoodError(responseData.data);
+      }
+      if (!response.ok) {
+        const details = typeof responseData.details === 'string' ? responseData.details : undefined;
+        throw new Error(details || responseData.error || 'Failed to add food.');
+      }
+      return responseData.data;
+    } catch (error) {
+      // Callers offer the existing food instead
+      if (!(error instanceof DuplicateFoodError)) handleError(error, 'Adding food');
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [handleError, user?.id]);
+
+  return { createCustomFood, isSaving };
+};
@@ -0,0 +1,21 @@
+// src/hooks/useDebounce.ts
+// This custom hook delays a changing value until it has stopped changing for a
+// while, e.g. to search as the user types without a request per keystroke.
+
+import { useState, useEffect } from 'react';
+
+/**
+ * @param value - The value to debounce.
+ * @param delayMs - How long the value must stay unchanged.
+ * @returns The last value that stayed unchanged for delayMs.
+ */
+export const useDebounce = <T>(value: T, delayMs: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delayMs);
+    return () => clearTimeout(timeout);
+  }, [value, delayMs]);
+
+  return debouncedValue;
+};
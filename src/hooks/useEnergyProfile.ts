@@ -0,0 +1,61 @@
+// src/hooks/useEnergyProfile.ts
+// This custom hook loads what is needed to estimate the current user's energy
+// needs (utils/energy): age, gender, height, weight, activity level and goal from
+// user_profiles, and the most recent body fat percentage from weight_entries. The
+// weight is also returned on its own for targets set per kg of body weight, which
+// do not need the rest of the profile.
+
+import { useState, useEffect } from 'react';
+import { supabase } from '../services/supabase';
+import { EnergyProfile, isEnergyProfileComplete } from '../utils/energy';
+import { useAuth } from './useAuth';
+
+export const useEnergyProfile = () => {
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<EnergyProfile | null>(null);
+  const [weightKg, setWeightKg] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchEnergyProfile = async () => {
+      if (!user?.id) return;
+
+      try {
+        const { data: profileData, error: profileError } = await supabase
+          .from('user_profiles')
+          .select('age, gender, height_cm, weight_kg, activity_level, goal_type')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (profileError) throw profileError;
+
+        const { data: bodyFatEntry, error: bodyFatError } = await supabase
+          .from('weight_entries')
+          .select('body_fat_percentage')
+          .eq('user_id', user.id)
+          .not('body_fat_percentage', 'is', null)
+          .order('entry_date', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (bodyFatError) throw bodyFatError;
+
+        const energyProfile = { ...profileData, body_fat_percentage: bodyFatEntry?.body_fat_percentage ?? null };
+        setWeightKg(profileData?.weight_kg ?? null);
+        setProfile(isEnergyProfileComplete(energyProfile) ? energyProfile : null);
+      } catch (error) {
+        console.error('Error fetching energy profile:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchEnergyProfile();
+  }, [user?.id]);
+
+  return {
+    profile,
+    weightKg,
+    isLoading,
+  };
+};
@@ -0,0 +1,84 @@
+// src/hooks/useGoalHistory.ts
+// This custom hook loads the versions of the current user's goals from goal_history
+// and tells which goals were in force on a given day (utils/goalHistory). Versions
+// are written by services/goals whenever the goals are saved.
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../services/supabase';
+import { Database } from '../types/database.types';
+import { findGoalVersionForDate, pickGoalVersionFields } from '../utils/goalHistory';
+import { useAuth } from './useAuth';
+
+export type GoalHistoryEntry = Database['public']['Tables']['goal_history']['Row'];
+
+/**
+ * @param channelName - Unique realtime channel name for the calling component.
+ */
+export const useGoalHistory = (channelName: string) => {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<GoalHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchVersions = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('goal_history')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('effective_from', { ascending: true });
+
+      if (error) throw error;
+      setVersions(data || []);
+    } catch (error) {
+      console.error('Error fetching goal history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchVersions();
+
+    const subscription = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'goal_history',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchVersions();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id, channelName, fetchVersions]);
+
+  /**
+   * Returns the goals in force on a day. Without any recorded version (goals saved
+   * before history was kept) the current goals are used.
+   * @param date - The day, formatted yyyy-MM-dd.
+   * @param currentGoals - The user's current goals from user_goals.
+   */
+  const getGoalsInEffect = useCallback(<G extends object>(date: string, currentGoals: G | null): G | null => {
+    const version = findGoalVersionForDate(date, versions);
+    return version ? { ...(currentGoals || {}), ...pickGoalVersionFields(version) } as G : currentGoals;
+  }, [versions]);
+
+  return {
+    versions,
+    isLoading,
+    getGoalsInEffect,
+    refetch: fetchVersions,
+  };
+};
@@ -0,0 +1,178 @@
+// src/hooks/useGoalProfiles.ts
+// This custom hook manages the goal profiles of the current user (targets for
+// training, rest or refeed days) together with their preferred workout days, and
+// resolves which targets apply to a given day (utils/goalProfiles).
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../services/supabase';
+import { Database } from '../types/database.types';
+import { goalProfileSchema } from '../utils/validation';
+import { GoalTargets, resolveGoalsForDate } from '../utils/goalProfiles';
+import { useAuth } from './useAuth';
+import { useErrorHandling } from './useErrorHandling';
+
+export type GoalProfile = Database['public']['Tables']['goal_profiles']['Row'];
+
+export type GoalProfileInput = Pick<GoalProfile, 'name' | 'day_type'> & {
+  weekdays: string[];
+  target_calories?: number;
+  target_protein_ratio?: number;
+  target_carbs_ratio?: number;
+  target_fat_ratio?: number;
+};
+
+/**
+ * @param channelName - Unique realtime channel name for the calling component.
+ */
+export const useGoalProfiles = (channelName: string) => {
+  const { user } = useAuth();
+  const { handleError } = useErrorHandling();
+  const [profiles, setProfiles] = useState<GoalProfile[]>([]);
+  const [workoutDays, setWorkoutDays] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchProfiles = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('goal_profiles')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setProfiles(data || []);
+
+      const { data: profileData, error: profileError } = await supabase
+        .from('user_profiles')
+        .select('preferred_workout_days')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+      setWorkoutDays(profileData?.preferred_workout_days || []);
+    } catch (error) {
+      console.error('Error fetching goal profiles:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchProfiles();
+
+    const subscription = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'goal_profiles',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchProfiles();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id, channelName, fetchProfiles]);
+
+  /**
+   * Creates a goal profile, or updates it when an id is given. A weekday can be
+   * assigned to one profile only.
+   * @returns The stored goal profile.
+   */
+  const saveGoalProfile = useCallback(async (input: GoalProfileInput, profileId?: string): Promise<GoalProfile> => {
+    if (!user?.id) throw new Error('User must be logged in to save goal profiles');
+
+    setIsSaving(true);
+    try {
+      const parsed = goalProfileSchema.parse(input);
+      const conflict = profiles.find(profile =>
+        profile.id !== profileId && profile.weekdays?.some(weekday => (parsed.weekdays as string[]).includes(weekday))
+      );
+      if (conflict) {
+        throw new Error(`Some of these weekdays are already assigned to "${conflict.name}"`);
+      }
+
+      const row = {
+        ...parsed,
+        target_calories: parsed.target_calories ?? null,
+        target_protein_ratio: parsed.target_protein_ratio ?? null,
+        target_carbs_ratio: parsed.target_carbs_ratio ?? null,
+        target_fat_ratio: parsed.target_fat_ratio ?? null,
+      };
+
+      const query = profileId
+        ? supabase
+            .from('goal_profiles')
+            .update({ ...row, updated_at: new Date().toISOString() })
+            .eq('id', profileId)
+            .eq('user_id', user.id)
+        : supabase
+            .from('goal_profiles')
+            .insert([{ ...row, user_id: user.id }]);
+
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      setProfiles(prev => [...prev.filter(profile => profile.id !== data.id), data]);
+      return data;
+    } catch (error) {
+      handleError(error, 'Saving goal profile');
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [handleError, profiles, user?.id]);
+
+  /**
+   * Deletes a goal profile; its days fall back to the base goals.
+   */
+  const deleteGoalProfile = useCallback(async (profileId: string) => {
+    if (!user?.id) throw new Error('User must be logged in to delete goal profiles');
+
+    try {
+      const { error } = await supabase
+        .from('goal_profiles')
+        .delete()
+        .eq('id', profileId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setProfiles(prev => prev.filter(profile => profile.id !== profileId));
+    } catch (error) {
+      handleError(error, 'Deleting goal profile');
+      throw error;
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Returns the targets that apply to a day and the profile they come from.
+   * @param date - The day, formatted yyyy-MM-dd.
+   * @param baseGoals - The user's base targets from user_goals.
+   */
+  const getGoalsForDate = useCallback(
+    <G extends GoalTargets>(date: string, baseGoals: G | null) => resolveGoalsForDate(date, baseGoals, profiles, workoutDays),
+    [profiles, workoutDays]
+  );
+
+  return {
+    profiles,
+    workoutDays,
+    isLoading,
+    isSaving,
+    saveGoalProfile,
+    deleteGoalProfile,
+    getGoalsForDate,
+  };
+};
@@ -2,44 +2,68 @@
 // This custom hook encapsulates the logic for logging meals,
 // managing state related to meal entry, and interacting with the
 // n8n meal logging workflow via the n8nWebhooks service.
+// Meals can also be copied onto another date; copies are logged like new
+// meals, so their totals are recalculated and the workflow runs for each.
+// Meals logged while offline are kept in the offline queue and synced later.
 
 import { useState, useCallback } from 'react';
 import { useErrorHandling } from './useErrorHandling';
 import { useAuth } from './useAuth';
-import { logMeal, MealLogData } from '../services/n8nWebhooks';
+import { logMeal, updateMealLog, deleteMealLog, MealLogData } from '../services/n8nWebhooks';
 import { mealLogSchema, foodItemSchema } from '../utils/validation';
 import { z } from 'zod';
 import { supabase } from '../services/supabase';
+import { StoredMeal, toMealLogData } from '../services/meals';
+import { createClientRequestId, enqueueMeal, PendingMeal } from '../services/offlineQueue';
+import { isNetworkError } from '../utils/errorHandling';
 
 // Define types for meal and food items based on Zod schemas
 export type FoodItemData = z.infer<typeof foodItemSchema>;
 
+// A stored meal log together with its food items, as shown in the meal history
+export type LoggedMeal = StoredMeal;
+
+// Returned by submitMealLog when the meal was queued because the network is down
+export interface QueuedMealResult {
+  queued: true;
+  pending: PendingMeal;
+}
+
 export const useMealLogging = () => {
   const [isLogging, setIsLogging] = useState(false);
   const [logSuccess, setLogSuccess] = useState(false);
   const { handleError } = useErrorHandling();
   const { user } = useAuth();
 
-  const fetchMealLogs = useCallback(async () => {
-    if (!user?.id) return null;
-    
+  /**
+   * Fetches the meals of the user eaten between two dates (inclusive), newest first.
+   * @param startDate - First meal date to include, formatted yyyy-MM-dd.
+   * @param endDate - Last meal date to include, formatted yyyy-MM-dd.
+   */
+  const fetchMealLogs = useCallback(async (startDate: string, endDate: string): Promise<LoggedMeal[]> => {
+    if (!user?.id) return [];
+
     const { data: mealLogs, error: mealLogsError } = await supabase
       .from('meal_logs')
-      .select('*')
+      .select('*, meal_food_items(*)')
       .eq('user_id', user.id)
-      .gte('created_at', new Date().toISOString())
-      .order('created_at', { ascending: true });
+      .gte('meal_date', startDate)
+      .lte('meal_date', endDate)
+      .order('meal_date', { ascending: false })
+      .order('meal_time', { ascending: false });
 
     if (mealLogsError) {
-      console.error('Error fetching meal logs:', mealLogsError);
-      return null;
+      handleError(mealLogsError, 'Loading meal history');
+      return [];
     }
 
-    return mealLogs;
-  }, [user?.id]);
+    return (mealLogs || []) as LoggedMeal[];
+  }, [handleError, user?.id]);
 
   /**
    * Submits meal data to the n8n meal logging workflow.
+   * If the server cannot be reached, the meal is stored in the offline queue instead
+   * and a QueuedMealResult is returned; it is sent automatically once back online.
    * @param mealData - The complete meal log data.
    */
   const submitMealLog = useCallback(async (mealData: Omit<MealLogData, 'user_id' | 'created_at'>) => {
@@ -47,19 +71,30 @@ export const useMealLogging = () => {
     
     setIsLogging(true);
     setLogSuccess(false);
-    try {
-      const completeMealData: MealLogData = {
-        ...mealData,
-        user_id: user.id,
-        created_at: new Date().toISOString()
-      };
+    const completeMealData = {
+      ...mealData,
+      user_id: user.id,
+      created_at: new Date().toISOString(),
+      client_request_id: mealData.client_request_id || createClientRequestId(),
+    };
 
+    try {
       mealLogSchema.parse(completeMealData);
       const response = await logMeal(completeMealData);
       console.log('Meal logged successfully:', response);
       setLogSuccess(true);
       return response;
     } catch (error) {
+      if (isNetworkError(error) && !(error instanceof z.ZodError)) {
+        try {
+          const pending = await enqueueMeal(completeMealData);
+          setLogSuccess(true);
+          return { queued: true, pending } as QueuedMealResult;
+        } catch (queueError) {
+          console.error('Error queueing meal for offline sync:', queueError);
+        }
+      }
+
       handleError(error);
       setLogSuccess(false);
       throw error;
@@ -68,10 +103,92 @@ export const useMealLogging = () => {
     }
   }, [handleError, user?.id]);
 
+  /**
+   * Updates a previously logged meal and notifies the n8n meal logging workflow.
+   * @param mealLogId - The id of the meal log to update.
+   * @param mealData - The edited meal data.
+   */
+  const updateMeal = useCallback(async (mealLogId: string, mealData: Omit<MealLogData, 'user_id'>) => {
+    if (!user?.id) throw new Error('User must be logged in to edit meals');
+
+    setIsLogging(true);
+    try {
+      const completeMealData: MealLogData = { ...mealData, user_id: user.id };
+
+      mealLogSchema.parse(completeMealData);
+      return await updateMealLog(mealLogId, completeMealData);
+    } catch (error) {
+      handleError(error, 'Updating meal');
+      throw error;
+    } finally {
+      setIsLogging(false);
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Deletes a previously logged meal and notifies the n8n meal logging workflow.
+   * @param meal - The stored meal log to delete.
+   */
+  const deleteMeal = useCallback(async (meal: LoggedMeal) => {
+    if (!user?.id) throw new Error('User must be logged in to delete meals');
+
+    setIsLogging(true);
+    try {
+      return await deleteMealLog(meal.id);
+    } catch (error) {
+      handleError(error, 'Deleting meal');
+      throw error;
+    } finally {
+      setIsLogging(false);
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Logs a copy of a meal on another date, optionally as another meal type.
+   * @param meal - The stored meal to copy.
+   * @param target - The date and optional meal type of the copy.
+   */
+  const copyMeal = useCallback(async (meal: LoggedMeal, target: { meal_date: string; meal_type?: string }) => {
+    const { meal_time, notes, food_items } = toMealLogData(meal);
+    return submitMealLog({
+      meal_type: target.meal_type || meal.meal_type,
+      meal_date: target.meal_date,
+      meal_time,
+      notes,
+      food_items,
+    });
+  }, [submitMealLog]);
+
+  /**
+   * Logs copies of all meals of one day on another date.
+   * Meals are copied one by one, so a failure leaves the earlier copies in place.
+   * @param fromDate - The day to copy, formatted yyyy-MM-dd.
+   * @param toDate - The day to copy the meals onto, formatted yyyy-MM-dd.
+   * @param mealType - Optional meal type for all copies; by default each keeps its own.
+   * @returns The number of meals copied.
+   */
+  const copyDay = useCallback(async (fromDate: string, toDate: string, mealType?: string): Promise<number> => {
+    const meals = await fetchMealLogs(fromDate, fromDate);
+    if (meals.length === 0) {
+      throw new Error('There are no meals logged on that day to copy');
+    }
+
+    // Copy in the order the meals were eaten
+    const ordered = [...meals].sort((a, b) => a.meal_time.localeCompare(b.meal_time));
+    for (const meal of ordered) {
+      await copyMeal(meal, { meal_date: toDate, meal_type: mealType });
+    }
+    return ordered.length;
+  }, [copyMeal, fetchMealLogs]);
+
   return {
     isLogging,
     logSuccess,
     submitMealLog,
-    fetchMealLogs
+    fetchMealLogs,
+    updateMeal,
+    deleteMeal,
+    copyMeal,
+    copyDay
   };
 };
@@ -0,0 +1,151 @@
+// src/hooks/useMealParser.ts
+// This custom hook turns a free-text meal description typed into the chat widget
+// into a meal that can be confirmed and logged. Food phrases read by the local
+// parser (utils/mealParser) are matched against food_items and the user's recipes,
+// phrases joined by "and" or "with" as a whole before they are split;
+// when some of them cannot be matched and the message reads as a meal entry, the
+// optional n8n Meal Parsing Workflow is asked instead. Parsed meals are stored on their chat message with confirmed set to
+// false, and confirmParsedMeal marks the message once the meal has been logged.
+
+import { useState, useCallback } from 'react';
+import { supabase } from '../services/supabase';
+import { parseMealMessage } from '../services/n8nWebhooks';
+import { MealDraft } from '../services/mealDraft';
+import { createClientRequestId } from '../services/offlineQueue';
+import { useAuth } from './useAuth';
+import { useRecipes } from './useRecipes';
+import {
+  parseMealText,
+  getFoodNameCandidates,
+  looksLikeMealEntry,
+  matchFoodPhrases,
+  pickBestFoodMatch,
+  toParsedFoodItem,
+} from '../utils/mealParser';
+import { FOOD_ITEM_COLUMNS, ServingFood } from '../utils/nutrition';
+import { recipeToServingFood } from '../utils/recipes';
+import { getVisibleFoodsFilter } from '../utils/customFoods';
+
+export const MEAL_ENTRY_RESPONSE = 'meal_entry';
+
+// Stored as the response of the chat message that proposes a parsed meal
+export interface MealEntryResponse {
+  type: typeof MEAL_ENTRY_RESPONSE;
+  meal: Omit<MealDraft, 'chat_interaction_id'>;
+  unmatched: string[]; // Phrases no food was found for
+  source: 'local' | 'n8n';
+}
+
+export const isMealEntryResponse = (response: unknown): response is MealEntryResponse =>
+  typeof response === 'object'
+  && response !== null
+  && (response as { type?: unknown }).type === MEAL_ENTRY_RESPONSE;
+
+// Characters with a meaning in PostgREST filters, dropped from search terms
+const FILTER_CHARACTERS = /[,()%*\\]/g;
+
+export const useMealParser = () => {
+  const { user } = useAuth();
+  const { searchRecipes } = useRecipes();
+  const [isParsing, setIsParsing] = useState(false);
+
+  // Finds the food or recipe that best matches a parsed food name
+  const findFood = useCallback(async (name: string): Promise<ServingFood | undefined> => {
+    const candidates = getFoodNameCandidates(name)
+      .map(candidate => candidate.replace(FILTER_CHARACTERS, '').trim())
+      .filter(Boolean);
+    if (candidates.length === 0) return undefined;
+
+    const { data, error } = await supabase
+      .from('food_items')
+      .select(FOOD_ITEM_COLUMNS)
+      .or(getVisibleFoodsFilter(user?.id))
+      .or(candidates.map(candidate => `name.ilike.%${candidate}%`).join(','))
+      .limit(10)
+      .returns<Array<ServingFood & { id: string }>>();
+
+    if (error) throw error;
+
+    const recipes = await searchRecipes(candidates[candidates.length - 1], 5);
+    return pickBestFoodMatch(name, [...recipes.map(recipeToServingFood), ...(data || [])]);
+  }, [searchRecipes, user?.id]);
+
+  /**
+   * Parses a meal description into a meal ready for confirmation.
+   * @param text - The sentence the user typed, e.g. "two eggs and toast for breakfast".
+   * @returns The parsed meal, or null when the text does not describe any known food.
+   */
+  const parseMeal = useCallback(async (text: string): Promise<MealEntryResponse | null> => {
+    const parsed = parseMealText(text);
+    if (parsed.items.length === 0) return null;
+
+    setIsParsing(true);
+    try {
+      const matches = (await Promise.all(parsed.items.map(phrase => matchFoodPhrases(phrase, findFood)))).flat();
+
+      const foodItems = matches.flatMap(({ phrase, food }) => (food ? [toParsedFoodItem(phrase, food)] : []));
+      const unmatched = matches.filter(({ food }) => !food).map(({ phrase }) => phrase.text);
+      const meal = {
+        meal_type: parsed.meal_type,
+        meal_date: parsed.meal_date,
+        meal_time: parsed.meal_time,
+        food_items: foodItems,
+        notes: text,
+        // Confirming the same chat message twice must not log the meal twice
+        client_request_id: createClientRequestId(),
+      };
+
+      // Questions and other chat messages are left to the chat workflow
+      if (unmatched.length > 0 && looksLikeMealEntry(text, parsed)) {
+        try {
+          const workflowMeal = await parseMealMessage(text);
+          if (workflowMeal && workflowMeal.food_items.length >= Math.max(foodItems.length, 1)) {
+            return {
+              type: MEAL_ENTRY_RESPONSE,
+              meal: {
+                ...meal,
+                // Meal details the user stated explicitly win over the workflow's guess
+                meal_type: parsed.meal_type_explicit ? parsed.meal_type : workflowMeal.meal_type || parsed.meal_type,
+                meal_time: workflowMeal.meal_time || parsed.meal_time,
+                food_items: workflowMeal.food_items,
+              },
+              unmatched: [],
+              source: 'n8n',
+            };
+          }
+        } catch (error) {
+          // The workflow is only a fallback; keep whatever was matched locally
+          console.error('Error parsing meal with n8n:', error);
+        }
+      }
+
+      if (foodItems.length === 0) return null;
+      return { type: MEAL_ENTRY_RESPONSE, meal, unmatched, source: 'local' };
+    } finally {
+      setIsParsing(false);
+    }
+  }, [findFood]);
+
+  /**
+   * Marks the chat message a parsed meal was proposed in as confirmed, once the meal
+   * has been logged.
+   * @param interactionId - The id of the chat_interactions row.
+   */
+  const confirmParsedMeal = useCallback(async (interactionId: string) => {
+    if (!user?.id) return;
+
+    const { error } = await supabase
+      .from('chat_interactions')
+      .update({ confirmed: true })
+      .eq('id', interactionId)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  }, [user?.id]);
+
+  return {
+    isParsing,
+    parseMeal,
+    confirmParsedMeal,
+  };
+};
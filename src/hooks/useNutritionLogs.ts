@@ -0,0 +1,87 @@
+// src/hooks/useNutritionLogs.ts
+// This custom hook reads the per-day nutrition_logs rollup of the current user.
+// The rollup is maintained by the /api/meals routes whenever meals are created,
+// edited or deleted, so dashboard widgets read daily totals from here instead of
+// summing meal_logs themselves. Changes are picked up through Supabase realtime.
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../services/supabase';
+import { useAuth } from './useAuth';
+import { Database } from '../types/database.types';
+
+export type NutritionLog = Database['public']['Tables']['nutrition_logs']['Row'];
+
+/**
+ * Loads the nutrition_logs rows of the current user between two dates (inclusive).
+ * Days without meals have no row.
+ * @param startDate - First day to include, formatted yyyy-MM-dd.
+ * @param endDate - Last day to include, formatted yyyy-MM-dd.
+ * @param channelName - Unique realtime channel name for the calling component.
+ */
+export const useNutritionLogs = (startDate: string, endDate: string, channelName: string) => {
+  const { user } = useAuth();
+  const [logs, setLogs] = useState<NutritionLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchLogs = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('nutrition_logs')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+      setLogs(data || []);
+    } catch (error) {
+      console.error('Error fetching nutrition logs:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id, startDate, endDate]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchLogs();
+
+    const subscription = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'nutrition_logs',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchLogs();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id, channelName, fetchLogs]);
+
+  /**
+   * Returns the rollup of a single day, or undefined if nothing was logged that day.
+   */
+  const getLogForDate = useCallback(
+    (date: string) => logs.find(log => log.date === date),
+    [logs]
+  );
+
+  return {
+    logs,
+    isLoading,
+    getLogForDate,
+    refetch: fetchLogs,
+  };
+};
@@ -0,0 +1,98 @@
+// src/hooks/useOfflineMealQueue.ts
+// This custom hook exposes the offline meal queue to the UI. It lists the meals
+// still waiting to be sent and lets users retry or discard a pending meal. With
+// autoSync, it also replays the queue on mount and whenever the browser comes back
+// online; the app mounts exactly one such instance (OfflineMealSync).
+
+import { useState, useCallback, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { useErrorHandling } from './useErrorHandling';
+import { logMeal } from '../services/n8nWebhooks';
+import {
+  getPendingMeals,
+  removePendingMeal,
+  replayPendingMeals,
+  PendingMeal,
+  QUEUE_CHANGED_EVENT,
+} from '../services/offlineQueue';
+
+export const useOfflineMealQueue = ({ autoSync = false }: { autoSync?: boolean } = {}) => {
+  const { user } = useAuth();
+  const { handleError, showToast } = useErrorHandling();
+  const [pendingMeals, setPendingMeals] = useState<PendingMeal[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const loadPendingMeals = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      setPendingMeals(await getPendingMeals(user.id));
+    } catch (error) {
+      console.error('Error reading offline meal queue:', error);
+    }
+  }, [user?.id]);
+
+  /**
+   * Sends all pending meals now, oldest first.
+   */
+  const syncNow = useCallback(async () => {
+    if (!user?.id) return;
+
+    setIsSyncing(true);
+    try {
+      const { synced, remaining } = await replayPendingMeals(user.id, logMeal);
+      if (synced > 0) {
+        showToast({
+          title: 'Offline meals synced',
+          description: `${synced} ${synced === 1 ? 'meal was' : 'meals were'} logged${remaining > 0 ? `, ${remaining} still pending` : ''}.`,
+          status: 'success',
+        });
+      }
+    } catch (error) {
+      handleError(error, 'Syncing offline meals');
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [handleError, showToast, user?.id]);
+
+  /**
+   * Removes a pending meal without logging it.
+   */
+  const discardPendingMeal = useCallback(async (id: string) => {
+    try {
+      await removePendingMeal(id);
+    } catch (error) {
+      handleError(error, 'Discarding pending meal');
+    }
+  }, [handleError]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    loadPendingMeals();
+    window.addEventListener(QUEUE_CHANGED_EVENT, loadPendingMeals);
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED_EVENT, loadPendingMeals);
+    };
+  }, [user?.id, loadPendingMeals]);
+
+  useEffect(() => {
+    if (!autoSync || !user?.id) return;
+
+    if (navigator.onLine) {
+      syncNow();
+    }
+
+    window.addEventListener('online', syncNow);
+    return () => {
+      window.removeEventListener('online', syncNow);
+    };
+  }, [autoSync, user?.id, syncNow]);
+
+  return {
+    pendingMeals,
+    isSyncing,
+    syncNow,
+    discardPendingMeal,
+  };
+};
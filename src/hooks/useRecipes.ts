@@ -0,0 +1,143 @@
+// src/hooks/useRecipes.ts
+// This custom hook manages the user's recipes: home-cooked dishes made of several
+// ingredients with a number of servings and an optional total yield. Recipes are
+// logged like any other food, with their per-serving nutrition calculated from the
+// ingredients (see utils/recipes).
+
+import { useState, useCallback } from 'react';
+import { supabase } from '../services/supabase';
+import { recipeSchema } from '../utils/validation';
+import { Recipe } from '../utils/recipes';
+import { useAuth } from './useAuth';
+import { useErrorHandling } from './useErrorHandling';
+
+export type RecipeInput = Pick<Recipe, 'name' | 'servings' | 'ingredients'> & {
+  total_yield?: number;
+  yield_unit?: string;
+  notes?: string;
+};
+
+export const useRecipes = () => {
+  const { user } = useAuth();
+  const { handleError } = useErrorHandling();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Loads all recipes of the current user, alphabetically.
+   */
+  const fetchRecipes = useCallback(async () => {
+    if (!user?.id) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('recipes')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setRecipes(data || []);
+    } catch (error) {
+      handleError(error, 'Loading recipes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Searches the current user's recipes by name.
+   * @param searchTerm - Part of the recipe name.
+   * @param limit - The maximum number of recipes to return.
+   */
+  const searchRecipes = useCallback(async (searchTerm: string, limit = 10): Promise<Recipe[]> => {
+    if (!user?.id || !searchTerm.trim()) return [];
+
+    const { data, error } = await supabase
+      .from('recipes')
+      .select('*')
+      .eq('user_id', user.id)
+      .ilike('name', `%${searchTerm.trim()}%`)
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }, [user?.id]);
+
+  /**
+   * Creates a recipe, or updates it when an id is given.
+   * @param input - The recipe values.
+   * @param recipeId - The id of the recipe to update.
+   * @returns The stored recipe.
+   */
+  const saveRecipe = useCallback(async (input: RecipeInput, recipeId?: string): Promise<Recipe> => {
+    if (!user?.id) throw new Error('User must be logged in to save recipes');
+
+    setIsSaving(true);
+    try {
+      const parsed = recipeSchema.parse(input);
+      const row = {
+        ...parsed,
+        total_yield: parsed.total_yield ?? null,
+        yield_unit: parsed.total_yield ? parsed.yield_unit : null,
+        notes: parsed.notes || null,
+      };
+
+      const query = recipeId
+        ? supabase
+            .from('recipes')
+            .update({ ...row, updated_at: new Date().toISOString() })
+            .eq('id', recipeId)
+            .eq('user_id', user.id)
+        : supabase
+            .from('recipes')
+            .insert([{ ...row, user_id: user.id }]);
+
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      setRecipes(prev =>
+        [...prev.filter(recipe => recipe.id !== data.id), data].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      return data;
+    } catch (error) {
+      handleError(error, 'Saving recipe');
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Deletes a recipe. Meals already logged with it keep their nutrition values.
+   */
+  const deleteRecipe = useCallback(async (recipeId: string) => {
+    if (!user?.id) throw new Error('User must be logged in to delete recipes');
+
+    try {
+      const { error } = await supabase
+        .from('recipes')
+        .delete()
+        .eq('id', recipeId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setRecipes(prev => prev.filter(recipe => recipe.id !== recipeId));
+    } catch (error) {
+      handleError(error, 'Deleting recipe');
+      throw error;
+    }
+  }, [handleError, user?.id]);
+
+  return {
+    recipes,
+    isLoading,
+    isSaving,
+    fetchRecipes,
+    searchRecipes,
+    saveRecipe,
+    deleteRecipe,
+  };
+};
@@ -0,0 +1,147 @@
+// src/hooks/useSavedMeals.ts
+// This custom hook manages the user's saved meals: reusable templates of a name,
+// a default meal type and a list of food items. Saved meals can be created from
+// the meal logger form or from a logged meal, and logged again in one action
+// through useMealLogging.submitMealLog.
+
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '../services/supabase';
+import { MealLogData } from '../services/n8nWebhooks';
+import { Database } from '../types/database.types';
+import { savedMealSchema } from '../utils/validation';
+import { useAuth } from './useAuth';
+import { useErrorHandling } from './useErrorHandling';
+import { useMealLogging } from './useMealLogging';
+
+export type SavedMeal = Database['public']['Tables']['saved_meals']['Row'];
+
+export interface SavedMealInput {
+  name: string;
+  meal_type: string;
+  food_items: MealLogData['food_items'];
+}
+
+export const useSavedMeals = () => {
+  const { user } = useAuth();
+  const { handleError } = useErrorHandling();
+  const { submitMealLog, isLogging } = useMealLogging();
+  const [savedMeals, setSavedMeals] = useState<SavedMeal[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Loads the saved meals of the current user, most recently used first.
+   */
+  const fetchSavedMeals = useCallback(async () => {
+    if (!user?.id) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('saved_meals')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setSavedMeals(data || []);
+    } catch (error) {
+      handleError(error, 'Loading saved meals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Saves a new meal template for the current user.
+   * @param input - The name, default meal type and food items of the template.
+   * @returns The stored saved meal.
+   */
+  const saveMeal = useCallback(async (input: SavedMealInput): Promise<SavedMeal> => {
+    if (!user?.id) throw new Error('User must be logged in to save meals');
+
+    setIsSaving(true);
+    try {
+      const parsed = savedMealSchema.parse(input);
+      const { data, error } = await supabase
+        .from('saved_meals')
+        .insert([{ ...parsed, user_id: user.id }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      setSavedMeals(prev => [data, ...prev]);
+      return data;
+    } catch (error) {
+      handleError(error, 'Saving meal');
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Deletes a saved meal. Meals already logged from it are not affected.
+   */
+  const deleteSavedMeal = useCallback(async (savedMealId: string) => {
+    if (!user?.id) throw new Error('User must be logged in to delete saved meals');
+
+    try {
+      const { error } = await supabase
+        .from('saved_meals')
+        .delete()
+        .eq('id', savedMealId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setSavedMeals(prev => prev.filter(meal => meal.id !== savedMealId));
+    } catch (error) {
+      handleError(error, 'Deleting saved meal');
+      throw error;
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Logs a saved meal for now, using its default meal type unless another is given.
+   * @param savedMeal - The saved meal to log.
+   * @param mealType - Optional meal type overriding the saved default.
+   */
+  const logSavedMeal = useCallback(async (savedMeal: SavedMeal, mealType?: string) => {
+    const now = new Date();
+    const response = await submitMealLog({
+      meal_type: mealType || savedMeal.meal_type,
+      meal_date: format(now, 'yyyy-MM-dd'),
+      meal_time: format(now, 'HH:mm'),
+      food_items: savedMeal.food_items,
+      notes: `Logged from saved meal "${savedMeal.name}"`,
+    });
+
+    // Touch the template so frequently used meals stay at the top of the list
+    const { error } = await supabase
+      .from('saved_meals')
+      .update({ updated_at: now.toISOString() })
+      .eq('id', savedMeal.id);
+    if (error) {
+      console.error('Error updating saved meal usage:', error);
+    } else {
+      setSavedMeals(prev => [
+        { ...savedMeal, updated_at: now.toISOString() },
+        ...prev.filter(meal => meal.id !== savedMeal.id),
+      ]);
+    }
+
+    return response;
+  }, [submitMealLog]);
+
+  return {
+    savedMeals,
+    isLoading,
+    isSaving,
+    isLogging,
+    fetchSavedMeals,
+    saveMeal,
+    deleteSavedMeal,
+    logSavedMeal,
+  };
+};
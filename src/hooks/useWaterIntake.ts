@@ -0,0 +1,192 @@
+// src/hooks/useWaterIntake.ts
+// This custom hook manages the water_logs of the current user between two dates:
+// loading them with the user's daily water intake goal, adding and removing entries,
+// and summing the intake per day. Changes made in other views are picked up through
+// Supabase realtime.
+
+import { useState, useCallback, useEffect } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '../services/supabase';
+import { Database } from '../types/database.types';
+import { waterLogSchema } from '../utils/validation';
+import { BeverageId, getWaterGoalMl } from '../utils/hydration';
+import { useAuth } from './useAuth';
+import { useErrorHandling } from './useErrorHandling';
+
+export type WaterLog = Database['public']['Tables']['water_logs']['Row'];
+
+/**
+ * Loads the water_logs of the current user between two dates (inclusive).
+ * @param startDate - First day to include, formatted yyyy-MM-dd.
+ * @param endDate - Last day to include, formatted yyyy-MM-dd.
+ * @param channelName - Unique realtime channel name for the calling component.
+ */
+export const useWaterIntake = (startDate: string, endDate: string, channelName: string) => {
+  const { user } = useAuth();
+  const { handleError } = useErrorHandling();
+  const [logs, setLogs] = useState<WaterLog[]>([]);
+  const [goalMl, setGoalMl] = useState(getWaterGoalMl());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchLogs = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('water_logs')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('log_date', startDate)
+        .lte('log_date', endDate)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setLogs(data || []);
+    } catch (error) {
+      console.error('Error fetching water logs:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id, startDate, endDate]);
+
+  const fetchGoal = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_goals')
+        .select('water_intake_goal')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setGoalMl(getWaterGoalMl(data?.water_intake_goal));
+    } catch (error) {
+      console.error('Error fetching water intake goal:', error);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchLogs();
+    fetchGoal();
+
+    const subscription = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'water_logs',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchLogs();
+        }
+      )
+      // The goal is changed in goal settings
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'user_goals',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchGoal();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id, channelName, fetchLogs, fetchGoal]);
+
+  /**
+   * Logs an amount of a beverage.
+   * @param amountMl - The amount drunk, in ml.
+   * @param beverage - The beverage id from utils/hydration.
+   * @param date - The day to log it for, formatted yyyy-MM-dd; defaults to today.
+   * @returns The stored water log.
+   */
+  const addWater = useCallback(async (
+    amountMl: number,
+    beverage: BeverageId = 'water',
+    date: string = format(new Date(), 'yyyy-MM-dd'),
+  ): Promise<WaterLog> => {
+    if (!user?.id) throw new Error('User must be logged in to log water intake');
+
+    setIsSaving(true);
+    try {
+      const parsed = waterLogSchema.parse({ amount_ml: amountMl, beverage, log_date: date });
+      const { data, error } = await supabase
+        .from('water_logs')
+        .insert([{ ...parsed, user_id: user.id }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      setLogs(prev => [...prev.filter(log => log.id !== data.id), data]);
+      return data;
+    } catch (error) {
+      handleError(error, 'Logging water');
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Removes a water log, e.g. one added by mistake.
+   */
+  const deleteWaterLog = useCallback(async (logId: string) => {
+    if (!user?.id) throw new Error('User must be logged in to delete water logs');
+
+    try {
+      const { error } = await supabase
+        .from('water_logs')
+        .delete()
+        .eq('id', logId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setLogs(prev => prev.filter(log => log.id !== logId));
+    } catch (error) {
+      handleError(error, 'Deleting water log');
+      throw error;
+    }
+  }, [handleError, user?.id]);
+
+  /**
+   * Returns the water logs of a single day, in the order they were logged.
+   */
+  const getLogsForDate = useCallback(
+    (date: string) => logs.filter(log => log.log_date === date),
+    [logs]
+  );
+
+  /**
+   * Returns the total amount drunk on a day, in ml.
+   */
+  const getTotalForDate = useCallback(
+    (date: string) => logs.reduce((sum, log) => (log.log_date === date ? sum + log.amount_ml : sum), 0),
+    [logs]
+  );
+
+  return {
+    logs,
+    goalMl,
+    isLoading,
+    isSaving,
+    addWater,
+    deleteWaterLog,
+    getLogsForDate,
+    getTotalForDate,
+    refetch: fetchLogs,
+  };
+};
@@ -0,0 +1,184 @@
+// src/hooks/useWeightEntries.ts
+// This custom hook manages the body weight history of the current user in
+// weight_entries: loading the entries since a date, recording one entry per day
+// (logging again on the same day replaces it) and deleting entries. After every
+// change user_profiles.weight_kg is set to the latest entry, so views and
+// calculations that read the profile weight stay current without losing history.
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../services/supabase';
+import { Database } from '../types/database.types';
+import { weightEntrySchema } from '../utils/validation';
+import { useAuth } from './useAuth';
+import { useErrorHandling } from './useErrorHandling';
+
+export type WeightEntry = Database['public']['Tables']['weight_entries']['Row'];
+
+export interface WeightEntryInput {
+  entry_date: string;
+  weight_kg: number;
+  body_fat_percentage?: number;
+}
+
+/**
+ * Loads the weight entries of the current user from a date until today.
+ * @param startDate - First day to include, formatted yyyy-MM-dd.
+ * @param channelName - Unique realtime channel name for the calling component.
+ */
+export const useWeightEntries = (startDate: string, channelName: string) => {
+  const { user } = useAuth();
+  const { handleError } = useErrorHandling();
+  const [entries, setEntries] = useState<WeightEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchEntries = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('weight_entries')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('entry_date', startDate)
+        .order('entry_date', { ascending: true });
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching weight entries:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id, startDate]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchEntries();
+
+    const subscription = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'weight_entries',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchEntries();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id, channelName, fetchEntries]);
+
+  // Copies the latest entry's weight to the profile
+  const syncProfileWeight = useCallback(async (userId: string) => {
+    const { data: latest, error } = await supabase
+      .from('weight_entries')
+      .select('weight_kg')
+      .eq('user_id', userId)
+      .order('entry_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!latest) return;
+
+    const { error: profileError } = await supabase
+      .from('user_profiles')
+      .update({ weight_kg: latest.weight_kg, updated_at: new Date().toISOString() })
+      .eq('user_id', userId);
+
+    if (profileError) throw profileError;
+  }, []);
+
+  /**
+   * Records the weight of a day, replacing an earlier entry of the same day.
+   * @param input - The date, weight and optional body fat percentage.
+   * @returns The stored weight entry.
+   */
+  const saveWeightEntry = useCallback(async (input: WeightEntryInput): Promise<WeightEntry> => {
+    if (!user?.id) throw new Error('User must be logged in to log weight');
+
+    setIsSaving(true);
+    try {
+      const parsed = weightEntrySchema.parse(input);
+      const { data, error } = await supabase
+        .from('weight_entries')
+        .upsert(
+          [{
+            ...parsed,
+            body_fat_percentage: parsed.body_fat_percentage ?? null,
+            user_id: user.id,
+            updated_at: new Date().toISOString(),
+          }],
+          { onConflict: 'user_id,entry_date' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      setEntries(prev =>
+        [...prev.filter(entry => entry.entry_date !== data.entry_date), data]
+          .sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+      );
+
+      try {
+        await syncProfileWeight(user.id);
+      } catch (syncError) {
+        // The entry is stored; only the profile weight lags behind until the next entry
+        console.error('Error updating profile weight:', syncError);
+      }
+      return data;
+    } catch (error) {
+      handleError(error, 'Logging weight');
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [handleError, syncProfileWeight, user?.id]);
+
+  /**
+   * Deletes a weight entry.
+   */
+  const deleteWeightEntry = useCallback(async (entryId: string) => {
+    if (!user?.id) throw new Error('User must be logged in to delete weight entries');
+
+    try {
+      const { error } = await supabase
+        .from('weight_entries')
+        .delete()
+        .eq('id', entryId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setEntries(prev => prev.filter(entry => entry.id !== entryId));
+
+      try {
+        await syncProfileWeight(user.id);
+      } catch (syncError) {
+        console.error('Error updating profile weight:', syncError);
+      }
+    } catch (error) {
+      handleError(error, 'Deleting weight entry');
+      throw error;
+    }
+  }, [handleError, syncProfileWeight, user?.id]);
+
+  return {
+    entries,
+    latestEntry: entries.length > 0 ? entries[entries.length - 1] : null,
+    isLoading,
+    isSaving,
+    saveWeightEntry,
+    deleteWeightEntry,
+    refetch: fetchEntries,
+  };
+};
@@ -4,6 +4,7 @@ import { ChakraProvider } from '@chakra-ui/react';
 import theme from '../theme';
 import { AuthProvider } from '../hooks/useAuth';
 import ErrorBoundary from '../components/shared/ErrorBoundary';
+import OfflineMealSync from '../components/shared/OfflineMealSync';
 import '../styles/globals.css';
 
 function MyApp({ Component, pageProps }: AppProps) {
@@ -11,6 +12,7 @@ function MyApp({ Component, pageProps }: AppProps) {
     <ErrorBoundary>
       <ChakraProvider theme={theme}>
         <AuthProvider>
+          <OfflineMealSync />
           <Component {...pageProps} />
         </AuthProvider>
       </ChakraProvider>
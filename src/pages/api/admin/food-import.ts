@@ -0,0 +1,76 @@
+// src/pages/api/admin/food-import.ts
+// This Next.js API route lets admins import a nutrition dataset file into food_items
+// (services/foodImport). Files are read from the server's FOOD_IMPORT_DIR only, so a
+// request names a file inside it rather than an arbitrary path. Large dumps take a
+// long time; the import-foods CLI script is better suited for those.
+
+import path from 'path';
+import fs from 'fs';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createServerClient } from '../../../services/supabase';
+import { importFoodFile } from '../../../services/foodImport';
+import { foodImportRequestSchema } from '../../../utils/validation';
+import { getAuthenticatedUser, isAdminUser } from '../../../utils/apiAuth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Max-Age', '86400');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  if (!isAdminUser(user)) {
+    return res.status(403).json({ error: 'Only admins can import foods' });
+  }
+
+  const importDir = process.env.FOOD_IMPORT_DIR;
+  if (!importDir) {
+    return res.status(500).json({ error: 'FOOD_IMPORT_DIR is not configured' });
+  }
+
+  const parsed = foodImportRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid import request',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  const root = path.resolve(importDir);
+  const filePath = path.resolve(root, parsed.data.file);
+  if (filePath !== root && !filePath.startsWith(`${root}${path.sep}`)) {
+    return res.status(400).json({ error: 'The file must be inside the import directory' });
+  }
+  if (!fs.existsSync(filePath)) {
+    return res.status(404).json({ error: `File not found: ${parsed.data.file}` });
+  }
+
+  try {
+    const stats = await importFoodFile(createServerClient(), filePath, {
+      source: parsed.data.source,
+      format: parsed.data.format,
+      dryRun: parsed.data.dryRun,
+    });
+
+    return res.status(200).json({ data: stats, dryRun: !!parsed.data.dryRun });
+  } catch (error) {
+    console.error('Error in food import API:', error);
+    return res.status(500).json({
+      error: 'Failed to import foods',
+      details: error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,91 @@
+// src/pages/api/admin/food-review.ts
+// This Next.js API route lets admins moderate foods users shared (utils/customFoods).
+// GET lists the shared foods waiting for review, oldest first; POST verifies or
+// rejects one of them. Verified foods are shown as trusted to everyone, rejected
+// ones are hidden from everyone but their creator.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createServerClient } from '../../../services/supabase';
+import { foodReviewRequestSchema } from '../../../utils/validation';
+import { getAuthenticatedUser, isAdminUser } from '../../../utils/apiAuth';
+import { FOOD_OWNERSHIP_COLUMNS } from '../../../utils/customFoods';
+import { FOOD_ITEM_COLUMNS } from '../../../utils/nutrition';
+
+// Pending foods returned per request
+const REVIEW_QUEUE_LIMIT = 50;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Max-Age', '86400');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  if (!isAdminUser(user)) {
+    return res.status(403).json({ error: 'Only admins can review foods' });
+  }
+
+  const client = createServerClient();
+
+  try {
+    if (req.method === 'GET') {
+      const { data, error } = await client
+        .from('food_items')
+        .select(`${FOOD_ITEM_COLUMNS}, brand, ${FOOD_OWNERSHIP_COLUMNS}, created_at`)
+        .eq('visibility', 'shared')
+        .eq('verification_status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(REVIEW_QUEUE_LIMIT);
+
+      if (error) throw error;
+      return res.status(200).json({ data: data || [] });
+    }
+
+    const parsed = foodReviewRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid review request',
+        details: parsed.error.flatten(),
+      });
+    }
+
+    const { data, error } = await client
+      .from('food_items')
+      .update({
+        verification_status: parsed.data.status,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+        review_note: parsed.data.note || null,
+      })
+      .eq('id', parsed.data.foodId)
+      .eq('visibility', 'shared')
+      .select(`id, name, ${FOOD_OWNERSHIP_COLUMNS}`)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return res.status(404).json({ error: 'No shared food with this id' });
+    }
+
+    return res.status(200).json({ data });
+  } catch (error) {
+    console.error('Error in food review API:', error);
+    return res.status(500).json({
+      error: 'Failed to review foods',
+      details: error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,71 @@
+// src/pages/api/foods/index.ts
+// This Next.js API route adds a food the user entered from a nutrition label to
+// food_items (services/customFoods). The user is recorded as its creator and shared
+// foods wait for an admin to verify them, whatever the request says. A barcode that
+// is already taken is answered with 409 and the existing food, so the client can
+// offer that food instead.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createServerClient } from '../../../services/supabase';
+import { findBarcodeConflict, insertCustomFood } from '../../../services/customFoods';
+import { customFoodSchema } from '../../../utils/validation';
+import { getAuthenticatedUser } from '../../../utils/apiAuth';
+import { toCanonicalBarcode } from '../../../utils/barcode';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Max-Age', '86400');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  const parsed = customFoodSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid food data',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  const client = createServerClient();
+  const barcode = parsed.data.barcode ? toCanonicalBarcode(parsed.data.barcode) : null;
+  const findConflict = async () => (barcode ? findBarcodeConflict(client, user.id, barcode, parsed.data.visibility) : null);
+
+  try {
+    const existing = await findConflict();
+    if (existing) {
+      return res.status(409).json({ error: 'A food with this barcode already exists', data: existing });
+    }
+
+    const food = await insertCustomFood(client, user.id, parsed.data);
+    return res.status(201).json({ data: food });
+  } catch (error) {
+    // Another request added the barcode first (unique violation on barcode)
+    if ((error as { code?: string })?.code === '23505') {
+      const existing = await findConflict().catch(() => null);
+      if (existing) {
+        return res.status(409).json({ error: 'A food with this barcode already exists', data: existing });
+      }
+    }
+
+    console.error('Error in foods API:', error);
+    return res.status(500).json({
+      error: 'Failed to add food',
+      details: error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error',
+    });
+  }
+}
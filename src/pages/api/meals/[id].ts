@@ -0,0 +1,73 @@
+// src/pages/api/meals/[id].ts
+// This Next.js API route edits or deletes a previously logged meal on the server.
+// Header and food items are changed together, with the previous state restored if
+// any step fails. The nutrition_logs rollup of the affected days is refreshed and
+// the n8n Meal Logging Workflow receives an "updated" or "deleted" event once the
+// change has been committed.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createServerClient } from '../../../services/supabase';
+import { getMeal, updateMeal, deleteMeal, notifyMealLogWorkflow, syncNutritionLogs } from '../../../services/meals';
+import { mealLogSchema } from '../../../utils/validation';
+import { getAuthenticatedUser } from '../../../utils/apiAuth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Max-Age', '86400');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  const mealLogId = req.query.id as string;
+  const client = createServerClient();
+
+  try {
+    const existing = await getMeal(client, mealLogId, user.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Meal not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteMeal(client, existing);
+      await syncNutritionLogs(client, user.id, [existing.meal_date]);
+      const workflow = await notifyMealLogWorkflow('deleted', existing);
+
+      return res.status(200).json({ data: existing, workflow });
+    }
+
+    const parsed = mealLogSchema.safeParse({ ...req.body, user_id: user.id });
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid meal data',
+        details: parsed.error.flatten(),
+      });
+    }
+
+    const meal = await updateMeal(client, existing, parsed.data);
+    // A meal moved to another day changes the rollup of both days
+    await syncNutritionLogs(client, user.id, [existing.meal_date, meal.meal_date]);
+    const workflow = await notifyMealLogWorkflow('updated', meal);
+
+    return res.status(200).json({ data: meal, workflow });
+  } catch (error) {
+    console.error('Error in meal API:', error);
+    return res.status(500).json({
+      error: req.method === 'DELETE' ? 'Failed to delete meal' : 'Failed to update meal',
+      details: error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error',
+    });
+  }
+}
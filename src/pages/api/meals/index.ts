@@ -0,0 +1,79 @@
+// src/pages/api/meals/index.ts
+// This Next.js API route logs a new meal on the server. It validates the payload
+// with mealLogSchema, stores the meal header and its food items atomically (rolling
+// back on failure), refreshes the day's nutrition_logs rollup and only then forwards
+// the meal to the n8n Meal Logging Workflow, so the client never writes partial meals.
+// Submissions carrying a client_request_id are idempotent: a retry of a meal that was
+// already stored returns the stored meal without logging it or notifying n8n again.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createServerClient } from '../../../services/supabase';
+import { createMeal, findMealByClientRequestId, notifyMealLogWorkflow, syncNutritionLogs } from '../../../services/meals';
+import { mealLogSchema } from '../../../utils/validation';
+import { getAuthenticatedUser } from '../../../utils/apiAuth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Max-Age', '86400');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  const parsed = mealLogSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid meal data',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  if (parsed.data.user_id !== user.id) {
+    return res.status(403).json({ error: 'You can only log meals for your own account' });
+  }
+
+  const client = createServerClient();
+  const { client_request_id: clientRequestId } = parsed.data;
+
+  try {
+    if (clientRequestId) {
+      const existing = await findMealByClientRequestId(client, user.id, clientRequestId);
+      if (existing) {
+        return res.status(200).json({ data: existing, workflow: null, duplicate: true });
+      }
+    }
+
+    const meal = await createMeal(client, parsed.data);
+    await syncNutritionLogs(client, user.id, [meal.meal_date]);
+    const workflow = await notifyMealLogWorkflow('created', meal);
+
+    return res.status(201).json({ data: meal, workflow });
+  } catch (error) {
+    // A concurrent retry stored the meal first (unique violation on client_request_id)
+    if (clientRequestId && (error as { code?: string })?.code === '23505') {
+      const existing = await findMealByClientRequestId(client, user.id, clientRequestId).catch(() => null);
+      if (existing) {
+        return res.status(200).json({ data: existing, workflow: null, duplicate: true });
+      }
+    }
+
+    console.error('Error in meals API:', error);
+    return res.status(500).json({
+      error: 'Failed to log meal',
+      details: error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,88 @@
+// src/pages/api/n8n/meal-parse.ts
+// This Next.js API route proxies the optional n8n Meal Parsing Workflow, which turns
+// a free-text meal description into food items with nutrition. It is the fallback for
+// sentences the local parser (utils/mealParser) cannot match against food_items.
+// Items returned by the workflow are validated before they reach the client.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+import { foodItemSchema } from '../../../utils/validation';
+import { getAuthenticatedUser } from '../../../utils/apiAuth';
+import { N8N_WEBHOOK_URLS } from '../../../utils/constants';
+
+const parsedMealSchema = z.object({
+  meal_type: z.enum(['breakfast', 'lunch', 'dinner', 'snack', 'other']).optional(),
+  meal_time: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+  food_items: z.array(z.unknown()).default([]),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Handle CORS preflight request
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Max-Age', '86400');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  if (!N8N_WEBHOOK_URLS.MEAL_PARSE) {
+    return res.status(501).json({ error: 'Meal parsing workflow is not configured' });
+  }
+
+  const { message } = req.body;
+  if (typeof message !== 'string' || !message.trim()) {
+    return res.status(400).json({ error: 'Message is required' });
+  }
+
+  try {
+    const n8nResponse = await fetch(N8N_WEBHOOK_URLS.MEAL_PARSE, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        user_id: user.id,
+        message,
+        created_at: new Date().toISOString(),
+      }),
+    });
+
+    if (!n8nResponse.ok) {
+      const errorData = await n8nResponse.text();
+      console.error(`Error from n8n meal parsing webhook (Status: ${n8nResponse.status}):`, errorData);
+      throw new Error(`n8n meal parsing webhook failed with status: ${n8nResponse.status}`);
+    }
+
+    const parsed = parsedMealSchema.safeParse(await n8nResponse.json());
+    if (!parsed.success) {
+      console.error('Invalid response from n8n meal parsing webhook:', parsed.error.flatten());
+      throw new Error('n8n meal parsing webhook returned an invalid response');
+    }
+
+    // Keep only the items that would pass meal log validation
+    const foodItems = parsed.data.food_items.flatMap(item => {
+      const result = foodItemSchema.safeParse(item);
+      return result.success ? [result.data] : [];
+    });
+
+    return res.status(200).json({ ...parsed.data, food_items: foodItems });
+  } catch (error) {
+    console.error('API route error for n8n meal parsing:', error);
+    return res.status(500).json({
+      error: 'Failed to parse meal',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { useEffect } from 'react';
+import { useRouter } from 'next/router';
+import { Box, Spinner } from '@chakra-ui/react';
+import Recipes from '../components/meal-logging/Recipes';
+import { useAuth } from '../hooks/useAuth';
+
+export default function RecipesPage() {
+  const router = useRouter();
+  const { user, isLoading } = useAuth();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, isLoading, router]);
+
+  if (isLoading) {
+    return (
+      <Box minH="100vh" display="flex" alignItems="center" justifyContent="center">
+        <Spinner size="xl" color="accent.500" />
+      </Box>
+    );
+  }
+
+  if (!user) {
+    return null; // will redirect in useEffect
+  }
+
+  return (
+    <Box minH="100vh" bg="gray.50">
+      <Recipes />
+    </Box>
+  );
+}
\ No newline at end of file
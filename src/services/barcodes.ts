@@ -0,0 +1,82 @@
+// src/services/barcodes.ts
+// This file decodes product barcodes from photos and finds the food a barcode
+// belongs to. Decoding runs in the browser with @zxing/library and only looks for
+// the retail symbologies food is labelled with (EAN-13, EAN-8, UPC-A, UPC-E), which
+// is faster and avoids misreads as other formats. Lookups try every form the
+// barcode may have been stored in (utils/barcode.getBarcodeLookupCandidates).
+
+import { BarcodeFormat, BrowserMultiFormatReader, DecodeHintType, NotFoundException } from '@zxing/library';
+import { supabase } from './supabase';
+import { SearchedFoodItem } from './foodSearch';
+import { BarcodeFormatId, NormalizedBarcode, getBarcodeLookupCandidates } from '../utils/barcode';
+import { FOOD_ITEM_COLUMNS } from '../utils/nutrition';
+import { FOOD_OWNERSHIP_COLUMNS, getVisibleFoodsFilter } from '../utils/customFoods';
+
+// The zxing formats of product barcodes, for decode hints
+export const PRODUCT_BARCODE_FORMATS: Record<BarcodeFormatId, BarcodeFormat> = {
+  ean_13: BarcodeFormat.EAN_13,
+  ean_8: BarcodeFormat.EAN_8,
+  upc_a: BarcodeFormat.UPC_A,
+  upc_e: BarcodeFormat.UPC_E,
+};
+
+/**
+ * Maps a zxing format to its barcode format id.
+ * @returns The id, or undefined for formats that are not product barcodes.
+ */
+export const toBarcodeFormatId = (format: BarcodeFormat): BarcodeFormatId | undefined =>
+  (Object.keys(PRODUCT_BARCODE_FORMATS) as BarcodeFormatId[]).find(id => PRODUCT_BARCODE_FORMATS[id] === format);
+
+/**
+ * Decodes the product barcode in a photo or image file.
+ * @param image - The image, e.g. from a file input.
+ * @returns The barcode text and format, or null when no barcode was found.
+ */
+export const decodeBarcodeImage = async (
+  image: Blob,
+): Promise<{ text: string; format?: BarcodeFormatId } | null> => {
+  const hints = new Map<DecodeHintType, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, Object.values(PRODUCT_BARCODE_FORMATS)],
+    // Photos are less sharp and straight than camera frames aimed at the code
+    [DecodeHintType.TRY_HARDER, true],
+  ]);
+  const reader = new BrowserMultiFormatReader(hints);
+  const url = URL.createObjectURL(image);
+
+  try {
+    const result = await reader.decodeFromImageUrl(url);
+    return { text: result.getText(), format: toBarcodeFormatId(result.getBarcodeFormat()) };
+  } catch (error) {
+    if (error instanceof NotFoundException) return null;
+    console.error('Error decoding barcode image:', error);
+    throw error;
+  } finally {
+    URL.revokeObjectURL(url);
+    reader.reset();
+  }
+};
+
+/**
+ * Finds the food with a barcode among the foods the user may see.
+ * @param barcode - The normalized barcode.
+ * @param userId - The user scanning, whose own custom foods are included.
+ * @returns The food, preferring one stored under the canonical code, or null.
+ */
+export const findFoodByBarcode = async (
+  barcode: NormalizedBarcode,
+  userId?: string,
+): Promise<SearchedFoodItem | null> => {
+  const candidates = getBarcodeLookupCandidates(barcode);
+  const { data, error } = await supabase
+    .from('food_items')
+    .select(`${FOOD_ITEM_COLUMNS}, ${FOOD_OWNERSHIP_COLUMNS}`)
+    .or(getVisibleFoodsFilter(userId))
+    .in('barcode', candidates)
+    .limit(candidates.length)
+    .returns<SearchedFoodItem[]>();
+
+  if (error) throw error;
+
+  const rank = (food: SearchedFoodItem) => candidates.indexOf(food.barcode || '');
+  return [...(data || [])].sort((a, b) => rank(a) - rank(b))[0] ?? null;
+};
@@ -0,0 +1,72 @@
+// src/services/customFoods.ts
+// This file stores foods users add from a nutrition label, used by the /api/foods
+// route, which is the only way custom foods are written. The creator and review
+// status are set here rather than taken from the request, so a shared food always
+// starts out pending. Before a food is stored, its barcode is checked against the
+// foods it would have to be unique among (see utils/customFoods), so the user can
+// be offered the existing food instead.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { SearchedFoodItem } from './foodSearch';
+import { customFoodSchema } from '../utils/validation';
+import { FOOD_ITEM_COLUMNS } from '../utils/nutrition';
+import { FOOD_OWNERSHIP_COLUMNS, FoodVisibility, getInitialVerificationStatus, getVisibleFoodsFilter } from '../utils/customFoods';
+import { toCanonicalBarcode } from '../utils/barcode';
+
+export type CustomFoodData = z.output<typeof customFoodSchema>;
+
+/**
+ * Finds the food a new food's barcode would clash with: for a shared food, one of
+ * the foods everyone may see; for a private food, one of the user's own foods.
+ * @param client - A service-role Supabase client.
+ * @param userId - The user adding the food.
+ * @param barcode - The canonical barcode of the new food.
+ * @param visibility - Who the new food is for.
+ * @returns The existing food, or null when the barcode is free.
+ */
+export const findBarcodeConflict = async (
+  client: SupabaseClient,
+  userId: string,
+  barcode: string,
+  visibility: FoodVisibility,
+): Promise<SearchedFoodItem | null> => {
+  const { data, error } = await client
+    .from('food_items')
+    .select(`${FOOD_ITEM_COLUMNS}, ${FOOD_OWNERSHIP_COLUMNS}`)
+    .or(visibility === 'shared' ? getVisibleFoodsFilter() : `created_by.eq.${userId}`)
+    .eq('barcode', barcode)
+    .limit(1)
+    .maybeSingle<SearchedFoodItem>();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Stores a food on behalf of a user.
+ * @param client - A service-role Supabase client.
+ * @param userId - The user adding the food, recorded as its creator.
+ * @param food - The validated values of the nutrition label.
+ * @returns The stored food, ready to be logged.
+ */
+export const insertCustomFood = async (
+  client: SupabaseClient,
+  userId: string,
+  food: CustomFoodData,
+): Promise<SearchedFoodItem> => {
+  const { data, error } = await client
+    .from('food_items')
+    .insert([{
+      ...food,
+      brand: food.brand || null,
+      barcode: food.barcode ? toCanonicalBarcode(food.barcode) : null,
+      created_by: userId,
+      verification_status: getInitialVerificationStatus(food.visibility),
+    }])
+    .select(`${FOOD_ITEM_COLUMNS}, ${FOOD_OWNERSHIP_COLUMNS}`)
+    .single<SearchedFoodItem>();
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,313 @@
+// src/services/foodImport.ts
+// This file imports open nutrition datasets into food_items on the server, for the
+// import-foods CLI script and the /api/admin/food-import route. Files are streamed
+// record by record (JSON downloads, JSONL, CSV and the USDA CSV tables),
+// normalized by utils/foodImport and written in batches. Rows are upserted on
+// (source, source_id), so re-running an import updates the foods it added before;
+// a barcode already used by a food from another source or shared by a user is left
+// alone (private foods do not count, see utils/customFoods). The returned stats count every record read and why it was not imported.
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  FoodFileFormat,
+  FoodSource,
+  ImportedFood,
+  RawFoodRecord,
+  USDA_NUTRIENT_IDS,
+  createJsonRecordSplitter,
+  deduplicateFoods,
+  getDuplicateKey,
+  isDelimitedRecordComplete,
+  normalizeFoodRecord,
+  parseDelimitedLine,
+} from '../utils/foodImport';
+import { getVisibleFoodsFilter } from '../utils/customFoods';
+
+export interface FoodImportOptions {
+  source: FoodSource;
+  format?: FoodFileFormat; // Detected from the path when omitted
+  dryRun?: boolean; // Normalize and compare with the database without writing
+  batchSize?: number;
+  onProgress?: (stats: FoodImportStats) => void;
+}
+
+export interface FoodImportStats {
+  read: number;
+  invalid: number;
+  duplicates: number;
+  inserted: number;
+  updated: number;
+  skippedExisting: number; // Barcode already used by a food from elsewhere
+  failed: number;
+  errors: Array<{ record: string; reason: string }>;
+  durationMs: number;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+
+// Only the first errors are kept, so a broken file does not fill memory with reasons
+const MAX_REPORTED_ERRORS = 50;
+
+// Lines a quoted CSV field may span; a stray quote that is never closed would
+// otherwise join the rest of the file into one record
+const MAX_RECORD_LINES = 100;
+
+/**
+ * Picks the reader for a file: a directory is the USDA CSV tables, otherwise the
+ * extension decides.
+ */
+export const detectFoodFileFormat = (filePath: string): FoodFileFormat => {
+  if (fs.statSync(filePath).isDirectory()) return 'usda-csv';
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.jsonl' || extension === '.ndjson') return 'jsonl';
+  if (extension === '.json') return 'json';
+  if (extension === '.csv' || extension === '.tsv' || extension === '.txt') return 'csv';
+  throw new Error(`Cannot tell the format of ${filePath}; pass it explicitly`);
+};
+
+const readLines = (filePath: string) =>
+  readline.createInterface({ input: fs.createReadStream(filePath, { encoding: 'utf8' }), crlfDelay: Infinity });
+
+// Reads a CSV or TSV file as records keyed by its header; Open Food Facts exports are tab separated.
+// Lines are joined while a quoted field is open, so fields may contain line breaks.
+async function* readDelimitedFile(filePath: string): AsyncGenerator<RawFoodRecord> {
+  let header: string[] | null = null;
+  let delimiter = ',';
+  let pending: string[] = [];
+
+  const toRecord = (columns: string[], record: string): RawFoodRecord => {
+    const fields = parseDelimitedLine(record, delimiter);
+    return Object.fromEntries(columns.map((column, index) => [column, fields[index] ?? '']));
+  };
+
+  for await (const line of readLines(filePath)) {
+    if (pending.length === 0 && !line.trim()) continue;
+    if (!header) {
+      delimiter = line.includes('\t') ? '\t' : ',';
+      header = parseDelimitedLine(line.replace(/^\uFEFF/, ''), delimiter);
+      continue;
+    }
+
+    pending.push(line);
+    const record = pending.join('\n');
+    if (isDelimitedRecordComplete(record, delimiter)) {
+      pending = [];
+      yield toRecord(header, record);
+    } else if (pending.length >= MAX_RECORD_LINES) {
+      // The quote was never closed: read the lines as records of their own
+      const lines = pending;
+      pending = [];
+      for (const pendingLine of lines) yield toRecord(header, pendingLine);
+    }
+  }
+
+  // A quoted field left open at the end of the file
+  if (header) {
+    for (const pendingLine of pending) yield toRecord(header, pendingLine);
+  }
+}
+
+// Reads the FoodData Central CSV tables: food.csv joined with branded_food.csv and
+// the nutrients of food_nutrient.csv, shaped like the JSON downloads
+async function* readUsdaCsvTables(directory: string): AsyncGenerator<RawFoodRecord> {
+  const nutrientsByFood = new Map<string, Array<{ nutrient: { id: number }; amount: string }>>();
+  for await (const row of readDelimitedFile(path.join(directory, 'food_nutrient.csv'))) {
+    const nutrientId = Number(row.nutrient_id);
+    if (!USDA_NUTRIENT_IDS[nutrientId]) continue;
+    const fdcId = String(row.fdc_id);
+    const nutrients = nutrientsByFood.get(fdcId) || [];
+    nutrients.push({ nutrient: { id: nutrientId }, amount: String(row.amount) });
+    nutrientsByFood.set(fdcId, nutrients);
+  }
+
+  const brandedByFood = new Map<string, RawFoodRecord>();
+  const brandedPath = path.join(directory, 'branded_food.csv');
+  if (fs.existsSync(brandedPath)) {
+    for await (const row of readDelimitedFile(brandedPath)) {
+      brandedByFood.set(String(row.fdc_id), row);
+    }
+  }
+
+  for await (const food of readDelimitedFile(path.join(directory, 'food.csv'))) {
+    const fdcId = String(food.fdc_id);
+    yield { ...brandedByFood.get(fdcId), ...food, foodNutrients: nutrientsByFood.get(fdcId) || [] };
+  }
+}
+
+// Reads a JSON download: an array, or an object holding one (e.g. FoundationFoods).
+// The file is streamed and split into records, as Branded foods take several
+// gigabytes; unreadable records are yielded as null
+async function* readJsonFile(filePath: string): AsyncGenerator<RawFoodRecord | null> {
+  const split = createJsonRecordSplitter();
+  for await (const chunk of fs.createReadStream(filePath, { encoding: 'utf8' })) {
+    for (const text of split(chunk as string)) {
+      try {
+        yield JSON.parse(text);
+      } catch (error) {
+        console.error('Skipping unreadable JSON record:', error);
+        yield null;
+      }
+    }
+  }
+}
+
+// Reads one JSON record per line; unreadable lines are yielded as null
+async function* readJsonLinesFile(filePath: string): AsyncGenerator<RawFoodRecord | null> {
+  for await (const line of readLines(filePath)) {
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line);
+    } catch (error) {
+      console.error('Skipping unreadable JSON line:', error);
+      yield null;
+    }
+  }
+}
+
+const directoryOf = (filePath: string) => (fs.statSync(filePath).isDirectory() ? filePath : path.dirname(filePath));
+
+/**
+ * Reads the records of a dataset file.
+ * @param filePath - The file, or for 'usda-csv' the directory of the CSV tables.
+ * @param format - How the file is laid out.
+ */
+export const readFoodRecords = (filePath: string, format: FoodFileFormat): AsyncGenerator<RawFoodRecord | null> => {
+  switch (format) {
+    case 'json': return readJsonFile(filePath);
+    case 'jsonl': return readJsonLinesFile(filePath);
+    case 'csv': return readDelimitedFile(filePath);
+    case 'usda-csv': return readUsdaCsvTables(directoryOf(filePath));
+  }
+};
+
+const addError = (stats: FoodImportStats, record: string, reason: string) => {
+  if (stats.errors.length < MAX_REPORTED_ERRORS) stats.errors.push({ record, reason });
+};
+
+/**
+ * Writes a batch of foods, updating the ones imported from the same source before
+ * and skipping barcodes that belong to other foods.
+ */
+const writeBatch = async (client: SupabaseClient, foods: ImportedFood[], stats: FoodImportStats, dryRun: boolean) => {
+  const source = foods[0].source;
+  const barcodes = foods.map(food => food.barcode).filter((barcode): barcode is string => !!barcode);
+
+  const { data: sameSource, error: sourceError } = await client
+    .from('food_items')
+    .select('source_id')
+    .eq('source', source)
+    .in('source_id', foods.map(food => food.source_id));
+  if (sourceError) throw sourceError;
+
+  const { data: sameBarcode, error: barcodeError } = barcodes.length > 0
+    ? await client
+      .from('food_items')
+      .select('barcode, source, source_id')
+      .or(getVisibleFoodsFilter())
+      .in('barcode', barcodes)
+    : { data: [], error: null };
+  if (barcodeError) throw barcodeError;
+
+  type ExistingRow = { barcode: string; source: string | null; source_id: string | null };
+  const existingIds = new Set((sameSource || []).map((row: { source_id: string }) => row.source_id));
+  const isBarcodeTaken = (food: ImportedFood) => (sameBarcode || []).some((row: ExistingRow) =>
+    row.barcode === food.barcode && !(row.source === source && row.source_id === food.source_id));
+
+  const rows = foods.filter(food => {
+    if (food.barcode && isBarcodeTaken(food)) {
+      stats.skippedExisting += 1;
+      return false;
+    }
+    return true;
+  });
+  if (rows.length === 0) return;
+
+  if (!dryRun) {
+    const { error } = await client
+      .from('food_items')
+      .upsert(rows.map(row => ({ ...row, updated_at: new Date().toISOString() })), { onConflict: 'source,source_id' });
+    if (error) throw error;
+  }
+
+  const updated = rows.filter(row => existingIds.has(row.source_id)).length;
+  stats.updated += updated;
+  stats.inserted += rows.length - updated;
+};
+
+/**
+ * Imports a dataset file into food_items.
+ * @param client - A service-role Supabase client (food_items is not writable by users).
+ * @param filePath - The file, or the directory of the USDA CSV tables.
+ * @param options - The dataset the file comes from and how to import it.
+ * @returns Counts of what happened to the records read.
+ */
+export const importFoodFile = async (
+  client: SupabaseClient,
+  filePath: string,
+  options: FoodImportOptions,
+): Promise<FoodImportStats> => {
+  const startedAt = Date.now();
+  const format = options.format || detectFoodFileFormat(filePath);
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const stats: FoodImportStats = {
+    read: 0,
+    invalid: 0,
+    duplicates: 0,
+    inserted: 0,
+    updated: 0,
+    skippedExisting: 0,
+    failed: 0,
+    errors: [],
+    durationMs: 0,
+  };
+
+  // Keys of foods already written, so duplicates across batches are dropped too
+  const seenKeys = new Set<string>();
+  let batch: ImportedFood[] = [];
+
+  const flush = async () => {
+    const { foods, duplicates } = deduplicateFoods(batch);
+    batch = [];
+    stats.duplicates += duplicates;
+
+    const fresh = foods.filter(food => !seenKeys.has(getDuplicateKey(food)));
+    stats.duplicates += foods.length - fresh.length;
+    fresh.forEach(food => seenKeys.add(getDuplicateKey(food)));
+    if (fresh.length === 0) return;
+
+    try {
+      await writeBatch(client, fresh, stats, !!options.dryRun);
+    } catch (error) {
+      console.error('Error writing food batch:', error);
+      stats.failed += fresh.length;
+      addError(stats, `${fresh[0].source_id}…`, (error as { message?: string })?.message || 'Write failed');
+    }
+    options.onProgress?.({ ...stats, durationMs: Date.now() - startedAt });
+  };
+
+  for await (const record of readFoodRecords(filePath, format)) {
+    stats.read += 1;
+    if (!record) {
+      stats.invalid += 1;
+      addError(stats, `${format === 'jsonl' ? 'line' : 'record'} ${stats.read}`, 'Unreadable JSON');
+      continue;
+    }
+
+    const { food, error } = normalizeFoodRecord(options.source, record);
+    if (!food) {
+      stats.invalid += 1;
+      addError(stats, String(record.fdcId ?? record.fdc_id ?? record.code ?? `record ${stats.read}`), error);
+      continue;
+    }
+
+    batch.push(food);
+    if (batch.length >= batchSize) await flush();
+  }
+  if (batch.length > 0) await flush();
+
+  stats.durationMs = Date.now() - startedAt;
+  return stats;
+};
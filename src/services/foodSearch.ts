@@ -0,0 +1,92 @@
+// src/services/foodSearch.ts
+// This file searches food_items for the food search box. Matching and ordering is
+// done in the database by the search_food_items function (trigram similarity to
+// the query and the synonyms of its words, see utils/foodSearch.getSearchTerms),
+// which only returns foods the user may see and pages through all matches. Foods
+// the user logged often in the last months are boosted there too, before paging, so
+// pages stay in order.
+
+import { format, subDays } from 'date-fns';
+import { supabase } from './supabase';
+import { MicronutrientsPerServing } from '../utils/nutrients';
+import { getSearchTerms } from '../utils/foodSearch';
+import { FoodOwnership } from '../utils/customFoods';
+
+// A food from search results; recipes are returned in the same shape
+export interface SearchedFoodItem extends MicronutrientsPerServing, FoodOwnership {
+  id: string;
+  name: string;
+  calories_per_serving: number;
+  protein_per_serving: number;
+  carbs_per_serving: number;
+  fat_per_serving: number;
+  serving_size: number;
+  serving_unit: string;
+  density_g_per_ml?: number | null;
+  piece_weight_g?: number | null;
+  barcode?: string;
+  is_recipe?: boolean;
+  match_score?: number; // How well the name matches the search, from search_food_items
+}
+
+export interface FoodSearchPage {
+  foods: SearchedFoodItem[];
+  total: number; // Matches on all pages
+}
+
+export const FOOD_SEARCH_PAGE_SIZE = 10;
+
+// Logged meals counted for the frequency boost, as in search_food_items
+const FREQUENCY_WINDOW_DAYS = 90;
+
+/**
+ * Counts how often the user logged each food recently, for ranking recipes like
+ * search_food_items ranks foods.
+ * @param userId - The user whose meals are counted.
+ * @returns Times logged, keyed by lower-case food name.
+ */
+export const fetchLoggingFrequencies = async (userId: string): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from('meal_logs')
+    .select('meal_food_items(name)')
+    .eq('user_id', userId)
+    .gte('meal_date', format(subDays(new Date(), FREQUENCY_WINDOW_DAYS), 'yyyy-MM-dd'))
+    .returns<Array<{ meal_food_items: Array<{ name: string }> | null }>>();
+
+  if (error) throw error;
+
+  const frequencies: Record<string, number> = {};
+  (data || []).forEach(meal => {
+    (meal.meal_food_items || []).forEach(item => {
+      const key = item.name.toLowerCase();
+      frequencies[key] = (frequencies[key] || 0) + 1;
+    });
+  });
+  return frequencies;
+};
+
+/**
+ * Searches food_items for a page of matches, best first.
+ * @param query - The search text as typed.
+ * @param page - The page to return, from 0.
+ * @returns The foods of the page and the number of matches in total.
+ */
+export const searchFoodItems = async (query: string, page = 0): Promise<FoodSearchPage> => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return { foods: [], total: 0 };
+
+  const { data, error } = await supabase
+    .rpc('search_food_items', {
+      search_terms: terms,
+      result_limit: FOOD_SEARCH_PAGE_SIZE,
+      result_offset: page * FOOD_SEARCH_PAGE_SIZE,
+    });
+
+  if (error) throw error;
+
+  const rows = (data || []) as Array<{ food: SearchedFoodItem; match_score: number; total_count: number }>;
+  return {
+    foods: rows.map(row => ({ ...row.food, match_score: row.match_score })),
+    total: rows[0]?.total_count ?? 0,
+  };
+};
@@ -0,0 +1,82 @@
+// src/services/goals.ts
+// This file saves a user's goals. user_goals holds the goals in force today; each
+// save also records a version in goal_history effective from today, so charts and
+// stats can judge past days by the targets of that day (utils/goalHistory). Every
+// place that changes user_goals (goal settings, onboarding, adaptive adjustments)
+// saves through here so no change is missing from the history, and so a new
+// calorie target always comes with macro targets that match it.
+
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { Database } from '../types/database.types';
+import { pickGoalVersionFields } from '../utils/goalHistory';
+import { MacroTargetFields, rescaleMacroTargets } from '../utils/macroTargets';
+
+type UserGoalsRow = Database['public']['Tables']['user_goals']['Row'];
+
+// The macro target columns, which must change together with the calorie target
+const MACRO_TARGET_COLUMNS = [
+  'macro_target_mode',
+  'target_protein_ratio',
+  'target_carbs_ratio',
+  'target_fat_ratio',
+  'target_protein_g',
+  'target_carbs_g',
+  'target_fat_g',
+] as const;
+
+// When only the calorie target changes (e.g. an adaptive adjustment), the stored
+// macro targets are recalculated so their percentages and grams keep matching
+const getRescaledMacroTargets = async (userId: string, goals: Partial<UserGoalsRow>) => {
+  if (!goals.target_calories || MACRO_TARGET_COLUMNS.some(column => column in goals)) return {};
+
+  const { data, error } = await supabase
+    .from('user_goals')
+    .select(['target_calories', ...MACRO_TARGET_COLUMNS].join(', '))
+    .eq('user_id', userId)
+    .maybeSingle<MacroTargetFields>();
+
+  if (error) throw error;
+  return data ? rescaleMacroTargets(data, goals.target_calories) : {};
+};
+
+/**
+ * Updates the user's goals and records them as the version effective from today.
+ * @param userId - The user the goals belong to.
+ * @param goals - The goal columns to change; columns left out keep their value.
+ * @returns The saved user_goals row.
+ */
+export const saveUserGoals = async (userId: string, goals: Partial<UserGoalsRow>): Promise<UserGoalsRow> => {
+  const macroTargets = await getRescaledMacroTargets(userId, goals);
+  const { data, error } = await supabase
+    .from('user_goals')
+    .upsert({
+      ...goals,
+      ...macroTargets,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'user_id'
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: historyError } = await supabase
+    .from('goal_history')
+    .upsert({
+      user_id: userId,
+      effective_from: format(new Date(), 'yyyy-MM-dd'),
+      ...pickGoalVersionFields(data),
+    }, {
+      onConflict: 'user_id,effective_from'
+    });
+
+  if (historyError) {
+    // The goals themselves are saved; only the timeline misses this change
+    console.error('Error recording goal history:', historyError);
+  }
+
+  return data;
+};
@@ -0,0 +1,75 @@
+// src/services/labelOcr.ts
+// This file recognizes the text of a nutrition label photo in the browser with
+// tesseract.js, so no image is sent to an OCR service. tesseract.js is loaded only
+// when a label is scanned, as it is large. Its worker, core and English language
+// data are served by this app from /tesseract, where scripts/copy-tesseract-assets
+// puts them before every dev and build; NEXT_PUBLIC_TESSERACT_ASSET_PATH points
+// elsewhere, e.g. to a CDN.
+
+import { parseNutritionLabel, ParsedNutritionLabel } from '../utils/nutritionLabel';
+
+// Folder with worker.min.js, the tesseract.js-core files and eng.traineddata.gz
+const TESSERACT_ASSET_PATH = process.env.NEXT_PUBLIC_TESSERACT_ASSET_PATH || '/tesseract';
+
+// Labels are photographed with a phone; larger images only make recognition slower
+const MAX_IMAGE_DIMENSION = 2000;
+
+export interface LabelScanResult {
+  text: string;
+  label: ParsedNutritionLabel;
+  confidence: number; // Mean word confidence reported by tesseract, 0-100
+}
+
+// Scales large photos down and converts them to grayscale, which helps OCR on glossy packaging
+const prepareImage = async (image: Blob): Promise<HTMLCanvasElement | Blob> => {
+  if (typeof createImageBitmap !== 'function') return image;
+
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return image;
+
+  context.filter = 'grayscale(1) contrast(1.2)';
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas;
+};
+
+/**
+ * Recognizes a nutrition label photo and reads its values.
+ * @param image - The photo, e.g. from a file input.
+ * @param onProgress - Called with the recognition progress from 0 to 1.
+ * @returns The recognized text and the values read from it.
+ */
+export const scanNutritionLabel = async (
+  image: Blob,
+  onProgress?: (progress: number) => void,
+): Promise<LabelScanResult> => {
+  const { createWorker } = await import('tesseract.js');
+
+  const worker = await createWorker('eng', undefined, {
+    workerPath: `${TESSERACT_ASSET_PATH}/worker.min.js`,
+    corePath: TESSERACT_ASSET_PATH,
+    langPath: TESSERACT_ASSET_PATH,
+    logger: message => {
+      if (message.status === 'recognizing text') onProgress?.(message.progress);
+    },
+  });
+
+  try {
+    const { data } = await worker.recognize(await prepareImage(image));
+    return {
+      text: data.text,
+      label: parseNutritionLabel(data.text),
+      confidence: data.confidence,
+    };
+  } catch (error) {
+    console.error('Error recognizing nutrition label:', error);
+    throw error;
+  } finally {
+    await worker.terminate();
+  }
+};
@@ -0,0 +1,42 @@
+// src/services/mealDraft.ts
+// This file hands an unsaved meal to the meal logger. Views that prepare a meal
+// elsewhere, such as the chat widget after parsing "two eggs and toast for
+// breakfast", store it here and navigate to the logger, which pre-fills its form
+// with the draft once and then clears it. The draft lives in sessionStorage so it
+// survives both in-app view switches and navigation to the /log-meal page.
+
+import { MealLogData } from './n8nWebhooks';
+
+const DRAFT_STORAGE_KEY = 'diet-tracker-meal-draft';
+
+export type MealDraft = Omit<MealLogData, 'user_id' | 'created_at'> & {
+  // The chat message the meal was parsed from, confirmed once the meal is logged
+  chat_interaction_id?: string;
+};
+
+/**
+ * Stores a meal for the meal logger to pre-fill, replacing any previous draft.
+ */
+export const saveMealDraft = (draft: MealDraft) => {
+  if (typeof window === 'undefined') return;
+  window.sessionStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+};
+
+/**
+ * Returns the stored draft and removes it, so it pre-fills the logger only once.
+ * @returns The draft, or null when there is none or it cannot be read.
+ */
+export const takeMealDraft = (): MealDraft | null => {
+  if (typeof window === 'undefined') return null;
+
+  const stored = window.sessionStorage.getItem(DRAFT_STORAGE_KEY);
+  if (!stored) return null;
+
+  window.sessionStorage.removeItem(DRAFT_STORAGE_KEY);
+  try {
+    return JSON.parse(stored) as MealDraft;
+  } catch (error) {
+    console.error('Error reading meal draft:', error);
+    return null;
+  }
+};
@@ -0,0 +1,343 @@
+// src/services/meals.ts
+// This file contains the server-side persistence logic for meal logs, used by the
+// /api/meals routes. A meal is stored as a meal_logs header plus its meal_food_items.
+// Supabase does not expose transactions to the client library, so every write is
+// followed by a compensating rollback if a later step fails. This guarantees that
+// a meal is either stored completely or not at all before n8n is notified.
+// After every write the affected days are rolled up into nutrition_logs, the
+// per-user per-day totals that the dashboard widgets read from.
+// The StoredMeal type and toMealLogData converter are also used client-side.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database.types';
+import { MealLogData, MealLogEvent } from './n8nWebhooks';
+import { N8N_WEBHOOK_URLS } from '../utils/constants';
+import { NUTRITION_TOTAL_KEYS, NutritionTotals, calculateMealTotals, roundTotals } from '../utils/nutrition';
+import { mapMicronutrients, pickMicronutrients } from '../utils/nutrients';
+
+type MealLogRow = Database['public']['Tables']['meal_logs']['Row'];
+type MealFoodItemRow = Database['public']['Tables']['meal_food_items']['Row'];
+
+export type StoredMeal = MealLogRow & { meal_food_items: MealFoodItemRow[] };
+
+// The total_* columns of meal_logs, one per nutrient
+type MealTotalColumns = Record<`total_${keyof NutritionTotals}`, number>;
+
+const toTotalColumns = (totals: NutritionTotals): MealTotalColumns =>
+  Object.fromEntries(NUTRITION_TOTAL_KEYS.map(key => [`total_${key}`, totals[key]])) as MealTotalColumns;
+
+const getTotalColumns = (meal: MealLogRow): MealTotalColumns =>
+  Object.fromEntries(NUTRITION_TOTAL_KEYS.map(key => [`total_${key}`, meal[`total_${key}`] ?? 0])) as MealTotalColumns;
+
+const toFoodItemRows = (mealLogId: string, foodItems: MealLogData['food_items']) =>
+  foodItems.map(item => ({
+    meal_log_id: mealLogId,
+    name: item.name,
+    calories: item.calories,
+    protein: item.protein,
+    carbs: item.carbs,
+    fat: item.fat,
+    quantity: item.quantity,
+    unit: item.unit,
+    serving_size: item.serving_size ?? null,
+    serving_unit: item.serving_unit || null,
+    density_g_per_ml: item.density_g_per_ml ?? null,
+    piece_weight_g: item.piece_weight_g ?? null,
+    barcode: item.barcode || null,
+    ...mapMicronutrients(key => item[key] ?? null),
+  }));
+
+// Totals are always recalculated on the server from the food items, never taken from the client.
+const toMealLogRow = (mealData: MealLogData) => {
+  const totals = roundTotals(calculateMealTotals(mealData.food_items));
+  return {
+    meal_type: mealData.meal_type,
+    meal_date: mealData.meal_date,
+    meal_time: mealData.meal_time,
+    notes: mealData.notes || null,
+    ...toTotalColumns(totals),
+  };
+};
+
+/**
+ * Fetches a single meal of a user together with its food items.
+ * @returns The stored meal, or null if it does not exist or belongs to another user.
+ */
+export const getMeal = async (client: SupabaseClient, mealLogId: string, userId: string): Promise<StoredMeal | null> => {
+  const { data, error } = await client
+    .from('meal_logs')
+    .select('*, meal_food_items(*)')
+    .eq('id', mealLogId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as StoredMeal | null;
+};
+
+/**
+ * Fetches the meal a user logged with the given client request id, so a retried
+ * submission returns the meal stored by the first attempt instead of logging it twice.
+ * @returns The stored meal, or null if no meal was logged with this id.
+ */
+export const findMealByClientRequestId = async (
+  client: SupabaseClient,
+  userId: string,
+  clientRequestId: string,
+): Promise<StoredMeal | null> => {
+  const { data, error } = await client
+    .from('meal_logs')
+    .select('*, meal_food_items(*)')
+    .eq('user_id', userId)
+    .eq('client_request_id', clientRequestId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as StoredMeal | null;
+};
+
+/**
+ * Stores a new meal. If the food items cannot be saved, the meal header is removed again.
+ * @param client - A server-side Supabase client.
+ * @param mealData - The validated meal data.
+ * @returns The stored meal with its food items.
+ */
+export const createMeal = async (client: SupabaseClient, mealData: MealLogData): Promise<StoredMeal> => {
+  const { data: mealLog, error: mealLogError } = await client
+    .from('meal_logs')
+    .insert([{
+      user_id: mealData.user_id,
+      ...toMealLogRow(mealData),
+      client_request_id: mealData.client_request_id || null,
+      created_at: mealData.created_at,
+    }])
+    .select()
+    .single();
+
+  if (mealLogError) throw mealLogError;
+
+  const { data: foodItems, error: foodItemsError } = await client
+    .from('meal_food_items')
+    .insert(toFoodItemRows(mealLog.id, mealData.food_items))
+    .select();
+
+  if (foodItemsError) {
+    console.error('Error saving food items, rolling back meal log:', foodItemsError);
+    const { error: rollbackError } = await client.from('meal_logs').delete().eq('id', mealLog.id);
+    if (rollbackError) {
+      console.error('Failed to roll back meal log', mealLog.id, rollbackError);
+    }
+    throw foodItemsError;
+  }
+
+  return { ...mealLog, meal_food_items: foodItems || [] };
+};
+
+/**
+ * Replaces a stored meal with new data. If any step fails, the previous header
+ * and food items are restored.
+ * @param client - A server-side Supabase client.
+ * @param existing - The meal as currently stored.
+ * @param mealData - The validated new meal data.
+ * @returns The updated meal with its food items.
+ */
+export const updateMeal = async (client: SupabaseClient, existing: StoredMeal, mealData: MealLogData): Promise<StoredMeal> => {
+  const restoreHeader = async () => {
+    const { error } = await client
+      .from('meal_logs')
+      .update({
+        meal_type: existing.meal_type,
+        meal_date: existing.meal_date,
+        meal_time: existing.meal_time,
+        notes: existing.notes,
+        ...getTotalColumns(existing),
+      })
+      .eq('id', existing.id);
+    if (error) console.error('Failed to restore meal log', existing.id, error);
+  };
+
+  const { data: mealLog, error: mealLogError } = await client
+    .from('meal_logs')
+    .update(toMealLogRow(mealData))
+    .eq('id', existing.id)
+    .select()
+    .single();
+
+  if (mealLogError) throw mealLogError;
+
+  const { error: deleteItemsError } = await client
+    .from('meal_food_items')
+    .delete()
+    .eq('meal_log_id', existing.id);
+
+  if (deleteItemsError) {
+    await restoreHeader();
+    throw deleteItemsError;
+  }
+
+  const { data: foodItems, error: foodItemsError } = await client
+    .from('meal_food_items')
+    .insert(toFoodItemRows(existing.id, mealData.food_items))
+    .select();
+
+  if (foodItemsError) {
+    console.error('Error saving food items, restoring previous meal:', foodItemsError);
+    const { error: restoreItemsError } = await client
+      .from('meal_food_items')
+      .insert(existing.meal_food_items);
+    if (restoreItemsError) console.error('Failed to restore food items', existing.id, restoreItemsError);
+    await restoreHeader();
+    throw foodItemsError;
+  }
+
+  return { ...mealLog, meal_food_items: foodItems || [] };
+};
+
+/**
+ * Deletes a stored meal and its food items. If the header cannot be deleted,
+ * the food items are restored.
+ * @param client - A server-side Supabase client.
+ * @param existing - The meal as currently stored.
+ */
+export const deleteMeal = async (client: SupabaseClient, existing: StoredMeal): Promise<void> => {
+  const { error: foodItemsError } = await client
+    .from('meal_food_items')
+    .delete()
+    .eq('meal_log_id', existing.id);
+
+  if (foodItemsError) throw foodItemsError;
+
+  const { error: mealLogError } = await client
+    .from('meal_logs')
+    .delete()
+    .eq('id', existing.id);
+
+  if (mealLogError) {
+    console.error('Error deleting meal log, restoring food items:', mealLogError);
+    const { error: restoreItemsError } = await client
+      .from('meal_food_items')
+      .insert(existing.meal_food_items);
+    if (restoreItemsError) console.error('Failed to restore food items', existing.id, restoreItemsError);
+    throw mealLogError;
+  }
+};
+
+/**
+ * Recalculates the nutrition_logs rollup of a user for the given days from their meals.
+ * Days without any meals left have their rollup row removed.
+ * @param client - A server-side Supabase client.
+ * @param userId - The user whose rollup should be refreshed.
+ * @param dates - The meal dates (yyyy-MM-dd) affected by a change.
+ */
+export const refreshNutritionLogs = async (client: SupabaseClient, userId: string, dates: string[]): Promise<void> => {
+  for (const date of Array.from(new Set(dates))) {
+    const { data: meals, error: mealsError } = await client
+      .from('meal_logs')
+      .select('id, meal_food_items(*)')
+      .eq('user_id', userId)
+      .eq('meal_date', date);
+
+    if (mealsError) throw mealsError;
+
+    if (!meals || meals.length === 0) {
+      const { error: deleteError } = await client
+        .from('nutrition_logs')
+        .delete()
+        .eq('user_id', userId)
+        .eq('date', date);
+
+      if (deleteError) throw deleteError;
+      continue;
+    }
+
+    const totals = roundTotals(calculateMealTotals(meals.flatMap(meal => meal.meal_food_items || [])));
+    const { error: upsertError } = await client
+      .from('nutrition_logs')
+      .upsert({
+        user_id: userId,
+        date,
+        ...totals,
+        meal_count: meals.length,
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: 'user_id,date'
+      });
+
+    if (upsertError) throw upsertError;
+  }
+};
+
+/**
+ * Refreshes the nutrition_logs rollup without failing the request that triggered it.
+ * The rollup is derived data, so a failure is logged and corrected by the next write.
+ */
+export const syncNutritionLogs = async (client: SupabaseClient, userId: string, dates: string[]): Promise<void> => {
+  try {
+    await refreshNutritionLogs(client, userId, dates);
+  } catch (error) {
+    console.error(`Error refreshing nutrition logs for ${dates.join(', ')}:`, error);
+  }
+};
+
+/**
+ * Converts a stored meal into the payload shape sent to the n8n Meal Logging Workflow.
+ */
+export const toMealLogData = (meal: StoredMeal): MealLogData => ({
+  user_id: meal.user_id,
+  meal_type: meal.meal_type,
+  meal_date: meal.meal_date,
+  meal_time: meal.meal_time,
+  notes: meal.notes || undefined,
+  created_at: meal.created_at,
+  food_items: meal.meal_food_items.map(item => ({
+    name: item.name,
+    calories: item.calories,
+    protein: item.protein,
+    carbs: item.carbs,
+    fat: item.fat,
+    quantity: item.quantity,
+    unit: item.unit,
+    serving_size: item.serving_size ?? undefined,
+    serving_unit: item.serving_unit || undefined,
+    density_g_per_ml: item.density_g_per_ml ?? undefined,
+    piece_weight_g: item.piece_weight_g ?? undefined,
+    barcode: item.barcode || undefined,
+    ...pickMicronutrients(item),
+  })),
+});
+
+/**
+ * Forwards a meal event to the n8n Meal Logging Workflow. Called only after the
+ * meal has been committed, so a workflow failure never leaves partial data behind.
+ * @returns The workflow outcome; failures are reported instead of thrown.
+ */
+export const notifyMealLogWorkflow = async (
+  event: MealLogEvent,
+  meal: StoredMeal,
+): Promise<{ success: boolean; data?: unknown; error?: string }> => {
+  try {
+    const response = await fetch(N8N_WEBHOOK_URLS.MEAL_LOG, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...toMealLogData(meal),
+        event,
+        meal_log_id: meal.id,
+        ...getTotalColumns(meal),
+      }),
+    });
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(data?.message || `n8n meal log webhook failed with status: ${response.status}`);
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error(`Error notifying n8n about ${event} meal ${meal.id}:`, error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
@@ -4,6 +4,9 @@
 // to the client-side and ensuring all calls are proxied through a secure backend route.
 
 import { supabase } from './supabase';
+import { NetworkError } from '../utils/errorHandling';
+import { N8N_API_ROUTES } from '../utils/constants';
+import { MicronutrientValues } from '../utils/nutrients';
 
 export interface MealLogData {
   user_id: string;
@@ -18,12 +21,20 @@ export interface MealLogData {
     fat: number;
     quantity: number;
     unit: string;
+    serving_size?: number;
+    serving_unit?: string;
+    density_g_per_ml?: number;
+    piece_weight_g?: number;
     barcode?: string;
-  }>;
+  } & MicronutrientValues>; // Micronutrients per reference serving, see utils/nutrients
   notes?: string;
   created_at: string;
+  client_request_id?: string;
 }
 
+// The lifecycle events a meal log can send to the n8n Meal Logging Workflow.
+export type MealLogEvent = 'created' | 'updated' | 'deleted';
+
 interface ChatMessageData {
   user_id: string;
   message: string;
@@ -35,6 +46,13 @@ interface ChatMessageData {
   };
 }
 
+// A meal description parsed by the n8n Meal Parsing Workflow
+export interface ParsedMealResponse {
+  meal_type?: string;
+  meal_time?: string;
+  food_items: MealLogData['food_items'];
+}
+
 interface OnboardingData {
   user_id: string;
   created_at: string;
@@ -54,77 +72,129 @@ interface RecommendationRequest {
 }
 
 /**
- * Logs a meal by sending meal data to the /api/n8n/meal-log Next.js API route.
- * This route then forwards the data to the n8n Meal Logging Workflow.
+ * Sends an authenticated request to the /api/meals routes, which store the meal
+ * on the server and then forward it to the n8n Meal Logging Workflow.
+ * @param url - The meals API route to call.
+ * @param method - The HTTP method to use.
+ * @param body - The optional JSON payload.
+ * @returns A promise that resolves with the stored meal and the workflow outcome.
+ * @throws An error if the API call fails.
+ */
+const sendMealRequest = async (url: string, method: 'POST' | 'PUT' | 'DELETE', body?: MealLogData) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  // fetch only rejects when the server cannot be reached at all
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).catch((error) => {
+    console.error('Network error calling meals API:', error);
+    throw new NetworkError();
+  });
+
+  const responseData = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    console.error('Meals API error:', responseData);
+    const details = typeof responseData.details === 'string' ? responseData.details : undefined;
+    throw new Error(details || responseData.error || 'Failed to save meal.');
+  }
+
+  if (responseData.workflow && !responseData.workflow.success) {
+    console.warn('Meal saved but n8n workflow failed:', responseData.workflow.error);
+  }
+
+  return responseData;
+};
+
+/**
+ * Logs a meal through the /api/meals route, which saves the meal header and food items
+ * atomically and then triggers the n8n Meal Logging Workflow.
  * @param mealData - The data for the meal to be logged.
- * @returns A promise that resolves with the response data from the n8n workflow.
+ * @returns A promise that resolves with the stored meal and the workflow outcome.
  * @throws An error if the API call fails.
  */
 export const logMeal = async (mealData: MealLogData) => {
   try {
-    console.log('Sending meal data to n8n:', mealData);
-
-    // First, try to save directly to Supabase
-    const { data: mealLogData, error: mealLogError } = await supabase
-      .from('meal_logs')
-      .insert([{
-        user_id: mealData.user_id,
-        meal_type: mealData.meal_type,
-        meal_date: mealData.meal_date,
-        meal_time: mealData.meal_time,
-        notes: mealData.notes,
-        created_at: mealData.created_at
-      }])
-      .select()
-      .single();
-
-    if (mealLogError) {
-      console.error('Error saving meal log:', mealLogError);
-      throw mealLogError;
-    }
+    console.log('Sending meal data to meals API:', mealData);
+    return await sendMealRequest('/api/meals', 'POST', mealData);
+  } catch (error: any) {
+    console.error('Error in logMeal service:', error);
+    throw error;
+  }
+};
 
-    console.log('Meal log saved:', mealLogData);
-
-    // Then save food items
-    const foodItems = mealData.food_items.map(item => ({
-      meal_log_id: mealLogData.id,
-      name: item.name,
-      calories: item.calories,
-      protein: item.protein,
-      carbs: item.carbs,
-      fat: item.fat,
-      quantity: item.quantity,
-      unit: item.unit,
-      barcode: item.barcode
-    }));
-
-    const { error: foodItemsError } = await supabase
-      .from('meal_food_items')
-      .insert(foodItems);
-
-    if (foodItemsError) {
-      console.error('Error saving food items:', foodItemsError);
-      throw foodItemsError;
-    }
+/**
+ * Updates a previously logged meal, replacing its food items, and triggers the
+ * n8n Meal Logging Workflow with an "updated" event.
+ * @param mealLogId - The id of the meal log to update.
+ * @param mealData - The new data for the meal.
+ * @returns A promise that resolves with the stored meal and the workflow outcome.
+ * @throws An error if the API call fails.
+ */
+export const updateMealLog = async (mealLogId: string, mealData: MealLogData) => {
+  try {
+    return await sendMealRequest(`/api/meals/${mealLogId}`, 'PUT', mealData);
+  } catch (error) {
+    console.error('Error in updateMealLog service:', error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes a previously logged meal together with its food items and triggers the
+ * n8n Meal Logging Workflow with a "deleted" event.
+ * @param mealLogId - The id of the meal log to delete.
+ * @returns A promise that resolves with the deleted meal and the workflow outcome.
+ * @throws An error if the API call fails.
+ */
+export const deleteMealLog = async (mealLogId: string) => {
+  try {
+    return await sendMealRequest(`/api/meals/${mealLogId}`, 'DELETE');
+  } catch (error) {
+    console.error('Error in deleteMealLog service:', error);
+    throw error;
+  }
+};
 
-    // If direct database save is successful, also trigger n8n workflow
-    const response = await fetch('/api/n8n/meal-log', {
+/**
+ * Asks the optional n8n Meal Parsing Workflow to turn a free-text meal description
+ * into food items, for sentences the local meal parser could not match.
+ * @param message - The meal description the user typed.
+ * @returns A promise that resolves with the parsed meal, or null when the workflow is not configured.
+ * @throws An error if the API call fails.
+ */
+export const parseMealMessage = async (message: string): Promise<ParsedMealResponse | null> => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(N8N_API_ROUTES.MEAL_PARSE, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
       },
-      body: JSON.stringify(mealData),
+      body: JSON.stringify({ message }),
     });
 
+    // The workflow is optional; 501 means it has not been set up
+    if (response.status === 501) {
+      return null;
+    }
+
+    const responseData = await response.json();
+
     if (!response.ok) {
-      const errorBody = await response.json();
-      console.error('n8n webhook error:', errorBody);
-      throw new Error(errorBody.message || 'Failed to log meal via n8n.');
+      console.error('n8n meal parsing error:', responseData);
+      throw new Error(responseData.details || responseData.error || 'Failed to parse meal');
     }
 
-    return response.json();
-  } catch (error: any) {
-    console.error('Error in logMeal service:', error);
+    return responseData;
+  } catch (error) {
+    console.error('Error in parseMealMessage service:', error);
     throw error;
   }
 };
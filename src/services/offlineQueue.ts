@@ -0,0 +1,175 @@
+// src/services/offlineQueue.ts
+// This file implements the offline queue for meal logging. When a meal cannot be
+// sent because the network is down, it is stored in IndexedDB and replayed in the
+// order it was logged once connectivity returns. Every queued meal carries a
+// client_request_id, which the /api/meals route uses as an idempotency key, so a
+// replay that was already stored (e.g. the response was lost) never logs it twice.
+
+import { MealLogData } from './n8nWebhooks';
+import { getErrorMessage, isNetworkError } from '../utils/errorHandling';
+
+const DB_NAME = 'diet-tracker-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'pending_meals';
+
+// Dispatched on window whenever the queue changes, so every open view can refresh.
+export const QUEUE_CHANGED_EVENT = 'offline-meal-queue-changed';
+
+export type QueuedMealData = MealLogData & { client_request_id: string };
+
+export interface PendingMeal {
+  id: string; // The meal's client_request_id
+  meal: QueuedMealData;
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+export interface ReplayResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+/**
+ * Generates an idempotency key for a meal submission.
+ */
+export const createClientRequestId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  // RFC 4122 version 4 UUID for browsers without crypto.randomUUID (non-secure contexts)
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const isQueueAvailable = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs a single request against the pending meals store and resolves with its result.
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyQueueChanged = () => {
+  window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+};
+
+/**
+ * Stores a meal that could not be sent so it can be replayed later.
+ * @param meal - The complete meal data, including its client_request_id.
+ * @returns The pending queue entry.
+ */
+export const enqueueMeal = async (meal: QueuedMealData): Promise<PendingMeal> => {
+  if (!isQueueAvailable()) {
+    throw new Error('Offline logging is not supported in this browser.');
+  }
+
+  const pending: PendingMeal = {
+    id: meal.client_request_id,
+    meal,
+    queued_at: new Date().toISOString(),
+    attempts: 0,
+  };
+
+  await withStore('readwrite', store => store.put(pending));
+  notifyQueueChanged();
+  return pending;
+};
+
+/**
+ * Returns all pending meals of a user in the order they were queued.
+ * @param userId - Only meals of this user are returned.
+ */
+export const getPendingMeals = async (userId: string): Promise<PendingMeal[]> => {
+  if (!isQueueAvailable()) return [];
+
+  const pending = await withStore<PendingMeal[]>('readonly', store => store.getAll());
+  return pending
+    .filter(entry => entry.meal.user_id === userId)
+    .sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+};
+
+/**
+ * Removes a meal from the queue, either after it was synced or when the user discards it.
+ */
+export const removePendingMeal = async (id: string): Promise<void> => {
+  if (!isQueueAvailable()) return;
+
+  await withStore('readwrite', store => store.delete(id));
+  notifyQueueChanged();
+};
+
+let activeReplay: Promise<ReplayResult> | null = null;
+
+/**
+ * Sends the pending meals of a user one by one, oldest first. A meal that reaches
+ * the server is removed from the queue; a meal the server rejects stays queued with
+ * the error so the user can review it. Replaying stops at the first network error
+ * and only one replay runs at a time.
+ * @param userId - The user whose meals should be replayed.
+ * @param send - Sends one meal to the server, e.g. logMeal.
+ * @returns How many meals were synced, failed, and are still queued.
+ */
+export const replayPendingMeals = (
+  userId: string,
+  send: (meal: QueuedMealData) => Promise<unknown>,
+): Promise<ReplayResult> => {
+  if (activeReplay) return activeReplay;
+
+  activeReplay = (async () => {
+    const pending = await getPendingMeals(userId);
+    let synced = 0;
+    let failed = 0;
+
+    for (const entry of pending) {
+      try {
+        await send(entry.meal);
+        await removePendingMeal(entry.id);
+        synced += 1;
+      } catch (error) {
+        if (isNetworkError(error)) break;
+
+        failed += 1;
+        await withStore('readwrite', store => store.put({
+          ...entry,
+          attempts: entry.attempts + 1,
+          last_error: getErrorMessage(error),
+        }));
+        notifyQueueChanged();
+      }
+    }
+
+    return { synced, failed, remaining: pending.length - synced };
+  })().finally(() => {
+    activeReplay = null;
+  });
+
+  return activeReplay;
+};
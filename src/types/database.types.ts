@@ -1,3 +1,6 @@
+import { MealLogData } from '../services/n8nWebhooks';
+import { MicronutrientKey } from '../utils/nutrients';
+
 export type Database = {
   public: {
     Tables: {
@@ -24,7 +27,6 @@ export type Database = {
           target_weight: number | null
           target_date: string | null
           weekly_workout_goal: number
-          water_intake_goal: number
           sleep_goal: number
           meal_prep_preference: string
           created_at: string
@@ -41,7 +43,16 @@ export type Database = {
           target_protein_ratio: number
           target_carbs_ratio: number
           target_fat_ratio: number
+          // How the macro targets were entered; grams and ratios are kept consistent (utils/macroTargets)
+          macro_target_mode: 'percent' | 'grams' | 'grams_per_kg' | null
+          target_protein_g: number | null
+          target_carbs_g: number | null
+          target_fat_g: number | null
           target_weight_kg: number
+          // Litres per day, tracked against water_logs; the only place the water goal is kept
+          water_intake_goal: number | null
+          // Per-nutrient overrides of the default micronutrient targets (utils/nutrients)
+          nutrient_targets: Partial<Record<MicronutrientKey, number>> | null
           created_at: string
           updated_at: string
         }
@@ -53,6 +64,9 @@ export type Database = {
           id: string
           user_id: string
           preferences: Record<string, any>
+          // Body measurement settings (utils/measurements)
+          measurementUnit: 'cm' | 'in' | null
+          measurementSites: string[] | null
           created_at: string
           updated_at: string
         }
@@ -67,6 +81,23 @@ export type Database = {
           meal_date: string
           meal_time: string
           notes: string | null
+          total_calories: number
+          total_protein: number
+          total_carbs: number
+          total_fat: number
+          // Micronutrient totals, units as in utils/nutrients
+          total_fiber: number
+          total_sugar: number
+          total_saturated_fat: number
+          total_sodium: number
+          total_cholesterol: number
+          total_potassium: number
+          total_calcium: number
+          total_iron: number
+          total_vitamin_c: number
+          total_vitamin_d: number
+          // Idempotency key sent by the client, unique on (user_id, client_request_id)
+          client_request_id: string | null
           created_at: string
         }
         Insert: Omit<Database['public']['Tables']['meal_logs']['Row'], 'id' | 'created_at'>
@@ -83,7 +114,22 @@ export type Database = {
           fat: number
           quantity: number
           unit: string
+          serving_size: number | null
+          serving_unit: string | null
+          density_g_per_ml: number | null
+          piece_weight_g: number | null
           barcode: string | null
+          // Micronutrients per reference serving, null when the food does not list them
+          fiber: number | null
+          sugar: number | null
+          saturated_fat: number | null
+          sodium: number | null
+          cholesterol: number | null
+          potassium: number | null
+          calcium: number | null
+          iron: number | null
+          vitamin_c: number | null
+          vitamin_d: number | null
         }
         Insert: Omit<Database['public']['Tables']['meal_food_items']['Row'], 'id'>
         Update: Partial<Database['public']['Tables']['meal_food_items']['Insert']>
@@ -92,19 +138,86 @@ export type Database = {
         Row: {
           id: string
           name: string
-          calories: number
-          protein: number
-          carbs: number
-          fat: number
+          calories_per_serving: number
+          protein_per_serving: number
+          carbs_per_serving: number
+          fat_per_serving: number
+          fiber_per_serving: number | null
+          sugar_per_serving: number | null
+          saturated_fat_per_serving: number | null
+          sodium_per_serving: number | null
+          cholesterol_per_serving: number | null
+          potassium_per_serving: number | null
+          calcium_per_serving: number | null
+          iron_per_serving: number | null
+          vitamin_c_per_serving: number | null
+          vitamin_d_per_serving: number | null
           serving_size: number
           serving_unit: string
+          // Grams per millilitre, used to convert between mass and volume units
+          density_g_per_ml: number | null
+          // Grams per piece, used to convert between pieces and mass units
+          piece_weight_g: number | null
+          // Unique among the foods everyone may see, and per user among private foods
           barcode: string | null
+          brand: string | null
+          // Dataset a food was imported from (utils/foodImport) and its id there, unique
+          // together; both null for foods entered by hand
+          source: 'usda' | 'off' | null
+          source_id: string | null
+          // Per 100 g (or 100 ml) as published by the dataset, null for foods entered by hand
+          calories_per_100g: number | null
+          protein_per_100g: number | null
+          carbs_per_100g: number | null
+          fat_per_100g: number | null
+          // User who contributed the food (utils/customFoods); null for curated and imported foods
+          created_by: string | null
+          visibility: 'private' | 'shared'
+          // Review of a shared custom food by an admin; null for private foods,
+          // defaults to 'verified' for curated and imported foods
+          verification_status: 'pending' | 'verified' | 'rejected' | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          review_note: string | null
           created_at: string
           updated_at: string
         }
         Insert: Omit<Database['public']['Tables']['food_items']['Row'], 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Database['public']['Tables']['food_items']['Insert']>
       }
+      // Reusable meal templates; food_items is a jsonb array in the meal log food item shape
+      saved_meals: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          meal_type: string
+          food_items: MealLogData['food_items']
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['saved_meals']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['saved_meals']['Insert']>
+      }
+      // Home-cooked dishes; ingredients is a jsonb array in the meal log food item shape,
+      // with food_item_id set for ingredients picked from food_items
+      recipes: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          servings: number
+          total_yield: number | null
+          yield_unit: string | null
+          ingredients: Array<MealLogData['food_items'][number] & { food_item_id?: string }>
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['recipes']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['recipes']['Insert']>
+      }
+      // Daily rollup of meal_logs, one row per user and date (unique on user_id, date)
       nutrition_logs: {
         Row: {
           id: string
@@ -114,23 +227,153 @@ export type Database = {
           protein: number
           carbs: number
           fat: number
+          fiber: number
+          sugar: number
+          saturated_fat: number
+          sodium: number
+          cholesterol: number
+          potassium: number
+          calcium: number
+          iron: number
+          vitamin_c: number
+          vitamin_d: number
+          meal_count: number
           created_at: string
+          updated_at: string
         }
-        Insert: Omit<Database['public']['Tables']['nutrition_logs']['Row'], 'id' | 'created_at'>
+        Insert: Omit<Database['public']['Tables']['nutrition_logs']['Row'], 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Database['public']['Tables']['nutrition_logs']['Insert']>
       }
+      // Targets for day types such as training or rest days (utils/goalProfiles); empty
+      // targets fall back to user_goals. weekdays holds lower-case weekday names.
+      goal_profiles: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          day_type: string
+          weekdays: string[] | null
+          target_calories: number | null
+          target_protein_ratio: number | null
+          target_carbs_ratio: number | null
+          target_fat_ratio: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['goal_profiles']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['goal_profiles']['Insert']>
+      }
+      // Calorie target changes accepted from the adaptive estimate (utils/adaptiveTdee)
+      goal_adjustments: {
+        Row: {
+          id: string
+          user_id: string
+          previous_calories: number
+          new_calories: number
+          estimated_tdee: number
+          average_intake: number
+          weight_change_per_week: number
+          window_days: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['goal_adjustments']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['goal_adjustments']['Insert']>
+      }
+      // Versions of user_goals, one per user and day the goals changed (unique on user_id,
+      // effective_from); each applies until the next version takes effect (utils/goalHistory)
+      goal_history: {
+        Row: {
+          id: string
+          user_id: string
+          effective_from: string
+          target_calories: number | null
+          macro_target_mode: 'percent' | 'grams' | 'grams_per_kg' | null
+          target_protein_ratio: number | null
+          target_carbs_ratio: number | null
+          target_fat_ratio: number | null
+          target_protein_g: number | null
+          target_carbs_g: number | null
+          target_fat_g: number | null
+          target_weight_kg: number | null
+          water_intake_goal: number | null
+          nutrient_targets: Partial<Record<MicronutrientKey, number>> | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['goal_history']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['goal_history']['Insert']>
+      }
+      // Body weight history, one entry per user and day (unique on user_id, entry_date);
+      // user_profiles.weight_kg mirrors the latest entry
+      weight_entries: {
+        Row: {
+          id: string
+          user_id: string
+          entry_date: string
+          weight_kg: number
+          body_fat_percentage: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['weight_entries']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['weight_entries']['Insert']>
+      }
+      // Tape measurements, one row per user, day and site (unique on user_id, measured_on,
+      // site); site is an id from utils/measurements and values are always stored in cm
+      body_measurements: {
+        Row: {
+          id: string
+          user_id: string
+          measured_on: string
+          site: string
+          value_cm: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['body_measurements']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['body_measurements']['Insert']>
+      }
+      // Water and other beverages; amounts in ml, beverage is an id from utils/hydration
+      water_logs: {
+        Row: {
+          id: string
+          user_id: string
+          log_date: string
+          amount_ml: number
+          beverage: string
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['water_logs']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['water_logs']['Insert']>
+      }
       chat_interactions: {
         Row: {
           id: string
           user_id: string
           message: string
-          response: any
-          confirmed: boolean
+          response: any // A MealEntryResponse (hooks/useMealParser) when it proposes a parsed meal
+          confirmed: boolean // False while a proposed meal has not been logged
           created_at: string
         }
         Insert: Omit<Database['public']['Tables']['chat_interactions']['Row'], 'id' | 'created_at'>
         Update: Partial<Database['public']['Tables']['chat_interactions']['Insert']>
       }
     }
+    Functions: {
+      // Fuzzy food search over the foods the caller may see, best match first and
+      // boosted by how often the caller logged them (supabase/migrations/*_food_search*.sql);
+      // total_count is the number of matches on all pages
+      search_food_items: {
+        Args: {
+          search_terms: string[]
+          result_limit?: number
+          result_offset?: number
+        }
+        Returns: {
+          food: Database['public']['Tables']['food_items']['Row']
+          match_score: number
+          total_count: number
+        }[]
+      }
+    }
   }
 } 
\ No newline at end of file
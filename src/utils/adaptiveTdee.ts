@@ -0,0 +1,114 @@
+// src/utils/adaptiveTdee.ts
+// This file estimates a user's real daily energy expenditure from what they
+// actually ate and how their weight actually changed, instead of from formulas.
+// Over a rolling window, the average logged intake minus the energy stored or
+// released by the weight trend (about 7700 kcal per kg of body weight) is the
+// expenditure. The estimate is then used to suggest a gradual weekly adjustment of
+// the calorie target towards the user's goal.
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { GOAL_PLANS, GoalType, MINIMUM_TARGET_CALORIES } from './energy';
+import { TrendPoint, movingAverage, ratePerDay } from './trends';
+
+// Energy in one kg of body weight change, mixing fat and lean tissue
+export const KCAL_PER_KG = 7700;
+
+export const ADAPTIVE_WINDOW_DAYS = 28;
+
+// Below these the estimate is too noisy to act on
+export const MIN_LOGGED_DAYS = 10;
+export const MIN_WEIGH_IN_SPAN_DAYS = 10;
+
+// Largest change suggested in one week, so targets move gradually
+export const MAX_WEEKLY_ADJUSTMENT = 200;
+
+// Changes smaller than this are not worth suggesting
+export const MIN_ADJUSTMENT = 50;
+
+export interface IntakeDay {
+  date: string; // yyyy-MM-dd
+  calories: number;
+}
+
+export interface AdaptiveTdeeEstimate {
+  tdee: number;
+  averageIntake: number;
+  weightChangePerWeek: number; // kg, negative when losing
+  loggedDays: number;
+  weighIns: number;
+  confidence: 'low' | 'medium' | 'high';
+}
+
+export interface TargetAdjustment {
+  currentTarget: number;
+  suggestedTarget: number;
+  change: number;
+  reason: string;
+}
+
+/**
+ * Estimates daily energy expenditure from logged intake and weight entries.
+ * Days without logged meals are left out rather than counted as zero intake.
+ * @param intake - Calories eaten per day; only days with meals logged.
+ * @param weights - Weight entries in kg.
+ * @returns The estimate, or null when there is not enough data in the window.
+ */
+export const estimateAdaptiveTdee = (intake: IntakeDay[], weights: TrendPoint[]): AdaptiveTdeeEstimate | null => {
+  const loggedDays = intake.filter(day => day.calories > 0);
+  if (loggedDays.length < MIN_LOGGED_DAYS || weights.length < 2) return null;
+
+  const dates = weights.map(point => point.date).sort();
+  const span = differenceInCalendarDays(parseISO(dates[dates.length - 1]), parseISO(dates[0]));
+  if (span < MIN_WEIGH_IN_SPAN_DAYS) return null;
+
+  const rate = ratePerDay(movingAverage(weights));
+  if (rate === null) return null;
+
+  const averageIntake = loggedDays.reduce((sum, day) => sum + day.calories, 0) / loggedDays.length;
+  const tdee = averageIntake - rate * KCAL_PER_KG;
+
+  const confidence = loggedDays.length >= 21 && weights.length >= 8
+    ? 'high'
+    : loggedDays.length >= 14 && weights.length >= 4
+    ? 'medium'
+    : 'low';
+
+  return {
+    tdee: Math.round(tdee),
+    averageIntake: Math.round(averageIntake),
+    weightChangePerWeek: Math.round(rate * 7 * 100) / 100,
+    loggedDays: loggedDays.length,
+    weighIns: weights.length,
+    confidence,
+  };
+};
+
+/**
+ * Suggests the next calorie target from an expenditure estimate: the estimate plus
+ * the goal's usual surplus or deficit, moved at most MAX_WEEKLY_ADJUSTMENT from the
+ * current target.
+ * @returns The adjustment, or null when the current target is already close enough.
+ */
+export const suggestTargetAdjustment = (
+  estimate: AdaptiveTdeeEstimate,
+  currentTarget: number,
+  goalType: string,
+): TargetAdjustment | null => {
+  const plan = GOAL_PLANS[goalType as GoalType] || GOAL_PLANS.maintain_weight;
+  const ideal = Math.max(MINIMUM_TARGET_CALORIES, estimate.tdee + plan.calorieAdjustment);
+  const change = Math.max(-MAX_WEEKLY_ADJUSTMENT, Math.min(MAX_WEEKLY_ADJUSTMENT, ideal - currentTarget));
+  const roundedChange = Math.round(change / 10) * 10;
+  if (Math.abs(roundedChange) < MIN_ADJUSTMENT) return null;
+
+  const trend = estimate.weightChangePerWeek === 0
+    ? 'your weight has been stable'
+    : `you have been ${estimate.weightChangePerWeek < 0 ? 'losing' : 'gaining'} ${Math.abs(estimate.weightChangePerWeek)} kg a week`;
+
+  return {
+    currentTarget,
+    suggestedTarget: currentTarget + roundedChange,
+    change: roundedChange,
+    reason: `Eating ${estimate.averageIntake} kcal a day on average, ${trend}, `
+      + `so you burn about ${estimate.tdee} kcal a day. To ${plan.label}, your target should move towards ${Math.round(ideal / 10) * 10} kcal.`,
+  };
+};
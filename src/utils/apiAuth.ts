@@ -0,0 +1,41 @@
+// src/utils/apiAuth.ts
+// Helpers for authenticating requests to Next.js API routes.
+// Clients send their Supabase access token as a Bearer token, which is verified
+// against Supabase Auth before a route acts on behalf of the user. Admin routes
+// additionally require the user's id to be listed in ADMIN_USER_IDS.
+
+import { NextApiRequest } from 'next';
+import { User } from '@supabase/supabase-js';
+import { supabase } from '../services/supabase';
+
+/**
+ * Resolves the Supabase user that sent a request.
+ * @param req - The incoming API request.
+ * @returns The authenticated user, or null if the token is missing or invalid.
+ */
+export const getAuthenticatedUser = async (req: NextApiRequest): Promise<User | null> => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const { data, error } = await supabase.auth.getUser(authHeader.slice('Bearer '.length));
+  if (error) {
+    console.error('Error verifying access token:', error);
+    return null;
+  }
+
+  return data.user;
+};
+
+/**
+ * Tells whether a user may call admin routes.
+ * @param user - The authenticated user.
+ * @returns True when the user's id is in the comma-separated ADMIN_USER_IDS.
+ */
+export const isAdminUser = (user: User): boolean =>
+  (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+    .includes(user.id);
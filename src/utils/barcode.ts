@@ -0,0 +1,141 @@
+// src/utils/barcode.ts
+// This file validates and normalizes retail product barcodes: EAN-13, EAN-8, UPC-A
+// and UPC-E. The same product can be printed as a UPC-A (12 digits), as the EAN-13
+// with a leading 0, or in the compressed UPC-E form, and datasets store GTIN-14s
+// with leading zeros. Barcodes are therefore reduced to one canonical code before
+// they are stored or looked up: 13 digits (UPC-A and UPC-E are expanded to their
+// EAN-13), or 8 digits for EAN-8, which has no 13-digit equivalent.
+
+export const BARCODE_FORMATS = {
+  ean_13: { label: 'EAN-13', length: 13 },
+  ean_8: { label: 'EAN-8', length: 8 },
+  upc_a: { label: 'UPC-A', length: 12 },
+  upc_e: { label: 'UPC-E', length: 8 },
+} as const;
+
+export type BarcodeFormatId = keyof typeof BARCODE_FORMATS;
+
+export interface NormalizedBarcode {
+  format: BarcodeFormatId;
+  digits: string; // As scanned or typed, without spaces and dashes
+  code: string; // Canonical form stored in food_items.barcode
+}
+
+export type BarcodeParseResult = { barcode: NormalizedBarcode } | { error: string };
+
+/**
+ * Calculates the GS1 check digit of a barcode body (all digits but the last):
+ * digits are weighted 3 and 1 alternately, starting with 3 at the right.
+ */
+export const computeCheckDigit = (body: string): number => {
+  let sum = 0;
+  for (let i = 0; i < body.length; i += 1) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * Tells whether the last digit of a barcode is the check digit of the others.
+ */
+export const hasValidCheckDigit = (digits: string): boolean =>
+  /^\d{2,}$/.test(digits) && computeCheckDigit(digits.slice(0, -1)) === Number(digits.slice(-1));
+
+/**
+ * Expands an 8-digit UPC-E (number system, six digits, check digit) to its UPC-A.
+ * @returns The 12-digit UPC-A with its check digit, or null when the number system
+ * is not 0 or 1 and the code cannot be a UPC-E.
+ */
+export const expandUpcE = (digits: string): string | null => {
+  if (!/^[01]\d{7}$/.test(digits)) return null;
+
+  const numberSystem = digits[0];
+  const d = digits.slice(1, 7);
+  const last = d[5];
+  let body: string;
+  if (last <= '2') body = `${numberSystem}${d.slice(0, 2)}${last}0000${d.slice(2, 5)}`;
+  else if (last === '3') body = `${numberSystem}${d.slice(0, 3)}00000${d.slice(3, 5)}`;
+  else if (last === '4') body = `${numberSystem}${d.slice(0, 4)}00000${d[4]}`;
+  else body = `${numberSystem}${d.slice(0, 5)}0000${last}`;
+
+  return `${body}${computeCheckDigit(body)}`;
+};
+
+const checkDigitError = (digits: string, label: string) =>
+  `The check digit of this ${label} should be ${computeCheckDigit(digits.slice(0, -1))}; please check the digits`;
+
+const parseUpcE = (digits: string): BarcodeParseResult => {
+  const upcA = expandUpcE(digits);
+  if (!upcA) return { error: 'A UPC-E barcode starts with 0 or 1' };
+  if (upcA.slice(-1) !== digits.slice(-1)) {
+    return { error: `The check digit of this UPC-E should be ${upcA.slice(-1)}; please check the digits` };
+  }
+  return { barcode: { format: 'upc_e', digits, code: `0${upcA}` } };
+};
+
+/**
+ * Validates a scanned or typed barcode and converts it to its canonical code.
+ * @param value - The barcode; spaces and dashes are ignored.
+ * @param format - The symbology reported by the scanner. Without it, 8 digits are
+ * read as EAN-8, or as UPC-E when they are not a valid EAN-8.
+ * @returns The normalized barcode, or why it is not a valid product barcode.
+ */
+export const parseBarcode = (value: string, format?: BarcodeFormatId): BarcodeParseResult => {
+  let digits = value.trim().replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return { error: 'A barcode can only contain digits' };
+
+  // GTIN-14 with a leading zero, as stored by some datasets, is an EAN-13
+  if (digits.length === 14 && digits.startsWith('0')) digits = digits.slice(1);
+
+  if (format === 'upc_e') return parseUpcE(digits);
+  if (digits.length === 8 && !format && !hasValidCheckDigit(digits)) {
+    const upcE = parseUpcE(digits);
+    // Most 8-digit codes are EAN-8s, so a code that is neither reports that check digit
+    if ('barcode' in upcE) return upcE;
+  }
+
+  switch (digits.length) {
+    case 8:
+      return hasValidCheckDigit(digits)
+        ? { barcode: { format: 'ean_8', digits, code: digits } }
+        : { error: checkDigitError(digits, 'EAN-8') };
+    case 12:
+      return hasValidCheckDigit(digits)
+        ? { barcode: { format: 'upc_a', digits, code: `0${digits}` } }
+        : { error: checkDigitError(digits, 'UPC-A') };
+    case 13:
+      return hasValidCheckDigit(digits)
+        ? { barcode: { format: 'ean_13', digits, code: digits } }
+        : { error: checkDigitError(digits, 'EAN-13') };
+    default:
+      return { error: 'A product barcode has 8, 12 or 13 digits' };
+  }
+};
+
+/**
+ * Returns the canonical code of a barcode, or null when it is not valid.
+ */
+export const toCanonicalBarcode = (value: string, format?: BarcodeFormatId): string | null => {
+  const result = parseBarcode(value, format);
+  return 'barcode' in result ? result.barcode.code : null;
+};
+
+/**
+ * Returns every form a barcode may be stored in by rows written before barcodes were
+ * normalized: the canonical code, the UPC-A, the GTIN-14 and the digits as read.
+ * An 8-digit code that is also a valid UPC-E includes that product's forms too.
+ */
+export const getBarcodeLookupCandidates = (barcode: NormalizedBarcode): string[] => {
+  const codes = [barcode.code];
+  if (barcode.format === 'ean_8' && expandUpcE(barcode.digits)?.slice(-1) === barcode.digits.slice(-1)) {
+    codes.push(`0${expandUpcE(barcode.digits)}`);
+  }
+
+  const candidates = codes.flatMap(code => [
+    code,
+    ...(code.length === 13 && code.startsWith('0') ? [code.slice(1)] : []),
+    code.padStart(14, '0'),
+  ]);
+  return Array.from(new Set([...candidates, barcode.digits]));
+};
@@ -0,0 +1,157 @@
+// src/utils/chartRanges.ts
+// This file contains the date ranges and aggregation periods of the history charts.
+// Days are calendar days in the user's local timezone, formatted yyyy-MM-dd like
+// meal_date, so a meal logged late in the evening counts for the day it was eaten.
+// Ranges are inclusive; for comparison, the previous period is the range of the
+// same length that ends the day before.
+
+import {
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+
+export const CHART_RANGES = [
+  { id: '7d', label: 'Last 7 days', days: 7 },
+  { id: '30d', label: 'Last 30 days', days: 30 },
+  { id: '90d', label: 'Last 90 days', days: 90 },
+  { id: 'year', label: 'Last 12 months', days: 365 },
+  { id: 'custom', label: 'Custom range', days: null },
+] as const;
+
+export type ChartRangeId = typeof CHART_RANGES[number]['id'];
+
+export const AGGREGATIONS = [
+  { id: 'day', label: 'Daily' },
+  { id: 'week', label: 'Weekly averages' },
+  { id: 'month', label: 'Monthly averages' },
+] as const;
+
+export type Aggregation = typeof AGGREGATIONS[number]['id'];
+
+// Longest custom range, to keep the number of days fetched and drawn reasonable
+export const MAX_CUSTOM_RANGE_DAYS = 366;
+
+export interface DateRange {
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+}
+
+export interface DateBucket {
+  key: string; // First day of the bucket
+  label: string;
+  dates: string[];
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Returns the days of a range, ending today for the fixed ranges.
+ * @param rangeId - The selected range.
+ * @param today - The current day in the user's timezone.
+ * @param custom - The range picked by the user, used for 'custom'.
+ */
+export const getRangeDates = (rangeId: ChartRangeId, today: Date, custom?: DateRange): DateRange => {
+  const range = CHART_RANGES.find(option => option.id === rangeId);
+  if (!range?.days) {
+    if (custom) return custom;
+    return { startDate: toDateString(subDays(today, 6)), endDate: toDateString(today) };
+  }
+  return { startDate: toDateString(subDays(today, range.days - 1)), endDate: toDateString(today) };
+};
+
+/**
+ * Returns the number of days in a range, both ends included.
+ */
+export const getRangeLength = ({ startDate, endDate }: DateRange): number =>
+  differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1;
+
+/**
+ * Returns the range of the same length that ends the day before a range starts.
+ */
+export const getPreviousPeriod = (range: DateRange): DateRange => {
+  const start = parseISO(range.startDate);
+  return {
+    startDate: toDateString(subDays(start, getRangeLength(range))),
+    endDate: toDateString(subDays(start, 1)),
+  };
+};
+
+/**
+ * Checks a custom range picked by the user.
+ * @returns An error message, or null when the range can be shown.
+ */
+export const validateCustomRange = (range: DateRange, today: Date): string | null => {
+  if (!range.startDate || !range.endDate) return 'Please pick a start and end date';
+  if (range.startDate > range.endDate) return 'The start date must be before the end date';
+  if (range.endDate > toDateString(today)) return 'The end date cannot be in the future';
+  if (getRangeLength(range) > MAX_CUSTOM_RANGE_DAYS) return `Please pick at most ${MAX_CUSTOM_RANGE_DAYS} days`;
+  return null;
+};
+
+/**
+ * Lists every day of a range, formatted yyyy-MM-dd.
+ */
+export const listDates = ({ startDate, endDate }: DateRange): string[] =>
+  eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map(toDateString);
+
+/**
+ * Picks the aggregation that keeps a range readable: days up to a month, weeks up
+ * to about four months, months beyond.
+ */
+export const getDefaultAggregation = (days: number): Aggregation => {
+  if (days <= 31) return 'day';
+  if (days <= 120) return 'week';
+  return 'month';
+};
+
+/**
+ * Groups days into the buckets drawn as one bar each. Weeks start on Monday.
+ * @param dates - The days of the range, in order.
+ * @param aggregation - How to group them.
+ */
+export const groupDates = (dates: string[], aggregation: Aggregation): DateBucket[] => {
+  const buckets: DateBucket[] = [];
+  dates.forEach(date => {
+    const day = parseISO(date);
+    const start = aggregation === 'week'
+      ? startOfWeek(day, { weekStartsOn: 1 })
+      : aggregation === 'month'
+      ? startOfMonth(day)
+      : day;
+    const key = toDateString(start);
+    const last = buckets[buckets.length - 1];
+    if (last?.key === key) {
+      last.dates.push(date);
+      return;
+    }
+    const label = aggregation === 'month'
+      ? format(start, 'MMM yyyy')
+      : aggregation === 'week'
+      ? `Wk ${format(start, 'MMM d')}`
+      : format(day, dates.length <= 7 ? 'EEE dd' : 'MMM d');
+    buckets.push({ key, label, dates: [date] });
+  });
+  return buckets;
+};
+
+/**
+ * Averages a value over the days that have one. Days without a value (nothing
+ * logged) are left out rather than counted as zero.
+ * @returns The average, or 0 when no day has a value.
+ */
+export const averageOf = (values: Array<number | undefined>): number => {
+  const present = values.filter((value): value is number => value !== undefined);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : 0;
+};
+
+/**
+ * Returns the change from a previous value in percent, or null when there is
+ * nothing to compare with.
+ */
+export const percentChange = (current: number, previous: number): number | null =>
+  previous > 0 ? ((current - previous) / previous) * 100 : null;
@@ -24,6 +24,7 @@ export const N8N_API_ROUTES = {
   MEAL_LOGGING: '/api/n8n/meal-log',
   RECOMMENDATIONS: '/api/n8n/recommendations',
   CHAT_INTERACTIONS: '/api/n8n/chat-interactions',
+  MEAL_PARSE: '/api/n8n/meal-parse',
 };
 
 // Placeholder for actual n8n webhook URLs (these should be stored as server-side env vars)
@@ -34,6 +35,8 @@ export const N8N_WEBHOOK_URLS = {
   MEAL_LOG: process.env.N8N_MEAL_LOG_WEBHOOK_URL|| 'http://localhost:5678/webhook/log-meal',
   RECOMMENDATIONS: process.env.N8N_RECOMMENDATIONS_WEBHOOK_URL || 'http://localhost:5678/webhook/recommendations',
   CHAT_INTERACTIONS: process.env.N8N_CHAT_INTERACTIONS_WEBHOOK_URL || 'http://localhost:5678/webhook/chat-interactions',
+  // Optional: without it, meals typed into the chat are parsed by the local parser only
+  MEAL_PARSE: process.env.N8N_MEAL_PARSE_WEBHOOK_URL,
 } as const;
 
 // Other application-wide constants
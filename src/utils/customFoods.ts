@@ -0,0 +1,69 @@
+// src/utils/customFoods.ts
+// This file describes foods contributed by users, e.g. a product whose barcode was
+// not in food_items yet. A custom food is either private (only its creator sees it)
+// or shared with everyone. Shared foods start out pending and are verified or
+// rejected by an admin (pages/api/admin/food-review), so others can tell a checked
+// entry from one that was just typed in. Foods without a creator come from the
+// curated database or a dataset import and are trusted as they are.
+
+export const FOOD_VISIBILITIES = {
+  private: { label: 'Only me', description: 'Only you can find and log this food.' },
+  shared: { label: 'Everyone', description: 'Everyone can use it once an admin has checked the values.' },
+} as const;
+
+export type FoodVisibility = keyof typeof FOOD_VISIBILITIES;
+
+export const FOOD_VISIBILITY_IDS = Object.keys(FOOD_VISIBILITIES) as [FoodVisibility, ...FoodVisibility[]];
+
+export const VERIFICATION_STATUSES = {
+  pending: { label: 'Unverified', colorScheme: 'yellow' },
+  verified: { label: 'Verified', colorScheme: 'green' },
+  rejected: { label: 'Rejected', colorScheme: 'red' },
+} as const;
+
+export type VerificationStatus = keyof typeof VERIFICATION_STATUSES;
+
+// The statuses an admin can give a pending food
+export const REVIEW_DECISIONS = ['verified', 'rejected'] as const;
+
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+// The food_items columns telling who contributed a food and whether it was checked
+export const FOOD_OWNERSHIP_COLUMNS = 'created_by, visibility, verification_status';
+
+export interface FoodOwnership {
+  created_by?: string | null;
+  visibility?: FoodVisibility | null;
+  verification_status?: VerificationStatus | null;
+}
+
+/**
+ * Builds the PostgREST filter for the foods a user may see: curated and imported
+ * foods, their own foods, and shared foods that were not rejected. Without a user
+ * these are the foods everyone may see, whose barcodes are unique; barcodes of
+ * private foods are only unique per user.
+ * @param userId - The user searching, if signed in.
+ * @returns A filter for `.or()`.
+ */
+export const getVisibleFoodsFilter = (userId?: string): string => [
+  'created_by.is.null',
+  ...(userId ? [`created_by.eq.${userId}`] : []),
+  'and(visibility.eq.shared,verification_status.neq.rejected)',
+].join(',');
+
+/**
+ * Returns the verification status a new custom food is stored with. Private foods
+ * are never reviewed, shared ones wait for an admin.
+ */
+export const getInitialVerificationStatus = (visibility: FoodVisibility): VerificationStatus | null =>
+  (visibility === 'shared' ? 'pending' : null);
+
+/**
+ * Returns the badge shown next to a food in search results, or null for curated
+ * and imported foods, which need none.
+ */
+export const getFoodBadge = (food: FoodOwnership): { label: string; colorScheme: string } | null => {
+  if (!food.created_by) return null;
+  if (food.visibility !== 'shared') return { label: 'Private', colorScheme: 'gray' };
+  return VERIFICATION_STATUSES[food.verification_status || 'pending'];
+};
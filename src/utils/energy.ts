@@ -0,0 +1,192 @@
+// src/utils/energy.ts
+// This file estimates energy needs from a user's profile and proposes calorie and
+// macro targets. Basal metabolic rate (BMR) comes from one of three formulas:
+// Mifflin-St Jeor (the default), the revised Harris-Benedict equation, or
+// Katch-McArdle, which uses lean body mass and is preferred when body fat is known.
+// BMR times an activity multiplier gives the total daily energy expenditure
+// (TDEE), which is then adjusted for the user's goal. Every proposal carries the
+// steps of its calculation so the math can be shown to the user.
+
+export type BmrFormula = 'mifflin_st_jeor' | 'harris_benedict' | 'katch_mcardle';
+
+export type ActivityLevel = 'sedentary' | 'lightly_active' | 'moderately_active' | 'very_active' | 'extra_active';
+
+export type GoalType = 'lose_weight' | 'maintain_weight' | 'gain_weight' | 'build_muscle';
+
+export interface EnergyProfile {
+  age: number;
+  gender: string; // 'male', 'female' or 'other'
+  height_cm: number;
+  weight_kg: number;
+  activity_level: string;
+  goal_type: string;
+  body_fat_percentage?: number | null;
+}
+
+export interface EnergyTargets {
+  formula: BmrFormula;
+  bmr: number;
+  tdee: number;
+  target_calories: number;
+  target_protein_ratio: number;
+  target_carbs_ratio: number;
+  target_fat_ratio: number;
+  explanation: string[]; // The calculation, one step per line
+}
+
+export const BMR_FORMULAS: Record<BmrFormula, { label: string; description: string }> = {
+  mifflin_st_jeor: {
+    label: 'Mifflin-St Jeor',
+    description: 'The most accurate general-purpose estimate for most adults.',
+  },
+  harris_benedict: {
+    label: 'Harris-Benedict (revised)',
+    description: 'A classic estimate, usually slightly higher than Mifflin-St Jeor.',
+  },
+  katch_mcardle: {
+    label: 'Katch-McArdle',
+    description: 'Based on lean body mass; the best estimate when body fat is known.',
+  },
+};
+
+export const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, { multiplier: number; label: string }> = {
+  sedentary: { multiplier: 1.2, label: 'Sedentary (little or no exercise)' },
+  lightly_active: { multiplier: 1.375, label: 'Lightly active (exercise 1-3 days a week)' },
+  moderately_active: { multiplier: 1.55, label: 'Moderately active (exercise 3-5 days a week)' },
+  very_active: { multiplier: 1.725, label: 'Very active (exercise 6-7 days a week)' },
+  extra_active: { multiplier: 1.9, label: 'Extra active (physical job or training twice a day)' },
+};
+
+// Daily calorie change and macro split (% of calories) per goal
+export const GOAL_PLANS: Record<GoalType, { calorieAdjustment: number; protein: number; carbs: number; fat: number; label: string }> = {
+  lose_weight: { calorieAdjustment: -500, protein: 30, carbs: 40, fat: 30, label: 'lose about 0.5 kg a week' },
+  maintain_weight: { calorieAdjustment: 0, protein: 25, carbs: 50, fat: 25, label: 'maintain your weight' },
+  gain_weight: { calorieAdjustment: 300, protein: 25, carbs: 50, fat: 25, label: 'gain weight gradually' },
+  build_muscle: { calorieAdjustment: 250, protein: 30, carbs: 45, fat: 25, label: 'build muscle with a small surplus' },
+};
+
+// Calorie targets are never proposed below this, whatever the deficit
+export const MINIMUM_TARGET_CALORIES = 1200;
+
+const round = (value: number) => Math.round(value);
+
+const getActivity = (activityLevel: string) =>
+  ACTIVITY_MULTIPLIERS[activityLevel as ActivityLevel] || ACTIVITY_MULTIPLIERS.sedentary;
+
+const getGoalPlan = (goalType: string) =>
+  GOAL_PLANS[goalType as GoalType] || GOAL_PLANS.maintain_weight;
+
+/**
+ * Returns the formulas that can be used for a profile; Katch-McArdle needs body fat.
+ */
+export const getAvailableFormulas = (profile: EnergyProfile): BmrFormula[] =>
+  profile.body_fat_percentage
+    ? ['katch_mcardle', 'mifflin_st_jeor', 'harris_benedict']
+    : ['mifflin_st_jeor', 'harris_benedict'];
+
+/**
+ * Returns the formula used when the user has not picked one.
+ */
+export const getDefaultFormula = (profile: EnergyProfile): BmrFormula =>
+  getAvailableFormulas(profile)[0];
+
+/**
+ * Calculates the basal metabolic rate with a formula. The sex-specific formulas use
+ * the average of the male and female results for other genders.
+ * @returns The BMR in kcal per day and the step explaining it.
+ */
+export const calculateBmr = (profile: EnergyProfile, formula: BmrFormula): { bmr: number; explanation: string } => {
+  const { weight_kg: weight, height_cm: height, age, gender } = profile;
+
+  const bySex = (male: number, female: number) => {
+    if (gender === 'male') return male;
+    if (gender === 'female') return female;
+    return (male + female) / 2;
+  };
+
+  if (formula === 'katch_mcardle') {
+    if (!profile.body_fat_percentage) throw new Error('Katch-McArdle needs a body fat percentage');
+    const leanMass = weight * (1 - profile.body_fat_percentage / 100);
+    const bmr = 370 + 21.6 * leanMass;
+    return {
+      bmr: round(bmr),
+      explanation: `BMR (Katch-McArdle) = 370 + 21.6 × lean mass ${leanMass.toFixed(1)} kg `
+        + `(${weight} kg at ${profile.body_fat_percentage}% body fat) = ${round(bmr)} kcal`,
+    };
+  }
+
+  if (formula === 'harris_benedict') {
+    const male = 88.362 + 13.397 * weight + 4.799 * height - 5.677 * age;
+    const female = 447.593 + 9.247 * weight + 3.098 * height - 4.33 * age;
+    const bmr = bySex(male, female);
+    const equation = gender === 'male'
+      ? '88.362 + 13.397 × weight + 4.799 × height − 5.677 × age'
+      : gender === 'female'
+      ? '447.593 + 9.247 × weight + 3.098 × height − 4.330 × age'
+      : 'the average of the male and female equations';
+    return {
+      bmr: round(bmr),
+      explanation: `BMR (Harris-Benedict) = ${equation} with ${weight} kg, ${height} cm, ${age} years = ${round(bmr)} kcal`,
+    };
+  }
+
+  const base = 10 * weight + 6.25 * height - 5 * age;
+  const offset = bySex(5, -161);
+  const bmr = base + offset;
+  return {
+    bmr: round(bmr),
+    explanation: `BMR (Mifflin-St Jeor) = 10 × ${weight} kg + 6.25 × ${height} cm − 5 × ${age} years `
+      + `${offset >= 0 ? '+' : '−'} ${Math.abs(offset)} = ${round(bmr)} kcal`,
+  };
+};
+
+/**
+ * Proposes calorie and macro targets for a profile.
+ * @param profile - Age, gender, height, weight, activity level, goal and optional body fat.
+ * @param formula - The BMR formula; defaults to Katch-McArdle with body fat, else Mifflin-St Jeor.
+ */
+export const calculateEnergyTargets = (
+  profile: EnergyProfile,
+  formula: BmrFormula = getDefaultFormula(profile),
+): EnergyTargets => {
+  const { bmr, explanation: bmrExplanation } = calculateBmr(profile, formula);
+  const activity = getActivity(profile.activity_level);
+  const tdee = round(bmr * activity.multiplier);
+  const plan = getGoalPlan(profile.goal_type);
+  const adjusted = tdee + plan.calorieAdjustment;
+  // Rounded to 10 kcal; nobody can hit a target more precisely than that
+  const targetCalories = Math.max(MINIMUM_TARGET_CALORIES, Math.round(adjusted / 10) * 10);
+
+  const explanation = [
+    bmrExplanation,
+    `TDEE = BMR ${bmr} kcal × ${activity.multiplier} for ${activity.label.toLowerCase()} = ${tdee} kcal`,
+    plan.calorieAdjustment === 0
+      ? `Target = TDEE to ${plan.label} = ${targetCalories} kcal`
+      : `Target = TDEE ${plan.calorieAdjustment > 0 ? '+' : '−'} ${Math.abs(plan.calorieAdjustment)} kcal to ${plan.label} = ${targetCalories} kcal`,
+    ...(adjusted < MINIMUM_TARGET_CALORIES ? [`Raised to the minimum of ${MINIMUM_TARGET_CALORIES} kcal a day`] : []),
+    `Macros: ${plan.protein}% protein, ${plan.carbs}% carbs, ${plan.fat}% fat`,
+  ];
+
+  return {
+    formula,
+    bmr,
+    tdee,
+    target_calories: targetCalories,
+    target_protein_ratio: plan.protein,
+    target_carbs_ratio: plan.carbs,
+    target_fat_ratio: plan.fat,
+    explanation,
+  };
+};
+
+/**
+ * Tells whether a profile has everything needed to estimate energy needs.
+ */
+export const isEnergyProfileComplete = (profile: Partial<EnergyProfile> | null | undefined): profile is EnergyProfile =>
+  !!profile
+  && !!profile.age
+  && !!profile.height_cm
+  && !!profile.weight_kg
+  && !!profile.gender
+  && !!profile.activity_level
+  && !!profile.goal_type;
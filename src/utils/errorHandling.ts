@@ -46,6 +46,26 @@ export const getErrorMessage = (error: unknown): string => {
     // }
   };
   
+  /**
+   * Thrown when a request could not reach the server at all, as opposed to the
+   * server rejecting it. Callers can keep the request and retry it later.
+   */
+  export class NetworkError extends Error {
+    constructor(message = 'You appear to be offline. Please check your connection.') {
+      super(message);
+      this.name = 'NetworkError';
+    }
+  }
+
+  /**
+   * Checks whether an error means the server could not be reached.
+   * @param error - The error to check.
+   * @returns True for NetworkError instances or while the browser reports being offline.
+   */
+  export const isNetworkError = (error: unknown): boolean => {
+    return error instanceof NetworkError || (typeof navigator !== 'undefined' && navigator.onLine === false);
+  };
+
   /**
    * A type guard to check if an unknown value is an Error instance.
    * @param error - The value to check.
@@ -0,0 +1,389 @@
+// src/utils/foodImport.ts
+// This file normalizes records from open nutrition datasets into food_items rows:
+// USDA FoodData Central (JSON downloads or the CSV tables) and Open Food Facts
+// (JSONL or CSV exports). Both publish nutrients per 100 g (or 100 ml); rows keep
+// those values and derive the per-serving columns from the product's serving size,
+// falling back to a 100 g serving. Records without a name or with impossible
+// values are rejected with a reason, and duplicates are merged before writing.
+// Reading files and writing rows is done by services/foodImport.
+
+import { MICRONUTRIENT_KEYS, MicronutrientKey } from './nutrients';
+import { MacroKey } from './macroTargets';
+import { toCanonicalBarcode } from './barcode';
+
+export const FOOD_SOURCES = ['usda', 'off'] as const;
+
+export type FoodSource = typeof FOOD_SOURCES[number];
+
+// How a dataset file is laid out; 'usda-csv' is the directory of FoodData Central CSV tables
+export const FOOD_FILE_FORMATS = ['json', 'jsonl', 'csv', 'usda-csv'] as const;
+
+export type FoodFileFormat = typeof FOOD_FILE_FORMATS[number];
+
+export type NutrientKey = 'calories' | MacroKey | MicronutrientKey;
+
+// Per 100 g (or 100 ml) in the units of utils/nutrients: kcal, g, mg or mcg
+export type NutrientsPer100 = Partial<Record<NutrientKey, number>>;
+
+type MicronutrientColumns = Record<`${MicronutrientKey}_per_serving`, number | null>;
+
+export type ImportedFood = {
+  name: string;
+  brand: string | null;
+  barcode: string | null;
+  source: FoodSource;
+  source_id: string;
+  serving_size: number;
+  serving_unit: 'g' | 'ml';
+  calories_per_100g: number;
+  protein_per_100g: number;
+  carbs_per_100g: number;
+  fat_per_100g: number;
+  calories_per_serving: number;
+  protein_per_serving: number;
+  carbs_per_serving: number;
+  fat_per_serving: number;
+} & MicronutrientColumns;
+
+export type NormalizeResult =
+  | { food: ImportedFood; error?: undefined }
+  | { food?: undefined; error: string };
+
+// A raw record from a dataset; CSV rows are read as strings
+export type RawFoodRecord = Record<string, unknown>;
+
+// Serving used when a product does not state one, so per-serving values equal per-100 g
+const DEFAULT_SERVING_SIZE = 100;
+
+// Pure fat has about 900 kcal per 100 g; anything above is a data error
+const MAX_KCAL_PER_100G = 900;
+
+// Macros may slightly exceed 100 g per 100 g through rounding in the source data
+const MAX_MACRO_GRAMS_PER_100G = 105;
+
+// USDA energy nutrient ids in order of preference: Energy (kcal), then the Atwater
+// general and specific factor values, which Foundation foods list instead
+export const USDA_ENERGY_NUTRIENT_IDS = [1008, 2047, 2048];
+
+// USDA nutrient ids (nutrient.id in the JSON downloads, nutrient_id in food_nutrient.csv)
+export const USDA_NUTRIENT_IDS: Record<number, NutrientKey> = {
+  ...Object.fromEntries(USDA_ENERGY_NUTRIENT_IDS.map(id => [id, 'calories' as const])),
+  1003: 'protein',
+  1005: 'carbs',
+  1004: 'fat',
+  1079: 'fiber',
+  2000: 'sugar',
+  1258: 'saturated_fat',
+  1093: 'sodium',
+  1253: 'cholesterol',
+  1092: 'potassium',
+  1087: 'calcium',
+  1089: 'iron',
+  1162: 'vitamin_c',
+  1114: 'vitamin_d',
+};
+
+// Open Food Facts nutriment fields; every amount is in grams per 100 g, so the
+// factor converts to the unit of the nutrient (energy is already in kcal)
+const OFF_NUTRIMENTS: Record<NutrientKey, { field: string; factor: number }> = {
+  calories: { field: 'energy-kcal_100g', factor: 1 },
+  protein: { field: 'proteins_100g', factor: 1 },
+  carbs: { field: 'carbohydrates_100g', factor: 1 },
+  fat: { field: 'fat_100g', factor: 1 },
+  fiber: { field: 'fiber_100g', factor: 1 },
+  sugar: { field: 'sugars_100g', factor: 1 },
+  saturated_fat: { field: 'saturated-fat_100g', factor: 1 },
+  sodium: { field: 'sodium_100g', factor: 1000 },
+  cholesterol: { field: 'cholesterol_100g', factor: 1000 },
+  potassium: { field: 'potassium_100g', factor: 1000 },
+  calcium: { field: 'calcium_100g', factor: 1000 },
+  iron: { field: 'iron_100g', factor: 1000 },
+  vitamin_c: { field: 'vitamin-c_100g', factor: 1000 },
+  vitamin_d: { field: 'vitamin-d_100g', factor: 1000000 },
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const number = typeof value === 'number' ? value : Number(String(value).replace(',', '.'));
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const toText = (value: unknown): string => (typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim());
+
+const round = (value: number, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Reduces a barcode to its canonical code (utils/barcode), so UPC-A and GTIN-14
+ * values match the EAN-13 the scanner looks up. Codes with a wrong check digit are
+ * kept as digits, as they are still printed on the product.
+ * @returns The code, or null when fewer than 8 digits remain (not an EAN-8, UPC or EAN-13).
+ */
+export const normalizeBarcode = (value: unknown): string | null => {
+  const digits = toText(value).replace(/\D/g, '');
+  if (digits.length < 8 || digits.length > 14) return null;
+  return toCanonicalBarcode(digits) ?? digits;
+};
+
+/**
+ * Reads a serving size such as "30 g", "250ml" or "1 cup (240 ml)".
+ * @returns The amount in g or ml, or undefined when no metric amount is given.
+ */
+export const parseServingSize = (value: unknown): { size: number; unit: 'g' | 'ml' } | undefined => {
+  const match = toText(value).toLowerCase().match(/(\d+(?:[.,]\d+)?)\s*(g|gr|grams?|ml|millilit(?:er|re)s?)\b/);
+  if (!match) return undefined;
+  const size = Number(match[1].replace(',', '.'));
+  if (!(size > 0)) return undefined;
+  return { size, unit: match[2].startsWith('m') ? 'ml' : 'g' };
+};
+
+/**
+ * Builds a food_items row from nutrients per 100 g, or explains why it cannot be.
+ */
+export const buildImportedFood = (
+  base: Pick<ImportedFood, 'name' | 'brand' | 'barcode' | 'source' | 'source_id'>,
+  nutrients: NutrientsPer100,
+  serving?: { size: number; unit: 'g' | 'ml' },
+): NormalizeResult => {
+  if (!base.name) return { error: 'Missing name' };
+  if (!base.source_id) return { error: 'Missing source id' };
+
+  const calories = nutrients.calories;
+  if (calories === undefined) return { error: 'Missing calories' };
+  if (calories < 0 || calories > MAX_KCAL_PER_100G) return { error: `Impossible calories (${calories} kcal per 100 g)` };
+
+  const macros = [nutrients.protein, nutrients.carbs, nutrients.fat];
+  if (macros.some(value => value !== undefined && value < 0)) return { error: 'Negative macro values' };
+  const macroGrams = macros.reduce<number>((sum, value) => sum + (value || 0), 0);
+  if (macroGrams > MAX_MACRO_GRAMS_PER_100G) return { error: `Macros exceed 100 g per 100 g (${round(macroGrams)} g)` };
+
+  const servingSize = serving?.size || DEFAULT_SERVING_SIZE;
+  const perServing = (value: number | undefined) => (value === undefined ? null : round((value * servingSize) / 100));
+
+  return {
+    food: {
+      ...base,
+      serving_size: servingSize,
+      serving_unit: serving?.unit || 'g',
+      calories_per_100g: round(calories),
+      protein_per_100g: round(nutrients.protein || 0),
+      carbs_per_100g: round(nutrients.carbs || 0),
+      fat_per_100g: round(nutrients.fat || 0),
+      calories_per_serving: perServing(calories) ?? 0,
+      protein_per_serving: perServing(nutrients.protein) ?? 0,
+      carbs_per_serving: perServing(nutrients.carbs) ?? 0,
+      fat_per_serving: perServing(nutrients.fat) ?? 0,
+      ...Object.fromEntries(
+        MICRONUTRIENT_KEYS.map(key => [`${key}_per_serving`, perServing(nutrients[key])])
+      ) as MicronutrientColumns,
+    },
+  };
+};
+
+/**
+ * Normalizes a food from a FoodData Central JSON download (Foundation, SR Legacy,
+ * Survey or Branded foods). Amounts there are per 100 g.
+ */
+export const normalizeUsdaFood = (record: RawFoodRecord): NormalizeResult => {
+  const nutrients: NutrientsPer100 = {};
+  const energyById = new Map<number, number>();
+  const foodNutrients = Array.isArray(record.foodNutrients) ? record.foodNutrients : [];
+  foodNutrients.forEach((entry: { nutrient?: { id?: unknown }; amount?: unknown }) => {
+    const id = Number(entry?.nutrient?.id);
+    const key = USDA_NUTRIENT_IDS[id];
+    const amount = toNumber(entry?.amount);
+    if (!key || amount === undefined) return;
+    if (key === 'calories') energyById.set(id, amount);
+    else nutrients[key] = amount;
+  });
+  const energyId = USDA_ENERGY_NUTRIENT_IDS.find(id => energyById.has(id));
+  if (energyId !== undefined) nutrients.calories = energyById.get(energyId);
+  return normalizeUsdaRow(record, nutrients);
+};
+
+/**
+ * Normalizes a food from the FoodData Central CSV tables: a food.csv row joined
+ * with its branded_food.csv row (if any) and its nutrients from food_nutrient.csv.
+ */
+export const normalizeUsdaRow = (record: RawFoodRecord, nutrients: NutrientsPer100): NormalizeResult => {
+  const unit = toText(record.servingSizeUnit ?? record.serving_size_unit).toLowerCase();
+  const size = toNumber(record.servingSize ?? record.serving_size);
+  const serving = size && (unit === 'g' || unit === 'ml' || unit === 'grm' || unit === 'mlt')
+    ? { size, unit: unit === 'ml' || unit === 'mlt' ? 'ml' as const : 'g' as const }
+    : undefined;
+
+  return buildImportedFood({
+    name: toText(record.description),
+    brand: toText(record.brandOwner ?? record.brand_owner ?? record.brandName ?? record.brand_name) || null,
+    barcode: normalizeBarcode(record.gtinUpc ?? record.gtin_upc),
+    source: 'usda',
+    source_id: toText(record.fdcId ?? record.fdc_id),
+  }, nutrients, serving);
+};
+
+/**
+ * Normalizes an Open Food Facts product, either a JSONL dump line (nutriments
+ * nested) or a CSV export row (nutriment columns at the top level).
+ */
+export const normalizeOpenFoodFactsProduct = (record: RawFoodRecord): NormalizeResult => {
+  const nutriments = (typeof record.nutriments === 'object' && record.nutriments !== null
+    ? record.nutriments
+    : record) as RawFoodRecord;
+
+  const nutrients: NutrientsPer100 = {};
+  (Object.keys(OFF_NUTRIMENTS) as NutrientKey[]).forEach(key => {
+    const { field, factor } = OFF_NUTRIMENTS[key];
+    const amount = toNumber(nutriments[field]);
+    if (amount !== undefined) nutrients[key] = amount * factor;
+  });
+  // Older products only list energy in kJ
+  if (nutrients.calories === undefined) {
+    const kilojoules = toNumber(nutriments['energy-kj_100g'] ?? nutriments['energy_100g']);
+    if (kilojoules !== undefined) nutrients.calories = kilojoules / 4.184;
+  }
+
+  const servingQuantity = toNumber(record.serving_quantity);
+  const serving = parseServingSize(record.serving_size)
+    ?? (servingQuantity ? { size: servingQuantity, unit: 'g' as const } : undefined);
+  const brand = toText(record.brands).split(',')[0]?.trim() || null;
+  const code = toText(record.code);
+
+  return buildImportedFood({
+    name: toText(record.product_name) || toText(record.generic_name),
+    brand,
+    barcode: normalizeBarcode(code),
+    source: 'off',
+    source_id: code,
+  }, nutrients, serving);
+};
+
+/**
+ * Normalizes a record of a dataset.
+ */
+export const normalizeFoodRecord = (source: FoodSource, record: RawFoodRecord): NormalizeResult =>
+  source === 'usda' ? normalizeUsdaFood(record) : normalizeOpenFoodFactsProduct(record);
+
+// Number of nutrients a food lists, to keep the most complete of duplicates
+const countNutrients = (food: ImportedFood) =>
+  MICRONUTRIENT_KEYS.filter(key => food[`${key}_per_serving`] !== null).length;
+
+/**
+ * Returns the key duplicates share: the barcode when there is one, else the
+ * name and brand, ignoring case and spacing.
+ */
+export const getDuplicateKey = (food: Pick<ImportedFood, 'barcode' | 'name' | 'brand'>): string =>
+  food.barcode
+    ? `barcode:${food.barcode}`
+    : `name:${`${food.name} ${food.brand || ''}`.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+
+/**
+ * Merges duplicate foods, keeping the one that lists the most nutrients.
+ * @returns The unique foods and the number of duplicates dropped.
+ */
+export const deduplicateFoods = (foods: ImportedFood[]): { foods: ImportedFood[]; duplicates: number } => {
+  const byKey = new Map<string, ImportedFood>();
+  foods.forEach(food => {
+    const key = getDuplicateKey(food);
+    const existing = byKey.get(key);
+    if (!existing || countNutrients(food) > countNutrients(existing)) {
+      byKey.set(key, food);
+    }
+  });
+  return { foods: Array.from(byKey.values()), duplicates: foods.length - byKey.size };
+};
+
+// Splits a CSV record into fields, also telling whether it ends inside a quoted field
+const scanDelimitedRecord = (record: string, delimiter: string): { fields: string[]; inQuotes: boolean } => {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < record.length; i += 1) {
+    const char = record[i];
+    if (inQuotes) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return { fields, inQuotes };
+};
+
+/**
+ * Splits a record of a CSV (or, with a tab delimiter, TSV) file into fields.
+ * Quoted fields may contain delimiters, doubled quotes and line breaks, so a record
+ * can span several lines of the file (see isDelimitedRecordComplete).
+ */
+export const parseDelimitedLine = (line: string, delimiter = ','): string[] =>
+  scanDelimitedRecord(line, delimiter).fields;
+
+/**
+ * Tells whether the lines read so far form a whole record, i.e. do not end inside
+ * a quoted field whose line break belongs to the field.
+ * @param record - The lines read so far, joined by line breaks.
+ */
+export const isDelimitedRecordComplete = (record: string, delimiter = ','): boolean =>
+  !scanDelimitedRecord(record, delimiter).inQuotes;
+
+/**
+ * Creates a splitter that cuts a JSON download, fed in chunks, into the texts of
+ * the objects of its records array: the top-level array, or the first array held
+ * by the top-level object (e.g. BrandedFoods). Only one record is kept in memory,
+ * so files of several gigabytes can be read.
+ * @returns A function taking the next chunk and returning the records it completed.
+ */
+export const createJsonRecordSplitter = (): ((chunk: string) => string[]) => {
+  let depth = 0;
+  let recordDepth = -1; // Depth of the records inside the array, once found
+  let inString = false;
+  let escaped = false;
+  let done = false;
+  let partial: string | null = null; // Text of the record being read, from previous chunks
+
+  return (chunk: string) => {
+    const records: string[] = [];
+    let start = partial === null ? -1 : 0;
+
+    for (let i = 0; i < chunk.length && !done; i += 1) {
+      const char = chunk[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (recordDepth === -1 && char === '[' && depth <= 1) recordDepth = depth + 1;
+        else if (depth === recordDepth && char === '{') start = i;
+        depth += 1;
+      } else if (char === '}' || char === ']') {
+        depth -= 1;
+        if (depth === recordDepth && char === '}' && start !== -1) {
+          records.push(`${partial ?? ''}${chunk.slice(start, i + 1)}`);
+          partial = null;
+          start = -1;
+        } else if (depth === recordDepth - 1 && char === ']') {
+          done = true;
+        }
+      }
+    }
+
+    if (start !== -1) partial = `${partial ?? ''}${chunk.slice(start)}`;
+    return records;
+  };
+};
@@ -0,0 +1,150 @@
+// src/utils/foodSearch.ts
+// This file prepares food searches and ranks their results. A query is split into
+// words, each expanded with its singular form and synonyms ("courgette" also finds
+// "zucchini"); food_items is matched against those terms by trigram similarity in
+// the database (services/foodSearch), which tolerates typos ("chiken") and any word
+// order, and boosted by how often the user logs each food. Recipes are scored here
+// the same way, so they rank alongside the foods.
+
+import { getFoodNameCandidates } from './mealParser';
+
+// Names that mean the same food; every word of a group finds the others
+export const FOOD_SYNONYMS: string[][] = [
+  ['courgette', 'zucchini'],
+  ['aubergine', 'eggplant'],
+  ['coriander', 'cilantro'],
+  ['rocket', 'arugula'],
+  ['prawn', 'shrimp'],
+  ['capsicum', 'bell pepper'],
+  ['chickpea', 'garbanzo'],
+  ['yoghurt', 'yogurt'],
+  ['mince', 'ground beef'],
+  ['scallion', 'spring onion', 'green onion'],
+  ['porridge', 'oatmeal'],
+  ['biscuit', 'cookie'],
+  ['beetroot', 'beet'],
+  ['swede', 'rutabaga'],
+  ['mangetout', 'snow pea'],
+  ['icing sugar', 'powdered sugar'],
+];
+
+// Minimum word similarity for a term to match, pg_trgm's default word_similarity_threshold
+export const WORD_SIMILARITY_THRESHOLD = 0.6;
+
+// Score added per logging of a food, and the most it can add in total
+const FREQUENCY_BOOST = 0.05;
+const MAX_FREQUENCY_BOOST = 0.5;
+
+// Words that do not help telling foods apart
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'with', 'in', 'for']);
+
+export const normalizeSearchText = (text: string): string =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Splits a query into the words it is matched by, without stop words.
+ */
+export const tokenizeQuery = (query: string): string[] =>
+  normalizeSearchText(query).split(' ').filter(word => word && !STOP_WORDS.has(word));
+
+/**
+ * Returns the spellings a query word is matched by: the word, its singular and
+ * its synonyms (which may be several words, e.g. "spring onion").
+ */
+export const expandToken = (token: string): string[] => {
+  const spellings = getFoodNameCandidates(token);
+  const synonyms = FOOD_SYNONYMS
+    .filter(group => group.some(name => spellings.includes(name)))
+    .flat();
+  return Array.from(new Set([...spellings, ...synonyms]));
+};
+
+/**
+ * Returns the trigrams of a text, padded like PostgreSQL's pg_trgm.
+ */
+export const trigrams = (text: string): Set<string> => {
+  const result = new Set<string>();
+  normalizeSearchText(text).split(' ').filter(Boolean).forEach(word => {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i += 1) {
+      result.add(padded.slice(i, i + 3));
+    }
+  });
+  return result;
+};
+
+/**
+ * Measures how alike two texts are, from 0 (no trigram in common) to 1 (same trigrams).
+ */
+export const trigramSimilarity = (a: string, b: string): number => {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = Array.from(left).filter(gram => right.has(gram)).length;
+  return shared / (left.size + right.size - shared);
+};
+
+// Number of trigrams of a term found in a text, as a share of the term's trigrams
+const trigramContainment = (term: string, text: string): number => {
+  const termGrams = trigrams(term);
+  if (termGrams.size === 0) return 0;
+  const textGrams = trigrams(text);
+  return Array.from(termGrams).filter(gram => textGrams.has(gram)).length / termGrams.size;
+};
+
+/**
+ * Measures how well a term is found in a text, from 0 to 1, like pg_trgm's
+ * word_similarity: the best match of the term against any run of as many
+ * consecutive words of the text.
+ */
+export const wordSimilarity = (term: string, text: string): number => {
+  const termLength = normalizeSearchText(term).split(' ').length;
+  const words = normalizeSearchText(text).split(' ').filter(Boolean);
+  let best = 0;
+  for (let i = 0; i + termLength <= Math.max(words.length, termLength); i += 1) {
+    best = Math.max(best, trigramContainment(term, words.slice(i, i + termLength).join(' ')));
+  }
+  return best;
+};
+
+/**
+ * Returns the terms food_items is searched by (services/foodSearch): the whole
+ * query first, then every spelling and synonym of its words.
+ */
+export const getSearchTerms = (query: string): string[] => {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) return [];
+  const terms = [tokens.join(' '), ...tokens.flatMap(expandToken)];
+  return Array.from(new Set(terms)).filter(term => term.length >= 2);
+};
+
+/**
+ * Returns the score added for a food the user logs often, as search_food_items adds it.
+ * @param timesLogged - How often the user logged the food in the last months.
+ */
+export const getFrequencyBoost = (timesLogged = 0): number =>
+  Math.min(timesLogged * FREQUENCY_BOOST, MAX_FREQUENCY_BOOST);
+
+/**
+ * Scores a name against search terms the way search_food_items does in the
+ * database, for foods that are not searched there (recipes).
+ * @param terms - The terms from getSearchTerms.
+ * @param name - The food's name.
+ * @param timesLogged - How often the user logged the food, for the frequency boost.
+ * @returns The score, or 0 when the name does not match.
+ */
+export const scoreFoodMatch = (terms: string[], name: string, timesLogged = 0): number => {
+  if (terms.length === 0) return 0;
+  const best = Math.max(...terms.map(term => wordSimilarity(term, name)));
+  return best >= WORD_SIMILARITY_THRESHOLD
+    ? best + trigramSimilarity(terms[0], name) + getFrequencyBoost(timesLogged)
+    : 0;
+};
+
+/**
+ * Sorts matched foods by their score, best first, e.g. to merge recipes into the
+ * foods found in the database; shorter names win ties.
+ * @param foods - The matches, with their score from the search.
+ */
+export const rankFoods = <T extends { name: string; match_score?: number }>(foods: T[]): T[] =>
+  [...foods].sort((a, b) => (b.match_score || 0) - (a.match_score || 0) || a.name.length - b.name.length);
@@ -0,0 +1,86 @@
+// src/utils/goalHistory.ts
+// This file works with the versions of a user's goals kept in goal_history. Every
+// time the goals are saved, a snapshot of the nutrition targets is stored with the
+// date it takes effect, so past days can be compared with the targets that were in
+// force on that day rather than today's. Changes made on the same day replace that
+// day's version.
+
+import { MACRO_KEYS, MacroTargetFields, resolveMacroTargets } from './macroTargets';
+
+// The user_goals columns copied into each version
+export const GOAL_VERSION_FIELDS = [
+  'target_calories',
+  'macro_target_mode',
+  'target_protein_ratio',
+  'target_carbs_ratio',
+  'target_fat_ratio',
+  'target_protein_g',
+  'target_carbs_g',
+  'target_fat_g',
+  'target_weight_kg',
+  'water_intake_goal',
+  'nutrient_targets',
+] as const;
+
+export type GoalVersionField = typeof GOAL_VERSION_FIELDS[number];
+
+export interface GoalVersion extends MacroTargetFields {
+  effective_from: string; // yyyy-MM-dd
+  target_weight_kg?: number | null;
+  water_intake_goal?: number | null;
+  nutrient_targets?: Record<string, number | undefined> | null;
+}
+
+const MACRO_LABELS = { protein: 'Protein', carbs: 'Carbs', fat: 'Fat' } as const;
+
+/**
+ * Copies the versioned columns out of a user_goals row.
+ * @param goals - The saved goals.
+ * @returns The fields to store in goal_history, missing ones as null.
+ */
+export const pickGoalVersionFields = (goals: Partial<Record<GoalVersionField, unknown>>) =>
+  Object.fromEntries(GOAL_VERSION_FIELDS.map(field => [field, goals[field] ?? null])) as Record<GoalVersionField, unknown>;
+
+/**
+ * Returns the version of the goals in force on a day: the latest one that took
+ * effect on or before it. Days before the first recorded version use the first
+ * version, the earliest targets known.
+ * @param date - The day, formatted yyyy-MM-dd.
+ * @param versions - The user's goal versions, in any order.
+ */
+export const findGoalVersionForDate = <V extends GoalVersion>(date: string, versions: V[]): V | undefined => {
+  const sorted = [...versions].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  const inEffect = sorted.filter(version => version.effective_from <= date);
+  return inEffect[inEffect.length - 1] ?? sorted[0];
+};
+
+/**
+ * Describes what changed between two versions of the goals, for the timeline.
+ * @param previous - The version before, or undefined for the first version.
+ * @param next - The version that took effect.
+ * @returns One line per changed target, e.g. "Calories: 2000 → 1800 kcal".
+ */
+export const describeGoalChanges = (previous: GoalVersion | undefined, next: GoalVersion): string[] => {
+  const before = previous ? resolveMacroTargets(previous) : undefined;
+  const after = resolveMacroTargets(next);
+  const changes: string[] = [];
+
+  const describe = (label: string, from: number | null | undefined, to: number | null | undefined, unit: string) => {
+    if (from === to || (!from && !to)) return;
+    changes.push(previous
+      ? `${label}: ${from ?? 'not set'} → ${to ?? 'not set'}${unit}`
+      : `${label}: ${to ?? 'not set'}${unit}`);
+  };
+
+  describe('Calories', previous?.target_calories, next.target_calories, ' kcal');
+  MACRO_KEYS.forEach(macro => {
+    describe(MACRO_LABELS[macro], before?.[macro].grams, after[macro].grams, ' g');
+  });
+  describe('Target weight', previous?.target_weight_kg, next.target_weight_kg, ' kg');
+  describe('Water', previous?.water_intake_goal, next.water_intake_goal, ' L');
+
+  if (previous && JSON.stringify(previous.nutrient_targets || {}) !== JSON.stringify(next.nutrient_targets || {})) {
+    changes.push('Micronutrient targets updated');
+  }
+  return changes;
+};
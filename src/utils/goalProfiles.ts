@@ -0,0 +1,95 @@
+// src/utils/goalProfiles.ts
+// This file decides which targets apply to a given day. Besides the base targets in
+// user_goals, users can define goal profiles (goal_profiles) for day types such as
+// training, rest or refeed days. A profile applies to a day when it is assigned to
+// that weekday; otherwise the training or rest profile applies depending on whether
+// the day is one of the user's preferred workout days
+// (user_profiles.preferred_workout_days). Targets a profile leaves empty fall back
+// to the base targets.
+
+import { format, parseISO } from 'date-fns';
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export const DAY_TYPES = [
+  { id: 'training', label: 'Training Day' },
+  { id: 'rest', label: 'Rest Day' },
+  { id: 'refeed', label: 'Refeed Day' },
+] as const;
+
+export type DayType = typeof DAY_TYPES[number]['id'];
+
+export const DAY_TYPE_IDS = DAY_TYPES.map(dayType => dayType.id) as [DayType, ...DayType[]];
+
+export interface GoalTargets {
+  target_calories?: number | null;
+  target_protein_ratio?: number | null;
+  target_carbs_ratio?: number | null;
+  target_fat_ratio?: number | null;
+}
+
+export interface GoalProfileDefinition extends GoalTargets {
+  name: string;
+  day_type: string;
+  weekdays: string[] | null;
+}
+
+const MACRO_RATIO_KEYS = ['target_protein_ratio', 'target_carbs_ratio', 'target_fat_ratio'] as const;
+const TARGET_KEYS = ['target_calories', ...MACRO_RATIO_KEYS] as const;
+
+export const getDayTypeLabel = (dayType: string): string =>
+  DAY_TYPES.find(option => option.id === dayType)?.label || dayType;
+
+/**
+ * Returns the weekday of a date, e.g. "monday" for 2025-06-02.
+ * @param date - The day, formatted yyyy-MM-dd.
+ */
+export const getWeekday = (date: string): Weekday => format(parseISO(date), 'EEEE').toLowerCase() as Weekday;
+
+/**
+ * Finds the goal profile that applies to a day: one assigned to its weekday first,
+ * then the training or rest profile.
+ * @param date - The day, formatted yyyy-MM-dd.
+ * @param profiles - The user's goal profiles.
+ * @param workoutDays - The user's preferred workout days, e.g. ["monday", "thursday"].
+ */
+export const findGoalProfileForDate = <P extends GoalProfileDefinition>(
+  date: string,
+  profiles: P[],
+  workoutDays: string[] = [],
+): P | undefined => {
+  const weekday = getWeekday(date);
+  const assigned = profiles.find(profile => profile.weekdays?.includes(weekday));
+  if (assigned) return assigned;
+
+  const dayType: DayType = workoutDays.includes(weekday) ? 'training' : 'rest';
+  return profiles.find(profile => profile.day_type === dayType);
+};
+
+/**
+ * Returns the targets that apply to a day, with the profile they come from.
+ * @param date - The day, formatted yyyy-MM-dd.
+ * @param baseGoals - The user's base targets from user_goals.
+ * @param profiles - The user's goal profiles.
+ * @param workoutDays - The user's preferred workout days.
+ */
+export const resolveGoalsForDate = <G extends GoalTargets, P extends GoalProfileDefinition>(
+  date: string,
+  baseGoals: G | null,
+  profiles: P[],
+  workoutDays: string[] = [],
+): { goals: G | null; profile?: P } => {
+  const profile = findGoalProfileForDate(date, profiles, workoutDays);
+  if (!profile) return { goals: baseGoals };
+
+  const overrides: Record<string, unknown> = Object.fromEntries(
+    TARGET_KEYS.filter(key => profile[key] !== null && profile[key] !== undefined).map(key => [key, profile[key]])
+  );
+  // Profiles only hold ratios, which must win over base targets entered in grams
+  if (MACRO_RATIO_KEYS.some(key => key in overrides)) {
+    overrides.macro_target_mode = 'percent';
+  }
+  return { goals: { ...(baseGoals || {}), ...overrides } as G, profile };
+};
@@ -0,0 +1,40 @@
+// src/utils/hydration.ts
+// This file contains the beverages that can be logged as water intake and helpers
+// for the daily water goal. Intake is stored in millilitres on water_logs, while the
+// goal is set in litres with the other goals (user_goals.water_intake_goal).
+
+export const BEVERAGES = [
+  { id: 'water', label: 'Water' },
+  { id: 'sparkling_water', label: 'Sparkling Water' },
+  { id: 'tea', label: 'Tea' },
+  { id: 'coffee', label: 'Coffee' },
+  { id: 'milk', label: 'Milk' },
+  { id: 'juice', label: 'Juice' },
+  { id: 'other', label: 'Other' },
+] as const;
+
+export type BeverageId = typeof BEVERAGES[number]['id'];
+
+export const BEVERAGE_IDS = BEVERAGES.map(beverage => beverage.id) as [BeverageId, ...BeverageId[]];
+
+// Amounts offered as one-tap buttons, in ml
+export const QUICK_WATER_AMOUNTS_ML = [250, 500];
+
+// Used when the user has not set a water intake goal
+export const DEFAULT_WATER_GOAL_LITERS = 2;
+
+/**
+ * Converts the water intake goal from the user's goals to millilitres.
+ * @param goalLiters - user_goals.water_intake_goal, in litres.
+ */
+export const getWaterGoalMl = (goalLiters?: number | null): number =>
+  Math.round((goalLiters || DEFAULT_WATER_GOAL_LITERS) * 1000);
+
+/**
+ * Formats an amount of water, switching to litres from 1000 ml.
+ */
+export const formatWaterAmount = (amountMl: number): string =>
+  amountMl >= 1000 ? `${Math.round(amountMl / 100) / 10} l` : `${Math.round(amountMl)} ml`;
+
+export const getBeverageLabel = (beverageId: string): string =>
+  BEVERAGES.find(beverage => beverage.id === beverageId)?.label || beverageId;
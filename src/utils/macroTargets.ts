@@ -0,0 +1,163 @@
+// src/utils/macroTargets.ts
+// This file converts macro targets between their three representations: percent of
+// the calorie target, grams per day and grams per kg of body weight. user_goals
+// stores the mode the user entered (macro_target_mode) together with both the
+// percentages and the grams, kept consistent on save by syncMacroTargets. Every
+// view comparing intake with macro targets reads them through resolveMacroTargets.
+
+export const MACRO_KEYS = ['protein', 'carbs', 'fat'] as const;
+
+export type MacroKey = typeof MACRO_KEYS[number];
+
+export const KCAL_PER_GRAM: Record<MacroKey, number> = { protein: 4, carbs: 4, fat: 9 };
+
+export const MACRO_TARGET_MODES = [
+  { id: 'percent', label: '% of calories', unit: '%' },
+  { id: 'grams', label: 'Grams per day', unit: 'g' },
+  { id: 'grams_per_kg', label: 'Grams per kg body weight', unit: 'g/kg' },
+] as const;
+
+export type MacroTargetMode = typeof MACRO_TARGET_MODES[number]['id'];
+
+export const MACRO_TARGET_MODE_IDS = MACRO_TARGET_MODES.map(mode => mode.id) as [MacroTargetMode, ...MacroTargetMode[]];
+
+// Used when the user has not set targets
+export const DEFAULT_TARGET_CALORIES = 2000;
+export const DEFAULT_MACRO_RATIOS: Record<MacroKey, number> = { protein: 30, carbs: 40, fat: 30 };
+
+// The macro target columns of user_goals (and goal profiles, which only have ratios)
+export interface MacroTargetFields {
+  target_calories?: number | null;
+  macro_target_mode?: string | null;
+  target_protein_ratio?: number | null;
+  target_carbs_ratio?: number | null;
+  target_fat_ratio?: number | null;
+  target_protein_g?: number | null;
+  target_carbs_g?: number | null;
+  target_fat_g?: number | null;
+}
+
+export interface ResolvedMacroTarget {
+  grams: number;
+  percent: number;
+}
+
+export interface ResolvedMacroTargets extends Record<MacroKey, ResolvedMacroTarget> {
+  calories: number;
+}
+
+const ratioField = (macro: MacroKey) => `target_${macro}_ratio` as const;
+const gramsField = (macro: MacroKey) => `target_${macro}_g` as const;
+
+const round = (value: number, decimals = 0) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Converts grams of a macro to percent of a calorie target.
+ */
+export const gramsToPercent = (grams: number, macro: MacroKey, calories: number): number =>
+  calories > 0 ? (grams * KCAL_PER_GRAM[macro] * 100) / calories : 0;
+
+/**
+ * Converts percent of a calorie target to grams of a macro.
+ */
+export const percentToGrams = (percent: number, macro: MacroKey, calories: number): number =>
+  (percent / 100) * calories / KCAL_PER_GRAM[macro];
+
+/**
+ * Returns the macro targets in grams and percent. Targets entered as grams (or
+ * grams per kg, stored as grams) are used as such; otherwise the percentages are
+ * applied to the calorie target. Missing targets use the defaults.
+ * @param goals - The goals that apply, e.g. from resolveGoalsForDate.
+ */
+export const resolveMacroTargets = (goals?: MacroTargetFields | null): ResolvedMacroTargets => {
+  const calories = goals?.target_calories || DEFAULT_TARGET_CALORIES;
+  const useGrams = goals?.macro_target_mode === 'grams' || goals?.macro_target_mode === 'grams_per_kg';
+
+  const resolve = (macro: MacroKey): ResolvedMacroTarget => {
+    const grams = goals?.[gramsField(macro)];
+    if (useGrams && grams) {
+      return { grams, percent: round(gramsToPercent(grams, macro, calories), 1) };
+    }
+    const percent = goals?.[ratioField(macro)] || DEFAULT_MACRO_RATIOS[macro];
+    return { grams: round(percentToGrams(percent, macro, calories)), percent };
+  };
+
+  return {
+    calories,
+    protein: resolve('protein'),
+    carbs: resolve('carbs'),
+    fat: resolve('fat'),
+  };
+};
+
+/**
+ * Fills in the representations the user did not enter, so percentages and grams
+ * describe the same targets.
+ * @param mode - The representation the values are given in.
+ * @param values - Per macro, a percentage, grams or grams per kg depending on mode.
+ * @param calories - The calorie target.
+ * @param weightKg - Body weight, needed for grams per kg.
+ * @returns The ratio and gram columns of user_goals.
+ */
+export const syncMacroTargets = (
+  mode: MacroTargetMode,
+  values: Partial<Record<MacroKey, number>>,
+  calories: number,
+  weightKg?: number | null,
+) => {
+  if (mode === 'grams_per_kg' && !weightKg) {
+    throw new Error('Your body weight is needed to set macros in grams per kg');
+  }
+
+  const grams = Object.fromEntries(MACRO_KEYS.map(macro => {
+    const value = values[macro] || 0;
+    if (mode === 'percent') return [macro, percentToGrams(value, macro, calories)];
+    if (mode === 'grams_per_kg') return [macro, value * (weightKg || 0)];
+    return [macro, value];
+  })) as Record<MacroKey, number>;
+
+  const percents = Object.fromEntries(MACRO_KEYS.map(macro => [
+    macro,
+    mode === 'percent' ? values[macro] || 0 : gramsToPercent(grams[macro], macro, calories),
+  ])) as Record<MacroKey, number>;
+
+  return {
+    macro_target_mode: mode,
+    target_protein_ratio: round(percents.protein),
+    target_carbs_ratio: round(percents.carbs),
+    target_fat_ratio: round(percents.fat),
+    target_protein_g: round(grams.protein),
+    target_carbs_g: round(grams.carbs),
+    target_fat_g: round(grams.fat),
+  };
+};
+
+/**
+ * Recalculates the macro targets for a new calorie target, keeping what the user
+ * entered: the percentages in percent mode, otherwise the grams (grams per kg are
+ * stored as grams, and body weight does not change with the calorie target).
+ * @param goals - The current macro target columns.
+ * @param calories - The new calorie target.
+ * @returns The ratio and gram columns of user_goals.
+ */
+export const rescaleMacroTargets = (goals: MacroTargetFields, calories: number) => {
+  const targets = resolveMacroTargets(goals);
+  const mode: MacroTargetMode = goals.macro_target_mode === 'grams' || goals.macro_target_mode === 'grams_per_kg'
+    ? goals.macro_target_mode
+    : 'percent';
+  const values = Object.fromEntries(MACRO_KEYS.map(macro => [
+    macro,
+    mode === 'percent' ? targets[macro].percent : targets[macro].grams,
+  ])) as Record<MacroKey, number>;
+
+  return { ...syncMacroTargets(mode === 'percent' ? 'percent' : 'grams', values, calories), macro_target_mode: mode };
+};
+
+/**
+ * Returns the calories the macro targets add up to, to compare with the calorie target.
+ */
+export const getMacroCalories = (grams: Partial<Record<MacroKey, number>>): number =>
+  MACRO_KEYS.reduce((sum, macro) => sum + (grams[macro] || 0) * KCAL_PER_GRAM[macro], 0);
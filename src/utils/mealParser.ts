@@ -0,0 +1,436 @@
+// src/utils/mealParser.ts
+// Rule- and dictionary-based parsing of free-text meal descriptions such as
+// "two eggs and toast for breakfast" or "200g chicken with rice at 7pm yesterday".
+// The parser only extracts structure (food phrases with quantity and unit, meal
+// type, date and time); matching the phrases against food_items and recipes is
+// done by useMealParser, which can also fall back to the n8n Meal Parsing Workflow.
+// Phrases are only split on "and" or "with" when no food is named by the whole
+// phrase, so "mac and cheese" stays one food while "eggs and toast" becomes two.
+
+import { format, subDays } from 'date-fns';
+import { getQuantityUnits, ServingFood, toServingItem } from './nutrition';
+import { normalizeUnit, SERVING_UNIT, UNITS } from './units';
+
+export type ParsedMealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface ParsedFoodPhrase {
+  text: string; // The part of the sentence the food was read from
+  name: string;
+  quantity: number;
+  quantity_explicit: boolean; // False when the phrase names no amount and 1 is assumed
+  unit?: string; // Normalized unit id, undefined when the sentence names none
+}
+
+export interface ParsedMealText {
+  items: ParsedFoodPhrase[];
+  meal_type: ParsedMealType;
+  meal_type_explicit: boolean; // False when the meal type was inferred from the time
+  meal_date: string;
+  meal_time: string;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+// Words that scale the number before them ("a dozen", "two dozen", "a half")
+const MULTIPLIER_WORDS: Record<string, number> = {
+  half: 0.5,
+  quarter: 0.25,
+  couple: 2,
+  few: 3,
+  dozen: 12,
+};
+
+// Units people use when talking about food that are not in the units table
+const SPOKEN_UNITS: Record<string, string> = {
+  slice: 'piece',
+  slices: 'piece',
+  bowl: SERVING_UNIT,
+  bowls: SERVING_UNIT,
+  glass: SERVING_UNIT,
+  glasses: SERVING_UNIT,
+  plate: SERVING_UNIT,
+  plates: SERVING_UNIT,
+  portion: SERVING_UNIT,
+  portions: SERVING_UNIT,
+  helping: SERVING_UNIT,
+  helpings: SERVING_UNIT,
+};
+
+// Words that carry no food information at the start of a phrase ("I had some ...")
+const FILLER_WORDS = new Set([
+  'i', "i've", 'ive', 'we', 'just', 'also', 'then', 'had', 'have', 'ate', 'eaten', 'eat',
+  'drank', 'drink', 'having', 'some', 'the', 'my', 'of', 'about', 'around',
+]);
+
+const MEAL_TYPE_WORDS: Record<string, ParsedMealType> = {
+  breakfast: 'breakfast',
+  brunch: 'breakfast',
+  lunch: 'lunch',
+  dinner: 'dinner',
+  supper: 'dinner',
+  snack: 'snack',
+  dessert: 'snack',
+};
+
+// Meal times used when the sentence names the meal but gives no time
+const DEFAULT_MEAL_TIMES: Record<ParsedMealType, string> = {
+  breakfast: '08:00',
+  lunch: '12:30',
+  dinner: '19:00',
+  snack: '15:00',
+};
+
+// Words only used when telling what was eaten, and sentences that ask something
+const EATING_WORD_PATTERN = /\b(?:ate|eaten|eating|had|having|drank|drunk|drinking|snacked)\b/;
+const QUESTION_PATTERN = /\?\s*$|^\s*(?:what|how|why|when|where|which|who|should|can|could|would|will|is|are|am|do|does|did)\b/;
+
+const MEAL_TYPE_PATTERN = /\b(?:for|at|during|as|with)\s+(?:my\s+|a\s+)?(breakfast|brunch|lunch|dinner|supper|snack|dessert)\b/;
+const MEAL_LABEL_PATTERN = /^\s*(breakfast|brunch|lunch|dinner|supper|snack|dessert)\s*[:-]/;
+const TIME_PATTERN = /\b(?:at|around|about)?\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?=\s|$|[,.;!])|\b(?:at|around|about)\s+(\d{1,2}):(\d{2})\b/;
+// "at 7" or "around 7 o'clock", only at the end of a phrase so "about 2 eggs" is kept
+const HOUR_PATTERN = /\b(?:at|around|about)\s+(1[0-2]|[1-9])(?:\s*o'?clock)?(?=\s*(?:$|[,;.!?&+]|and\b|with\b|plus\b))/;
+// Separates phrases that always name different foods
+const SEPARATOR_PATTERN = /\s*[,;]\s*/;
+// Joins parts of a phrase that may name one food ("mac and cheese") or several
+// ("eggs and toast"); the captured word is kept to put the phrase back together
+const CONJUNCTION_PATTERN = /\s+(and|with|plus|&|\+)\s+/;
+
+/**
+ * Infers the meal type from the time a meal was eaten.
+ * @param time - The meal time as HH:mm.
+ */
+export const inferMealType = (time: string): ParsedMealType => {
+  const hour = Number(time.split(':')[0]);
+  if (hour >= 4 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 15) return 'lunch';
+  if (hour >= 17 && hour < 22) return 'dinner';
+  return 'snack';
+};
+
+const toTime = (hours: number, minutes: number) =>
+  `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+
+// Reads a time such as "7pm", "7:30 am" or "at 19:15" and returns it as HH:mm
+const readTime = (match: RegExpMatchArray): string | null => {
+  const [, hourText, minuteText, meridiem, hour24Text, minute24Text] = match;
+  if (hour24Text !== undefined) {
+    const hours = Number(hour24Text);
+    const minutes = Number(minute24Text);
+    return hours < 24 && minutes < 60 ? toTime(hours, minutes) : null;
+  }
+
+  const hours = Number(hourText);
+  const minutes = minuteText ? Number(minuteText) : 0;
+  if (hours < 1 || hours > 12 || minutes >= 60) return null;
+
+  const isPm = meridiem.startsWith('p');
+  return toTime((hours % 12) + (isPm ? 12 : 0), minutes);
+};
+
+// Parses "2", "1.5" and "1/2" into a number
+const readNumber = (token: string): number | null => {
+  if (/^\d+(\.\d+)?$/.test(token)) return Number(token);
+
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  if (fraction && Number(fraction[2]) > 0) return Number(fraction[1]) / Number(fraction[2]);
+
+  return null;
+};
+
+// Looks up a unit at the start of the tokens, trying two-word units ("fl oz") first
+const readUnit = (tokens: string[], index: number): { unit: string; length: number } | null => {
+  for (const length of [2, 1]) {
+    const words = tokens.slice(index, index + length);
+    if (words.length < length) continue;
+
+    const text = words.join(' ').replace(/\.$/, '');
+    if (SPOKEN_UNITS[text]) return { unit: SPOKEN_UNITS[text], length };
+
+    const unit = normalizeUnit(text);
+    if (UNITS[unit] || unit === SERVING_UNIT) return { unit, length };
+  }
+  return null;
+};
+
+/**
+ * Reads an hour given without am or pm ("at 7"). For today only hours that have
+ * passed are considered, preferring the one that fits the meal type, then the
+ * latest; otherwise the one that fits the meal type, else 7 to 11 as morning and
+ * 12 to 6 as afternoon or evening.
+ */
+const resolveHour = (hour: number, now: Date, dayOffset: number, mealType?: ParsedMealType): string => {
+  const evening = toTime((hour % 12) + 12, 0);
+  const morning = toTime(hour % 12, 0);
+  const fits = (time: string) => inferMealType(time) === mealType;
+
+  if (dayOffset === 0) {
+    const current = format(now, 'HH:mm');
+    const passed = [evening, morning].filter(time => time <= current);
+    const time = passed.find(fits) ?? passed[0];
+    if (time) return time;
+  }
+  return [evening, morning].find(fits) ?? (hour === 12 || hour < 7 ? evening : morning);
+};
+
+/**
+ * Parses one food phrase such as "2 slices of toast", "a dozen eggs" or "150g rice".
+ * @param text - The phrase, without meal type, date or time words.
+ * @returns The food phrase, or null when no food name is left.
+ */
+export const parseFoodPhrase = (text: string): ParsedFoodPhrase | null => {
+  // "150g" becomes "150 g" so the number and unit are read separately
+  const tokens = text.replace(/(\d)([a-z])/g, '$1 $2').split(/\s+/).filter(Boolean);
+  let index = 0;
+
+  while (index < tokens.length && FILLER_WORDS.has(tokens[index])) {
+    index += 1;
+  }
+
+  let quantity: number | null = null;
+  const numeric = index < tokens.length ? readNumber(tokens[index]) : null;
+  if (numeric !== null) {
+    quantity = numeric;
+    index += 1;
+    // Mixed numbers such as "1 1/2"
+    const fraction = index < tokens.length && tokens[index].includes('/') ? readNumber(tokens[index]) : null;
+    if (fraction !== null) {
+      quantity += fraction;
+      index += 1;
+    }
+  } else if (index < tokens.length && NUMBER_WORDS[tokens[index]] !== undefined) {
+    quantity = NUMBER_WORDS[tokens[index]];
+    index += 1;
+  }
+
+  while (index < tokens.length && MULTIPLIER_WORDS[tokens[index]] !== undefined) {
+    quantity = (quantity ?? 1) * MULTIPLIER_WORDS[tokens[index]];
+    index += 1;
+  }
+
+  if (tokens[index] === 'of') index += 1;
+
+  let unit: string | undefined;
+  const unitMatch = readUnit(tokens, index);
+  if (unitMatch) {
+    unit = unitMatch.unit;
+    index += unitMatch.length;
+  }
+
+  while (index < tokens.length && FILLER_WORDS.has(tokens[index])) {
+    index += 1;
+  }
+
+  const name = tokens.slice(index).join(' ').replace(/[.!?]+$/, '').trim();
+  if (!name) return null;
+
+  return { text: text.trim(), name, quantity: quantity ?? 1, quantity_explicit: quantity !== null, unit };
+};
+
+/**
+ * Picks the time of a meal the sentence gives no time for: the usual time of the
+ * named meal ("eggs for breakfast" typed at 1pm was eaten in the morning), except
+ * for today's meal being eaten now or still to come, which is logged now.
+ */
+const getDefaultMealTime = (now: Date, dayOffset: number, mealType?: ParsedMealType): string => {
+  const current = format(now, 'HH:mm');
+  if (!mealType) return current;
+  if (dayOffset > 0) return DEFAULT_MEAL_TIMES[mealType];
+
+  const usual = DEFAULT_MEAL_TIMES[mealType];
+  return inferMealType(current) === mealType || usual > current ? current : usual;
+};
+
+/**
+ * Parses a free-text meal description into food phrases, meal type, date and time.
+ * Words like "for breakfast", "at 7:30pm", "yesterday" or "last night" set the meal
+ * details and are removed from the phrases; without them the meal is logged now,
+ * with its type inferred from the time. A phrase may still name several foods
+ * joined by "and" or "with", see matchFoodPhrases.
+ * @param text - The sentence the user typed.
+ * @param now - The current time, used for relative dates and defaults.
+ */
+export const parseMealText = (text: string, now: Date = new Date()): ParsedMealText => {
+  let remaining = ` ${text.toLowerCase().replace(/\s+/g, ' ')} `;
+  let mealType: ParsedMealType | undefined;
+  let mealTime: string | undefined;
+  let dayOffset = 0;
+
+  const consume = (pattern: RegExp) => {
+    const match = remaining.match(pattern);
+    if (match) {
+      remaining = remaining.replace(match[0], ' ');
+    }
+    return match;
+  };
+
+  if (consume(/\blast night\b/)) {
+    dayOffset = 1;
+    mealType = 'dinner';
+  }
+  if (consume(/\byesterday\b/)) dayOffset = 1;
+  consume(/\btoday\b/);
+  if (consume(/\bthis morning\b/)) mealType = 'breakfast';
+  if (consume(/\btonight\b/)) mealType = 'dinner';
+
+  // "for breakfast", or a label such as "lunch: ..."
+  const mealTypeMatch = consume(MEAL_TYPE_PATTERN) ?? consume(MEAL_LABEL_PATTERN);
+  if (mealTypeMatch) mealType = MEAL_TYPE_WORDS[mealTypeMatch[1]];
+
+  const timeMatch = consume(TIME_PATTERN);
+  if (timeMatch) mealTime = readTime(timeMatch) ?? undefined;
+  if (consume(/\b(?:at|around)\s+noon\b/)) mealTime = '12:00';
+  const hourMatch = mealTime ? null : consume(HOUR_PATTERN);
+  if (hourMatch) mealTime = resolveHour(Number(hourMatch[1]), now, dayOffset, mealType);
+
+  // "one and a half" and "2 and a half" would otherwise be split into two foods
+  remaining = remaining
+    .replace(/\b(\d+) and a half\b/g, (_, whole) => `${whole}.5`)
+    .replace(/\b(one|two|three|four|five|six|seven|eight|nine|ten) and a half\b/g, (_, word) => `${NUMBER_WORDS[word]}.5`);
+
+  const items = remaining
+    .split(SEPARATOR_PATTERN)
+    .map(part => parseFoodPhrase(part))
+    .filter((item): item is ParsedFoodPhrase => item !== null);
+
+  const mealDate = subDays(now, dayOffset);
+  const time = mealTime ?? getDefaultMealTime(now, dayOffset, mealType);
+
+  return {
+    items,
+    meal_type: mealType ?? inferMealType(time),
+    meal_type_explicit: mealType !== undefined,
+    meal_date: format(mealDate, 'yyyy-MM-dd'),
+    meal_time: time,
+  };
+};
+
+/**
+ * Tells whether a sentence reads as a meal entry rather than a question or other
+ * chat message: it names the meal, says something was eaten or gives an amount.
+ * @param text - The sentence the user typed.
+ * @param parsed - The sentence as read by parseMealText.
+ */
+export const looksLikeMealEntry = (text: string, parsed: ParsedMealText): boolean => {
+  const sentence = text.toLowerCase();
+  if (QUESTION_PATTERN.test(sentence)) return false;
+
+  return parsed.meal_type_explicit
+    || EATING_WORD_PATTERN.test(sentence)
+    || parsed.items.some(item => item.quantity_explicit || item.unit !== undefined);
+};
+
+/**
+ * Returns the spellings a food name is looked up by: as typed and in the singular
+ * ("eggs" is also looked up as "egg", "berries" as "berry").
+ */
+export const getFoodNameCandidates = (name: string): string[] => {
+  const candidates = [name];
+  if (/ies$/.test(name)) candidates.push(name.replace(/ies$/, 'y'));
+  else if (/(oes|ches|shes|xes|sses)$/.test(name)) candidates.push(name.replace(/es$/, ''));
+  else if (/[^s]s$/.test(name)) candidates.push(name.slice(0, -1));
+  return candidates;
+};
+
+// 0 for an exact name, 1 for a name starting with a candidate, 2 for a name
+// containing one as a word, 3 otherwise
+const scoreFoodName = (candidates: string[], name: string): number => {
+  const foodName = name.toLowerCase();
+  if (candidates.includes(foodName)) return 0;
+  if (candidates.some(candidate => foodName.startsWith(candidate))) return 1;
+  if (candidates.some(candidate => new RegExp(`\\b${candidate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(foodName))) return 2;
+  return 3;
+};
+
+/**
+ * Picks the food that best matches a parsed name: an exact name first, then names
+ * starting with it, then names containing it as a word, preferring shorter names.
+ * @param name - The food name read from the sentence.
+ * @param foods - Foods found by a text search for the name.
+ */
+export const pickBestFoodMatch = <T extends { name: string }>(name: string, foods: T[]): T | undefined => {
+  const candidates = getFoodNameCandidates(name.toLowerCase());
+  const score = (food: T) => scoreFoodName(candidates, food.name);
+
+  return [...foods].sort((a, b) => score(a) - score(b) || a.name.length - b.name.length)[0];
+};
+
+/**
+ * Tells whether a food's name contains the parsed name, in any of its spellings.
+ */
+export const isFoodNameMatch = (name: string, foodName: string): boolean =>
+  scoreFoodName(getFoodNameCandidates(name.toLowerCase()), foodName) < 3;
+
+/**
+ * Matches the foods named in a phrase. Parts joined by "and", "with" or "plus" are
+ * looked up together first, longest run first, and only split where no food is
+ * named by the whole run, e.g. "mac and cheese with salad" is a food plus salad.
+ * @param phrase - A phrase read by parseMealText.
+ * @param findFood - Looks up the food that best matches a name.
+ * @returns Each food phrase with the food it matched, if any.
+ */
+export const matchFoodPhrases = async <T extends { name: string }>(
+  phrase: ParsedFoodPhrase,
+  findFood: (name: string) => Promise<T | undefined>,
+): Promise<Array<{ phrase: ParsedFoodPhrase; food?: T }>> => {
+  // Parts at even indexes, the conjunctions joining them in between
+  const pieces = phrase.text.split(CONJUNCTION_PATTERN);
+  const partCount = Math.ceil(pieces.length / 2);
+  const matches: Array<{ phrase: ParsedFoodPhrase; food?: T }> = [];
+
+  let start = 0;
+  while (start < partCount) {
+    let end = partCount;
+    let match: { phrase: ParsedFoodPhrase; food?: T } | null = null;
+
+    for (; end > start; end -= 1) {
+      const run = parseFoodPhrase(pieces.slice(start * 2, end * 2 - 1).join(' '));
+      if (!run) continue;
+
+      const food = await findFood(run.name);
+      // A run of several parts must be named by the food, not just resemble it
+      if (food && (end - start === 1 || isFoodNameMatch(run.name, food.name))) {
+        match = { phrase: run, food };
+        break;
+      }
+      if (end - start === 1) match = { phrase: run };
+    }
+
+    if (match) matches.push(match);
+    start = Math.max(end, start + 1);
+  }
+
+  return matches;
+};
+
+/**
+ * Turns a parsed food phrase and the food it matched into a meal log food item.
+ * The spoken quantity is kept in its unit when the food can be logged in it; a
+ * phrase without a unit is read as servings, and a unit the food cannot be
+ * converted to (e.g. millilitres of a food without a density) as one serving.
+ */
+export const toParsedFoodItem = (phrase: ParsedFoodPhrase, food: ServingFood) => {
+  const item = toServingItem(food);
+  const unit = phrase.unit ?? SERVING_UNIT;
+
+  if (unit === SERVING_UNIT) {
+    return { ...item, quantity: phrase.quantity };
+  }
+
+  const units = getQuantityUnits(item);
+  return units.includes(unit) ? { ...item, quantity: phrase.quantity, unit } : item;
+};
@@ -0,0 +1,75 @@
+// src/utils/measurements.ts
+// This file contains the body sites that can be measured with a tape and the
+// metrics derived from them. Measurements are stored in centimetres on
+// body_measurements, one row per site and day, so tracking another site needs no
+// schema change; users pick the sites they track and their display unit in their
+// preferences.
+
+import { LengthUnit, convertLength } from './units';
+
+export const BODY_SITES = [
+  { id: 'neck', label: 'Neck' },
+  { id: 'shoulders', label: 'Shoulders' },
+  { id: 'chest', label: 'Chest' },
+  { id: 'waist', label: 'Waist' },
+  { id: 'hips', label: 'Hips' },
+  { id: 'left_arm', label: 'Left Arm' },
+  { id: 'right_arm', label: 'Right Arm' },
+  { id: 'left_thigh', label: 'Left Thigh' },
+  { id: 'right_thigh', label: 'Right Thigh' },
+  { id: 'calves', label: 'Calves' },
+] as const;
+
+export type BodySiteId = typeof BODY_SITES[number]['id'];
+
+export const BODY_SITE_IDS = BODY_SITES.map(site => site.id) as [BodySiteId, ...BodySiteId[]];
+
+// Tracked until the user picks their own sites
+export const DEFAULT_MEASUREMENT_SITES: BodySiteId[] = ['chest', 'waist', 'hips', 'left_arm', 'right_arm'];
+export const DEFAULT_MEASUREMENT_UNIT: LengthUnit = 'cm';
+
+export const getBodySiteLabel = (siteId: string): string =>
+  BODY_SITES.find(site => site.id === siteId)?.label || siteId;
+
+/**
+ * Formats a measurement stored in centimetres in the user's unit.
+ */
+export const formatMeasurement = (valueCm: number, unit: LengthUnit): string =>
+  `${Math.round(convertLength(valueCm, 'cm', unit) * 10) / 10} ${unit}`;
+
+export interface DerivedMeasurementMetrics {
+  waistToHeight: number | null;
+  waistToHip: number | null;
+  waistToHeightElevated: boolean;
+  waistToHipElevated: boolean;
+}
+
+// Ratios above which health guidelines (WHO) consider abdominal fat a risk
+const WAIST_TO_HEIGHT_LIMIT = 0.5;
+const WAIST_TO_HIP_LIMITS = { male: 0.9, female: 0.85 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Calculates waist-to-height and waist-to-hip ratios.
+ * @param measurementsCm - The latest measurement per site, in cm.
+ * @param heightCm - The user's height from user_profiles.
+ * @param gender - The user's gender from user_profiles; picks the waist-to-hip limit.
+ */
+export const getDerivedMetrics = (
+  measurementsCm: Partial<Record<BodySiteId, number>>,
+  heightCm?: number | null,
+  gender?: string | null,
+): DerivedMeasurementMetrics => {
+  const { waist, hips } = measurementsCm;
+  const waistToHeight = waist && heightCm ? round2(waist / heightCm) : null;
+  const waistToHip = waist && hips ? round2(waist / hips) : null;
+  const waistToHipLimit = gender === 'male' ? WAIST_TO_HIP_LIMITS.male : WAIST_TO_HIP_LIMITS.female;
+
+  return {
+    waistToHeight,
+    waistToHip,
+    waistToHeightElevated: waistToHeight !== null && waistToHeight > WAIST_TO_HEIGHT_LIMIT,
+    waistToHipElevated: waistToHip !== null && waistToHip > waistToHipLimit,
+  };
+};
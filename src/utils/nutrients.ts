@@ -0,0 +1,93 @@
+// src/utils/nutrients.ts
+// This file is the registry of the nutrients tracked beyond calories and the three
+// macros: fiber, sugar, saturated fat, sodium, cholesterol and key vitamins and
+// minerals. Every place that stores, sums, validates or displays micronutrients
+// reads the list from here, so adding a nutrient means adding one entry (plus its
+// database columns). Default targets are the adult Daily Values; users can override
+// them per nutrient in their goals (user_goals.nutrient_targets).
+
+// 'min' targets are amounts to reach (fiber), 'max' targets are limits to stay under (sodium)
+export type NutrientTargetKind = 'min' | 'max';
+
+export interface MicronutrientDefinition {
+  key: string;
+  label: string;
+  unit: 'g' | 'mg' | 'mcg';
+  decimals: number; // Precision used when rounding totals
+  defaultTarget: number;
+  targetKind: NutrientTargetKind;
+}
+
+export const MICRONUTRIENTS = [
+  { key: 'fiber', label: 'Fiber', unit: 'g', decimals: 1, defaultTarget: 28, targetKind: 'min' },
+  { key: 'sugar', label: 'Sugar', unit: 'g', decimals: 1, defaultTarget: 50, targetKind: 'max' },
+  { key: 'saturated_fat', label: 'Saturated Fat', unit: 'g', decimals: 1, defaultTarget: 20, targetKind: 'max' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', decimals: 0, defaultTarget: 2300, targetKind: 'max' },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', decimals: 0, defaultTarget: 300, targetKind: 'max' },
+  { key: 'potassium', label: 'Potassium', unit: 'mg', decimals: 0, defaultTarget: 4700, targetKind: 'min' },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', decimals: 0, defaultTarget: 1300, targetKind: 'min' },
+  { key: 'iron', label: 'Iron', unit: 'mg', decimals: 1, defaultTarget: 18, targetKind: 'min' },
+  { key: 'vitamin_c', label: 'Vitamin C', unit: 'mg', decimals: 1, defaultTarget: 90, targetKind: 'min' },
+  { key: 'vitamin_d', label: 'Vitamin D', unit: 'mcg', decimals: 1, defaultTarget: 20, targetKind: 'min' },
+] as const satisfies readonly MicronutrientDefinition[];
+
+export type MicronutrientKey = typeof MICRONUTRIENTS[number]['key'];
+
+// Micronutrient amounts of a food item or meal; missing values are unknown, not zero
+export type MicronutrientValues = Partial<Record<MicronutrientKey, number>>;
+
+// The same amounts as stored on food_items, per reference serving
+export type MicronutrientsPerServing = Partial<Record<`${MicronutrientKey}_per_serving`, number | null>>;
+
+export type NutrientTargets = Record<MicronutrientKey, number>;
+
+export const MICRONUTRIENT_KEYS: MicronutrientKey[] = MICRONUTRIENTS.map(nutrient => nutrient.key);
+
+// The food_items columns holding micronutrients, for select lists
+export const MICRONUTRIENT_PER_SERVING_COLUMNS = MICRONUTRIENT_KEYS.map(key => `${key}_per_serving`).join(', ');
+
+/**
+ * Builds a record with one value per micronutrient.
+ * @param getValue - Returns the value for a micronutrient.
+ */
+export const mapMicronutrients = <T>(
+  getValue: (key: MicronutrientKey, nutrient: typeof MICRONUTRIENTS[number]) => T,
+): Record<MicronutrientKey, T> =>
+  Object.fromEntries(MICRONUTRIENTS.map(nutrient => [nutrient.key, getValue(nutrient.key, nutrient)])) as Record<MicronutrientKey, T>;
+
+/**
+ * Reads the micronutrients that are set on a record, skipping missing and null values.
+ * @param source - A food item, meal food item row or form value.
+ * @param suffix - Appended to each key, e.g. "_per_serving" for food_items rows.
+ */
+export const pickMicronutrients = (source: object, suffix = ''): MicronutrientValues => {
+  const values = source as Record<string, unknown>;
+  return Object.fromEntries(
+    MICRONUTRIENT_KEYS
+      .filter(key => typeof values[`${key}${suffix}`] === 'number' && !Number.isNaN(values[`${key}${suffix}`]))
+      .map(key => [key, values[`${key}${suffix}`] as number])
+  );
+};
+
+/**
+ * Returns a user's micronutrient targets, using the default for every nutrient the
+ * user has not set.
+ * @param custom - The user's targets from user_goals.nutrient_targets.
+ */
+export const getNutrientTargets = (custom?: Partial<Record<MicronutrientKey, number | null>> | null): NutrientTargets =>
+  mapMicronutrients((key, nutrient) => custom?.[key] || nutrient.defaultTarget);
+
+/**
+ * Formats an amount of a micronutrient in its unit, rounded to its precision.
+ */
+export const formatNutrientAmount = (value: number, nutrient: MicronutrientDefinition): string => {
+  const factor = 10 ** nutrient.decimals;
+  return `${Math.round(value * factor) / factor} ${nutrient.unit}`;
+};
+
+/**
+ * Tells whether an amount exceeds a limit. Goals ('min' targets) are never exceeded
+ * in a harmful way, so only 'max' targets can be over.
+ */
+export const isOverLimit = (value: number, target: number, nutrient: MicronutrientDefinition): boolean =>
+  nutrient.targetKind === 'max' && value > target;
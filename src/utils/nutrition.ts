@@ -0,0 +1,202 @@
+// src/utils/nutrition.ts
+// This file contains pure helpers for working with the nutrition values of
+// logged food items, so that meal totals are calculated the same way in the
+// meal logger, the meal history and the dashboard widgets. Micronutrients from the
+// registry in utils/nutrients are scaled and summed alongside the macros.
+
+import { FoodUnitOverrides, SERVING_UNIT, convertUnit, getConvertibleUnits, normalizeUnit } from './units';
+import {
+  MICRONUTRIENT_KEYS,
+  MicronutrientKey,
+  MicronutrientsPerServing,
+  MICRONUTRIENT_PER_SERVING_COLUMNS,
+  mapMicronutrients,
+  pickMicronutrients,
+} from './nutrients';
+
+export type NutritionTotals = {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+} & Record<MicronutrientKey, number>;
+
+// Every value of NutritionTotals, e.g. for naming per-nutrient columns
+export const NUTRITION_TOTAL_KEYS: Array<keyof NutritionTotals> = ['calories', 'protein', 'carbs', 'fat', ...MICRONUTRIENT_KEYS];
+
+// The minimal shape of a food item needed to calculate its nutrition.
+// Nutrition values are per reference serving (serving_size x serving_unit, e.g. 100 g),
+// and the quantity is expressed either in servings or in any unit the serving's unit
+// converts to, using the food's density and piece weight where needed.
+// Micronutrients are optional; stored rows hold null for values the food did not list.
+export interface NutritionItem extends FoodUnitOverrides, Partial<Record<MicronutrientKey, number | null>> {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  quantity: number;
+  unit?: string | null;
+  serving_size?: number | null;
+  serving_unit?: string | null;
+}
+
+export const EMPTY_TOTALS: NutritionTotals = {
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  ...mapMicronutrients(() => 0),
+};
+
+type QuantityItem = Pick<
+  NutritionItem,
+  'quantity' | 'unit' | 'serving_size' | 'serving_unit' | 'density_g_per_ml' | 'piece_weight_g'
+>;
+
+/**
+ * Returns the units a food item's quantity can be logged in: servings, the unit of
+ * its reference serving, and every unit that unit converts to for this food.
+ */
+export const getQuantityUnits = (item: Omit<QuantityItem, 'quantity' | 'unit'>): string[] => {
+  const servingUnit = normalizeUnit(item.serving_unit);
+  if (!servingUnit || servingUnit === SERVING_UNIT) {
+    return [SERVING_UNIT];
+  }
+
+  const otherUnits = getConvertibleUnits(servingUnit, item).filter(unit => unit !== servingUnit);
+  return [SERVING_UNIT, servingUnit, ...otherUnits];
+};
+
+/**
+ * Calculates how many reference servings a logged quantity represents.
+ * A quantity in servings is used as is; any other quantity is converted to the
+ * serving's unit and divided by the serving size (2 tbsp of oil described per
+ * 100 g is 2 x 14.8 ml x 0.92 g/ml / 100 g = 0.27 servings).
+ * Items without a reference serving, such as meals logged before serving sizes were
+ * stored, and quantities that cannot be converted are treated as logged in servings.
+ * @param item - The food item to calculate.
+ * @returns The number of reference servings.
+ */
+export const getServingMultiplier = (item: QuantityItem): number => {
+  const quantity = item.quantity || 0;
+  const unit = normalizeUnit(item.unit);
+
+  if (!item.serving_size || !item.serving_unit || !unit || unit === SERVING_UNIT) {
+    return quantity;
+  }
+
+  const inServingUnit = convertUnit(quantity, unit, item.serving_unit, item);
+  return inServingUnit === null ? quantity : inServingUnit / item.serving_size;
+};
+
+/**
+ * Converts a quantity between the units returned by getQuantityUnits, so switching
+ * the unit keeps the logged amount the same (1 serving of 100 g becomes 100 g).
+ */
+export const convertQuantity = (item: QuantityItem, toUnit: string): number => {
+  const servings = getServingMultiplier(item);
+  if (normalizeUnit(toUnit) === SERVING_UNIT || !item.serving_size || !item.serving_unit) {
+    return servings;
+  }
+
+  const inServingUnit = servings * item.serving_size;
+  return convertUnit(inServingUnit, item.serving_unit, toUnit, item) ?? inServingUnit;
+};
+
+/**
+ * Calculates the nutrition consumed for a single food item.
+ * Nutrition values are stored per reference serving and scaled by the number of
+ * servings the logged quantity represents.
+ * @param item - The food item to calculate.
+ * @returns The nutrition consumed for the item.
+ */
+export const calculateItemNutrition = (item: NutritionItem): NutritionTotals => {
+  const servings = getServingMultiplier(item);
+  return {
+    calories: (item.calories || 0) * servings,
+    protein: (item.protein || 0) * servings,
+    carbs: (item.carbs || 0) * servings,
+    fat: (item.fat || 0) * servings,
+    ...mapMicronutrients(key => (item[key] || 0) * servings),
+  };
+};
+
+// A food as described by food_items, search results, Quick Add or a recipe:
+// nutrition per reference serving of serving_size x serving_unit.
+export interface ServingFood extends FoodUnitOverrides, MicronutrientsPerServing {
+  name: string;
+  calories_per_serving: number;
+  protein_per_serving: number;
+  carbs_per_serving: number;
+  fat_per_serving: number;
+  serving_size: number;
+  serving_unit: string;
+  barcode?: string | null;
+}
+
+// The food_items columns a ServingFood is read from, for select lists
+export const FOOD_ITEM_COLUMNS: string = 'id, name, calories_per_serving, protein_per_serving, carbs_per_serving, fat_per_serving, '
+  + `${MICRONUTRIENT_PER_SERVING_COLUMNS}, serving_size, serving_unit, density_g_per_ml, piece_weight_g, barcode`;
+
+/**
+ * Turns a food into a loggable item of one reference serving.
+ * @param food - The food to log.
+ * @returns The item in the meal log food item shape.
+ */
+export const toServingItem = (food: ServingFood) => ({
+  name: food.name,
+  calories: food.calories_per_serving,
+  protein: food.protein_per_serving,
+  carbs: food.carbs_per_serving,
+  fat: food.fat_per_serving,
+  quantity: 1,
+  unit: SERVING_UNIT,
+  serving_size: food.serving_size,
+  serving_unit: food.serving_unit,
+  density_g_per_ml: food.density_g_per_ml ?? undefined,
+  piece_weight_g: food.piece_weight_g ?? undefined,
+  barcode: food.barcode ?? undefined,
+  ...pickMicronutrients(food, '_per_serving'),
+});
+
+/**
+ * Sums two sets of nutrition totals.
+ */
+export const addTotals = (a: NutritionTotals, b: NutritionTotals): NutritionTotals => ({
+  calories: a.calories + b.calories,
+  protein: a.protein + b.protein,
+  carbs: a.carbs + b.carbs,
+  fat: a.fat + b.fat,
+  ...mapMicronutrients(key => a[key] + b[key]),
+});
+
+/**
+ * Multiplies nutrition totals by a factor, e.g. to divide a recipe into servings.
+ */
+export const scaleTotals = (totals: NutritionTotals, factor: number): NutritionTotals => ({
+  calories: totals.calories * factor,
+  protein: totals.protein * factor,
+  carbs: totals.carbs * factor,
+  fat: totals.fat * factor,
+  ...mapMicronutrients(key => totals[key] * factor),
+});
+
+/**
+ * Calculates the total nutrition of a meal from its food items.
+ * @param items - The food items of the meal.
+ * @returns The summed nutrition totals.
+ */
+export const calculateMealTotals = (items: NutritionItem[]): NutritionTotals =>
+  items.reduce((acc, item) => addTotals(acc, calculateItemNutrition(item)), { ...EMPTY_TOTALS });
+
+/**
+ * Rounds nutrition totals for display (calories to whole numbers, macros to one decimal,
+ * micronutrients to the precision given in the registry).
+ */
+export const roundTotals = (totals: NutritionTotals): NutritionTotals => ({
+  calories: Math.round(totals.calories),
+  protein: Math.round(totals.protein * 10) / 10,
+  carbs: Math.round(totals.carbs * 10) / 10,
+  fat: Math.round(totals.fat * 10) / 10,
+  ...mapMicronutrients((key, nutrient) => Math.round(totals[key] * 10 ** nutrient.decimals) / 10 ** nutrient.decimals),
+});
@@ -0,0 +1,190 @@
+// src/utils/nutritionLabel.ts
+// This file reads nutrient values from the text of a nutrition facts panel, as
+// recognized by OCR (services/labelOcr). Both US "Nutrition Facts" panels
+// ("Total Fat 8g 10%") and EU tables ("Energy 1046 kJ / 250 kcal", "of which
+// sugars", "Salt") are understood, line by line. Where a table has several columns
+// (per 100 g and per serving) the first one is read, and the serving size is set to
+// match it. OCR mistakes that are common on labels, like "O" for 0 or "8,0" for
+// 8.0, are corrected first. Everything read is meant to be reviewed by the user.
+
+import { MICRONUTRIENTS, MicronutrientKey } from './nutrients';
+import { parseServingSize } from './foodImport';
+
+export const KJ_PER_KCAL = 4.184;
+
+// Sodium is 40 % of salt by weight; EU labels only list salt
+const SODIUM_MG_PER_G_SALT = 400;
+
+// Vitamin D listed in international units
+const MCG_PER_IU_VITAMIN_D = 0.025;
+
+type MacroField = 'calories_per_serving' | 'protein_per_serving' | 'carbs_per_serving' | 'fat_per_serving';
+export type LabelNutrientField = MacroField | `${MicronutrientKey}_per_serving`;
+
+export interface ParsedNutritionLabel {
+  serving_size?: number;
+  serving_unit?: string;
+  values: Partial<Record<LabelNutrientField, number>>;
+  // Whether the values are per 100 g/ml rather than per serving
+  per100: boolean;
+}
+
+type AmountUnit = 'g' | 'mg' | 'mcg';
+
+interface LabelRow {
+  pattern: RegExp;
+  field: LabelNutrientField;
+  unit: AmountUnit;
+}
+
+const MICRONUTRIENT_UNITS = Object.fromEntries(
+  MICRONUTRIENTS.map(({ key, unit }) => [key, unit])
+) as Record<MicronutrientKey, AmountUnit>;
+
+const micronutrientRow = (pattern: RegExp, key: MicronutrientKey): LabelRow => ({
+  pattern,
+  field: `${key}_per_serving`,
+  unit: MICRONUTRIENT_UNITS[key],
+});
+
+// Rows of a label, tried in this order against the start of each line; more
+// specific names ("saturated fat") come before the general ones ("fat")
+const LABEL_ROWS: LabelRow[] = [
+  micronutrientRow(/^(?:of which\s+|-\s*)?(?:saturated(?: fat)?|saturates|sat\.? fat)\b/, 'saturated_fat'),
+  micronutrientRow(/^(?:of which\s+|-\s*)?(?:total\s+)?sugars?\b/, 'sugar'),
+  micronutrientRow(/^(?:dietary\s+)?fib(?:er|re)\b/, 'fiber'),
+  { pattern: /^(?:total\s+)?fat\b/, field: 'fat_per_serving', unit: 'g' },
+  { pattern: /^(?:total\s+)?carbohydrates?\b|^(?:total\s+)?carbs\b/, field: 'carbs_per_serving', unit: 'g' },
+  { pattern: /^protein\b/, field: 'protein_per_serving', unit: 'g' },
+  micronutrientRow(/^cholesterol\b/, 'cholesterol'),
+  micronutrientRow(/^sodium\b/, 'sodium'),
+  micronutrientRow(/^potassium\b/, 'potassium'),
+  micronutrientRow(/^calcium\b/, 'calcium'),
+  micronutrientRow(/^iron\b/, 'iron'),
+  micronutrientRow(/^vit(?:amin|\.)?\s*c\b/, 'vitamin_c'),
+  micronutrientRow(/^vit(?:amin|\.)?\s*d\d?\b/, 'vitamin_d'),
+];
+
+// Lines that look like a row above but are not one
+const IGNORED_LINES = /^(?:trans|poly|mono|incl|includes|added|calories from|% ?daily|\*)/;
+
+const UNIT_FACTORS: Record<AmountUnit, number> = { g: 1, mg: 0.001, mcg: 0.000001 };
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Fixes characters OCR commonly misreads in the numbers of a label and lower-cases
+ * the text.
+ */
+export const normalizeLabelText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[µμ]g\b/g, 'mcg')
+    // "O" and "o" read for zero before a unit or another digit: "Og", "1O mg"
+    .replace(/(^|[\s(/:])o(?=\s?(?:g|mg|mcg|kcal|kj|%|\d))/g, '$10')
+    .replace(/(\d)o(?=\s?(?:g|mg|mcg|kcal|kj|%|\d|\b))/g, '$10')
+    // "l" and "I" read for one between digits
+    .replace(/(\d)[li](?=\d)/g, '$11')
+    // Decimal commas: "8,0 g"
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .replace(/[ \t]+/g, ' ');
+
+// The first amount on a line that is not a percentage, with its unit if given
+const readAmount = (text: string): { value: number; unit?: string } | undefined => {
+  const pattern = /(<\s*)?(\d+(?:\.\d+)?)\s*(mcg|mg|g|kcal|kj|iu|%)?/g;
+  let match = pattern.exec(text);
+  while (match) {
+    if (match[3] !== '%') {
+      // "<1 g" is printed for traces
+      const value = match[1] ? 0 : Number(match[2]);
+      return { value, unit: match[3] };
+    }
+    match = pattern.exec(text);
+  }
+  return undefined;
+};
+
+// Converts an amount to the unit a field is stored in; amounts without a unit are
+// taken to be in that unit already
+const toFieldUnit = (amount: { value: number; unit?: string }, row: LabelRow): number => {
+  if (amount.unit === 'iu') return row.field === 'vitamin_d_per_serving' ? amount.value * MCG_PER_IU_VITAMIN_D : amount.value;
+  if (amount.unit === 'g' || amount.unit === 'mg' || amount.unit === 'mcg') {
+    return (amount.value * UNIT_FACTORS[amount.unit]) / UNIT_FACTORS[row.unit];
+  }
+  return amount.value;
+};
+
+// Reads the energy of a line in kcal: "calories 230", "energy 1046 kj / 250 kcal"
+const readCalories = (line: string): number | undefined => {
+  const kcal = line.match(/(\d+(?:\.\d+)?)\s*kcal/);
+  if (kcal) return Number(kcal[1]);
+  const kilojoules = line.match(/(\d+(?:\.\d+)?)\s*kj/);
+  if (kilojoules) return Number(kilojoules[1]) / KJ_PER_KCAL;
+  if (/^calories\b/.test(line)) return readAmount(line.replace(/^calories/, ''))?.value;
+  return undefined;
+};
+
+/**
+ * Reads serving size and nutrient values from the OCR text of a nutrition label.
+ * @param text - The recognized text, one label row per line.
+ * @returns The values found; fields that could not be read are left out.
+ */
+export const parseNutritionLabel = (text: string): ParsedNutritionLabel => {
+  const lines = normalizeLabelText(text)
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const values: ParsedNutritionLabel['values'] = {};
+  let serving: { size: number; unit: string } | undefined;
+  let saltGrams: number | undefined;
+
+  lines.forEach(line => {
+    if (IGNORED_LINES.test(line)) return;
+
+    if (/^serving size\b/.test(line)) {
+      serving = serving ?? parseServingSize(line);
+      return;
+    }
+
+    if (values.calories_per_serving === undefined && /^(?:calories|energy)\b|kcal|\bkj\b/.test(line)) {
+      const calories = readCalories(line);
+      if (calories !== undefined) {
+        values.calories_per_serving = Math.round(calories);
+        return;
+      }
+    }
+
+    if (/^salt\b/.test(line)) {
+      const amount = readAmount(line.replace(/^salt/, ''));
+      if (amount) saltGrams = toFieldUnit(amount, { pattern: /^salt/, field: 'sodium_per_serving', unit: 'g' });
+      return;
+    }
+
+    const row = LABEL_ROWS.find(candidate => candidate.pattern.test(line));
+    if (!row || values[row.field] !== undefined) return;
+    const amount = readAmount(line.replace(row.pattern, ''));
+    if (amount) values[row.field] = round(toFieldUnit(amount, row));
+  });
+
+  if (values.sodium_per_serving === undefined && saltGrams !== undefined) {
+    values.sodium_per_serving = Math.round(saltGrams * SODIUM_MG_PER_G_SALT);
+  }
+
+  // The first column of EU tables is per 100 g or 100 ml
+  const per100Line = lines.find(line => /\bper 100 ?(?:g|ml)\b/.test(line));
+  if (per100Line) {
+    const unit = /\bper 100 ?ml\b/.test(per100Line) ? 'ml' : 'g';
+    return { serving_size: 100, serving_unit: unit, values, per100: true };
+  }
+
+  return { serving_size: serving?.size, serving_unit: serving?.unit, values, per100: false };
+};
+
+/**
+ * Tells whether OCR text is worth showing: at least calories or two macros were read.
+ */
+export const isUsableLabel = (label: ParsedNutritionLabel): boolean =>
+  label.values.calories_per_serving !== undefined
+  || (['protein_per_serving', 'carbs_per_serving', 'fat_per_serving'] as const)
+    .filter(field => label.values[field] !== undefined).length >= 2;
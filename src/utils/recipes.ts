@@ -0,0 +1,62 @@
+// src/utils/recipes.ts
+// This file contains pure helpers for recipes. A recipe's nutrition is the sum of
+// its ingredients divided by its number of servings. When the total yield is known
+// (e.g. 1200 g of soup for 6 servings) one serving is also expressed in that unit,
+// so a recipe can be logged like any other food in servings or by weight/volume.
+
+import { Database } from '../types/database.types';
+import { NutritionTotals, ServingFood, calculateMealTotals, roundTotals, scaleTotals } from './nutrition';
+import { MICRONUTRIENT_KEYS, MicronutrientsPerServing } from './nutrients';
+import { SERVING_UNIT } from './units';
+
+export type Recipe = Database['public']['Tables']['recipes']['Row'];
+
+type RecipeNutritionInput = Pick<Recipe, 'servings' | 'total_yield' | 'yield_unit' | 'ingredients'>;
+
+export interface RecipeNutrition {
+  totals: NutritionTotals;
+  perServing: NutritionTotals;
+  servingSize: number;
+  servingUnit: string;
+}
+
+/**
+ * Calculates the total and per-serving nutrition of a recipe.
+ * @param recipe - The recipe, or the values of a recipe being edited.
+ * @returns The totals, the per-serving values and the size of one serving.
+ */
+export const calculateRecipeNutrition = (recipe: RecipeNutritionInput): RecipeNutrition => {
+  const totals = calculateMealTotals(recipe.ingredients);
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  const hasYield = !!recipe.total_yield && !!recipe.yield_unit;
+
+  return {
+    totals,
+    perServing: scaleTotals(totals, 1 / servings),
+    servingSize: hasYield ? Math.round(((recipe.total_yield as number) / servings) * 10) / 10 : 1,
+    servingUnit: hasYield ? (recipe.yield_unit as string) : SERVING_UNIT,
+  };
+};
+
+/**
+ * Describes a recipe as a food with per-serving nutrition, so it can be searched
+ * and logged as a single item.
+ */
+export const recipeToServingFood = (recipe: Recipe): Omit<ServingFood, 'barcode'> & { id: string } => {
+  const { perServing, servingSize, servingUnit } = calculateRecipeNutrition(recipe);
+  const rounded = roundTotals(perServing);
+  const micronutrients: MicronutrientsPerServing = Object.fromEntries(
+    MICRONUTRIENT_KEYS.map(key => [`${key}_per_serving`, rounded[key]])
+  );
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    calories_per_serving: rounded.calories,
+    protein_per_serving: rounded.protein,
+    carbs_per_serving: rounded.carbs,
+    fat_per_serving: rounded.fat,
+    serving_size: servingSize,
+    serving_unit: servingUnit,
+    ...micronutrients,
+  };
+};
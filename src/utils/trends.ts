@@ -0,0 +1,77 @@
+// src/utils/trends.ts
+// This file contains helpers for trends in dated measurements such as body weight:
+// a time-based moving average that smooths out day-to-day fluctuations (water,
+// salt, scale noise), a least-squares rate of change, and a projection of the date
+// a target value will be reached at that rate. Points are dated yyyy-MM-dd and
+// need not be evenly spaced.
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+export interface TrendPoint {
+  date: string; // yyyy-MM-dd
+  value: number;
+}
+
+// Days averaged for each point of the trend line
+export const DEFAULT_TREND_WINDOW_DAYS = 7;
+
+const sortByDate = (points: TrendPoint[]) => [...points].sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Smooths points with a trailing moving average: each point becomes the average of
+ * all points from the preceding window (including itself).
+ * @param points - The measurements, in any order.
+ * @param windowDays - The number of days averaged.
+ * @returns One smoothed point per measurement, sorted by date.
+ */
+export const movingAverage = (points: TrendPoint[], windowDays = DEFAULT_TREND_WINDOW_DAYS): TrendPoint[] => {
+  const sorted = sortByDate(points);
+  return sorted.map((point, index) => {
+    const pointDate = parseISO(point.date);
+    const window = sorted
+      .slice(0, index + 1)
+      .filter(other => differenceInCalendarDays(pointDate, parseISO(other.date)) < windowDays);
+    const average = window.reduce((sum, other) => sum + other.value, 0) / window.length;
+    return { date: point.date, value: average };
+  });
+};
+
+/**
+ * Calculates the rate of change of points with a least-squares fit.
+ * @returns The change per day, or null when the points span less than two days.
+ */
+export const ratePerDay = (points: TrendPoint[]): number | null => {
+  if (points.length < 2) return null;
+
+  const origin = parseISO(sortByDate(points)[0].date);
+  const xs = points.map(point => differenceInCalendarDays(parseISO(point.date), origin));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = points.reduce((sum, point) => sum + point.value, 0) / points.length;
+
+  const covariance = xs.reduce((sum, x, index) => sum + (x - meanX) * (points[index].value - meanY), 0);
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  if (variance === 0) return null;
+
+  return covariance / variance;
+};
+
+/**
+ * Projects the date a target value will be reached at the current rate of change.
+ * @param points - The measurements; the trend is taken from their moving average.
+ * @param target - The value to reach, e.g. the target weight.
+ * @returns The projected date (yyyy-MM-dd), today's value when the target is already
+ *          reached, or null when the trend is flat or heading away from the target.
+ */
+export const projectTargetDate = (points: TrendPoint[], target: number): string | null => {
+  const trend = movingAverage(points);
+  if (trend.length === 0) return null;
+
+  const latest = trend[trend.length - 1];
+  const remaining = target - latest.value;
+  if (Math.abs(remaining) < 0.05) return latest.date;
+
+  const rate = ratePerDay(trend);
+  if (!rate || Math.sign(rate) !== Math.sign(remaining)) return null;
+
+  return format(addDays(parseISO(latest.date), Math.ceil(remaining / rate)), 'yyyy-MM-dd');
+};
@@ -0,0 +1,180 @@
+// src/utils/units.ts
+// This file contains the unit model used for food quantities. Units belong to a
+// dimension (mass, volume or count) and convert through a base unit per dimension
+// (grams, millilitres, pieces). Converting between dimensions needs food-specific
+// data: a density to go between mass and volume, and a piece weight to go between
+// pieces and mass. Both can be stored per food on food_items.
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export interface UnitDefinition {
+  id: string;
+  label: string;
+  dimension: UnitDimension;
+  // How many base units (g, ml or piece) one of this unit is
+  toBase: number;
+}
+
+// Food-specific data needed to convert between dimensions.
+export interface FoodUnitOverrides {
+  density_g_per_ml?: number | null;
+  piece_weight_g?: number | null;
+}
+
+// Unit used when a quantity is logged as a number of reference servings.
+export const SERVING_UNIT = 'serving';
+
+export const UNITS: Record<string, UnitDefinition> = {
+  mg: { id: 'mg', label: 'mg', dimension: 'mass', toBase: 0.001 },
+  g: { id: 'g', label: 'g', dimension: 'mass', toBase: 1 },
+  kg: { id: 'kg', label: 'kg', dimension: 'mass', toBase: 1000 },
+  oz: { id: 'oz', label: 'oz', dimension: 'mass', toBase: 28.349523125 },
+  lb: { id: 'lb', label: 'lb', dimension: 'mass', toBase: 453.59237 },
+  ml: { id: 'ml', label: 'ml', dimension: 'volume', toBase: 1 },
+  l: { id: 'l', label: 'l', dimension: 'volume', toBase: 1000 },
+  tsp: { id: 'tsp', label: 'tsp', dimension: 'volume', toBase: 4.92892159375 },
+  tbsp: { id: 'tbsp', label: 'tbsp', dimension: 'volume', toBase: 14.78676478125 },
+  fl_oz: { id: 'fl_oz', label: 'fl oz', dimension: 'volume', toBase: 29.5735295625 },
+  cup: { id: 'cup', label: 'cup', dimension: 'volume', toBase: 236.5882365 },
+  piece: { id: 'piece', label: 'piece', dimension: 'count', toBase: 1 },
+};
+
+// Free-text spellings found in food data and user input, mapped to unit ids.
+const UNIT_ALIASES: Record<string, string> = {
+  milligram: 'mg',
+  milligrams: 'mg',
+  gram: 'g',
+  grams: 'g',
+  gr: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  'fl oz': 'fl_oz',
+  'fluid ounce': 'fl_oz',
+  'fluid ounces': 'fl_oz',
+  cups: 'cup',
+  pieces: 'piece',
+  pc: 'piece',
+  pcs: 'piece',
+  item: 'piece',
+  items: 'piece',
+  unit: 'piece',
+  units: 'piece',
+  servings: SERVING_UNIT,
+};
+
+/**
+ * Normalizes a free-text unit ("Grams", "tablespoons", "fl oz") to its unit id.
+ * Unknown units are returned trimmed and lower-cased so they still compare equal.
+ */
+export const normalizeUnit = (unit?: string | null): string => {
+  const key = (unit || '').trim().toLowerCase().replace(/\.$/, '');
+  return UNIT_ALIASES[key] || key;
+};
+
+/**
+ * Returns the definition of a unit, or undefined for servings and unknown units.
+ */
+export const getUnit = (unit?: string | null): UnitDefinition | undefined => UNITS[normalizeUnit(unit)];
+
+// Converts an amount in the base unit of one dimension to the base unit of another.
+const convertBase = (
+  amount: number,
+  from: UnitDimension,
+  to: UnitDimension,
+  overrides: FoodUnitOverrides,
+): number | null => {
+  if (from === to) return amount;
+
+  // Bring everything to grams first, then out to the target dimension
+  let grams: number;
+  if (from === 'mass') {
+    grams = amount;
+  } else if (from === 'volume') {
+    if (!overrides.density_g_per_ml) return null;
+    grams = amount * overrides.density_g_per_ml;
+  } else {
+    if (!overrides.piece_weight_g) return null;
+    grams = amount * overrides.piece_weight_g;
+  }
+
+  if (to === 'mass') return grams;
+  if (to === 'volume') {
+    return overrides.density_g_per_ml ? grams / overrides.density_g_per_ml : null;
+  }
+  return overrides.piece_weight_g ? grams / overrides.piece_weight_g : null;
+};
+
+/**
+ * Converts an amount between two units.
+ * @param amount - The amount to convert.
+ * @param fromUnit - The unit the amount is given in.
+ * @param toUnit - The unit to convert to.
+ * @param overrides - Density and piece weight of the food, needed across dimensions.
+ * @returns The converted amount, or null if the units cannot be converted.
+ */
+export const convertUnit = (
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  overrides: FoodUnitOverrides = {},
+): number | null => {
+  const fromId = normalizeUnit(fromUnit);
+  const toId = normalizeUnit(toUnit);
+  if (fromId === toId) return amount;
+
+  const from = UNITS[fromId];
+  const to = UNITS[toId];
+  if (!from || !to) return null;
+
+  const base = convertBase(amount * from.toBase, from.dimension, to.dimension, overrides);
+  return base === null ? null : base / to.toBase;
+};
+
+/**
+ * Returns the ids of all units an amount in the given unit can be converted to,
+ * including the unit itself. Units of other dimensions are only included when the
+ * food has the density or piece weight needed to convert to them.
+ */
+export const getConvertibleUnits = (unit: string, overrides: FoodUnitOverrides = {}): string[] => {
+  const unitId = normalizeUnit(unit);
+  if (!UNITS[unitId]) return unitId ? [unitId] : [];
+
+  return Object.keys(UNITS).filter(candidate => convertUnit(1, unitId, candidate, overrides) !== null);
+};
+
+/**
+ * Returns the display label of a unit ("fl oz" for fl_oz); unknown units are returned as is.
+ */
+export const formatUnit = (unit?: string | null): string => getUnit(unit)?.label || (unit || '');
+
+// Length units for body measurements. They are kept apart from UNITS, which are the
+// units food quantities can be logged in.
+export type LengthUnit = 'cm' | 'in';
+
+export const LENGTH_UNITS: Record<LengthUnit, { id: LengthUnit; label: string; toCm: number }> = {
+  cm: { id: 'cm', label: 'cm', toCm: 1 },
+  in: { id: 'in', label: 'in', toCm: 2.54 },
+};
+
+/**
+ * Converts a length between centimetres and inches.
+ */
+export const convertLength = (value: number, fromUnit: LengthUnit, toUnit: LengthUnit): number =>
+  (value * LENGTH_UNITS[fromUnit].toCm) / LENGTH_UNITS[toUnit].toCm;
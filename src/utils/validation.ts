@@ -4,6 +4,14 @@
 // which can then be used with React Hook Form for client-side validation.
 
 import { z } from 'zod';
+import { MICRONUTRIENTS, MicronutrientKey } from './nutrients';
+import { BEVERAGE_IDS } from './hydration';
+import { BODY_SITES, BODY_SITE_IDS, BodySiteId } from './measurements';
+import { DAY_TYPE_IDS, WEEKDAYS } from './goalProfiles';
+import { MACRO_TARGET_MODE_IDS } from './macroTargets';
+import { FOOD_FILE_FORMATS, FOOD_SOURCES } from './foodImport';
+import { FOOD_VISIBILITY_IDS, REVIEW_DECISIONS } from './customFoods';
+import { toCanonicalBarcode } from './barcode';
 
 // Common profanity list (you can expand this)
 const profanityList = [
@@ -144,6 +152,11 @@ export const onboardingSchema = z.object({
 
 // --- Meal Logging Schemas ---
 
+// Optional micronutrients per reference serving, in the units given in utils/nutrients
+const micronutrientFields = Object.fromEntries(
+  MICRONUTRIENTS.map(({ key, label }) => [key, z.number().min(0, `${label} cannot be negative`).optional()])
+) as Record<MicronutrientKey, z.ZodOptional<z.ZodNumber>>;
+
 export const foodItemSchema = z.object({
   name: z.string().min(1, 'Food name is required'),
   calories: z.number().min(0, 'Calories cannot be negative'),
@@ -152,7 +165,14 @@ export const foodItemSchema = z.object({
   fat: z.number().min(0, 'Fat cannot be negative'),
   quantity: z.number().min(0.1, 'Quantity must be greater than 0'),
   unit: z.string().min(1, 'Unit is required (e.g., g, ml, piece)'),
+  // Reference serving the nutrition values are given for, e.g. 100 g
+  serving_size: z.number().positive('Serving size must be greater than 0').optional(),
+  serving_unit: z.string().optional(),
+  // Food-specific conversions between mass, volume and pieces
+  density_g_per_ml: z.number().positive('Density must be greater than 0').optional(),
+  piece_weight_g: z.number().positive('Piece weight must be greater than 0').optional(),
   barcode: z.string().optional(),
+  ...micronutrientFields,
 });
 
 export const mealLogSchema = z.object({
@@ -163,6 +183,93 @@ export const mealLogSchema = z.object({
   food_items: z.array(foodItemSchema).min(1, 'At least one food item is required for a meal'),
   notes: z.string().optional(),
   created_at: z.string().min(1, 'Created at timestamp is required'),
+  // Idempotency key generated on the client, so a retried submission is stored only once
+  client_request_id: z.string().uuid('Invalid client request id').optional(),
+});
+
+// The part of a meal log the user edits in a form; user_id and created_at are added on submit.
+export const mealLogFormSchema = mealLogSchema.omit({ user_id: true, created_at: true });
+
+export const savedMealSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must not exceed 100 characters'),
+  meal_type: mealLogSchema.shape.meal_type,
+  food_items: z.array(foodItemSchema).min(1, 'At least one food item is required for a saved meal'),
+});
+
+// A food a user adds to food_items, with the values of its nutrition label per serving
+export const customFoodSchema = z.object({
+  name: z.string().trim().min(2, 'Food name must be at least 2 characters').max(100, 'Food name must not exceed 100 characters'),
+  brand: z.string().trim().max(100, 'Brand must not exceed 100 characters').optional(),
+  barcode: z.string().trim()
+    .refine(value => value === '' || toCanonicalBarcode(value) !== null, 'Enter a valid EAN-13, EAN-8, UPC-A or UPC-E barcode')
+    .optional(),
+  serving_size: z.number().positive('Serving size must be greater than 0'),
+  serving_unit: z.string().trim().min(1, 'Serving unit is required'),
+  calories_per_serving: z.number().min(0, 'Calories cannot be negative').max(5000, 'Calories must not exceed 5000 per serving'),
+  protein_per_serving: z.number().min(0, 'Protein cannot be negative').max(1000, 'Protein must not exceed 1000 g'),
+  carbs_per_serving: z.number().min(0, 'Carbs cannot be negative').max(1000, 'Carbs must not exceed 1000 g'),
+  fat_per_serving: z.number().min(0, 'Fat cannot be negative').max(1000, 'Fat must not exceed 1000 g'),
+  ...Object.fromEntries(
+    MICRONUTRIENTS.map(({ key, label }) => [`${key}_per_serving`, z.number().min(0, `${label} cannot be negative`).optional()])
+  ) as Record<`${MicronutrientKey}_per_serving`, z.ZodOptional<z.ZodNumber>>,
+  visibility: z.enum(FOOD_VISIBILITY_IDS, { message: 'Please choose who can use this food' }),
+});
+
+// --- Recipe Schemas ---
+
+export const recipeIngredientSchema = foodItemSchema.extend({
+  food_item_id: z.string().optional(),
+});
+
+export const recipeSchema = z.object({
+  name: z.string().trim().min(1, 'Recipe name is required').max(100, 'Recipe name must not exceed 100 characters'),
+  servings: z.number().positive('Number of servings must be greater than 0'),
+  total_yield: z.number().positive('Total yield must be greater than 0').optional(),
+  yield_unit: z.string().optional(),
+  ingredients: z.array(recipeIngredientSchema).min(1, 'At least one ingredient is required for a recipe'),
+  notes: z.string().optional(),
+}).refine(data => !data.total_yield || !!data.yield_unit, {
+  message: 'Please choose a unit for the total yield',
+  path: ['yield_unit'],
+});
+
+// --- Water Intake Schemas ---
+
+export const waterLogSchema = z.object({
+  amount_ml: z.number()
+    .positive('Amount must be greater than 0')
+    .max(5000, 'Amount cannot exceed 5000 ml per entry'),
+  beverage: z.enum(BEVERAGE_IDS, { message: 'Please select a beverage' }),
+  log_date: z.string().min(1, 'Date is required'),
+});
+
+// --- Body Weight Schemas ---
+
+export const weightEntrySchema = z.object({
+  entry_date: z.string().min(1, 'Date is required'),
+  weight_kg: z.number()
+    .min(20, errorMessages.weight.min)
+    .max(300, errorMessages.weight.max),
+  body_fat_percentage: z.number()
+    .min(2, 'Body fat must be at least 2%')
+    .max(70, 'Body fat must not exceed 70%')
+    .optional(),
+});
+
+// --- Body Measurement Schemas ---
+
+export const bodyMeasurementSchema = z.object({
+  measured_on: z.string().min(1, 'Date is required'),
+  unit: z.enum(['cm', 'in']),
+  // Measurements in the chosen unit; sites left empty are not recorded
+  values: z.object(
+    Object.fromEntries(
+      BODY_SITES.map(({ id, label }) => [id, z.number().positive(`${label} must be greater than 0`).max(300, `${label} is too large`).optional()])
+    ) as Record<BodySiteId, z.ZodOptional<z.ZodNumber>>
+  ),
+}).refine(data => Object.values(data.values).some(value => value !== undefined), {
+  message: 'Enter at least one measurement',
+  path: ['values'],
 });
 
 // --- User Profile & Goal Setting Schemas ---
@@ -220,6 +327,33 @@ export const goalSettingSchema = z.object({
     .min(0, 'Fat ratio must be at least 0%')
     .max(100, 'Fat ratio must not exceed 100%')
     .optional(),
+  // How the macro targets were entered (utils/macroTargets); ratios and grams are both stored
+  macro_target_mode: z.enum(MACRO_TARGET_MODE_IDS).optional(),
+  target_protein_g: z.number()
+    .min(0, 'Protein target must be at least 0 g')
+    .max(1000, 'Protein target must not exceed 1000 g')
+    .optional(),
+  target_carbs_g: z.number()
+    .min(0, 'Carbs target must be at least 0 g')
+    .max(1000, 'Carbs target must not exceed 1000 g')
+    .optional(),
+  target_fat_g: z.number()
+    .min(0, 'Fat target must be at least 0 g')
+    .max(1000, 'Fat target must not exceed 1000 g')
+    .optional(),
+  // Form-only: grams per kg of body weight, converted to grams on save
+  target_protein_g_per_kg: z.number()
+    .min(0, 'Protein target must be at least 0 g/kg')
+    .max(10, 'Protein target must not exceed 10 g/kg')
+    .optional(),
+  target_carbs_g_per_kg: z.number()
+    .min(0, 'Carbs target must be at least 0 g/kg')
+    .max(10, 'Carbs target must not exceed 10 g/kg')
+    .optional(),
+  target_fat_g_per_kg: z.number()
+    .min(0, 'Fat target must be at least 0 g/kg')
+    .max(10, 'Fat target must not exceed 10 g/kg')
+    .optional(),
   target_weight_kg: z.number()
     .min(20, 'Weight must be at least 20 kg')
     .max(300, 'Weight must not exceed 300 kg')
@@ -238,8 +372,16 @@ export const goalSettingSchema = z.object({
     .min(4, 'Sleep goal must be at least 4 hours')
     .max(12, 'Sleep goal cannot exceed 12 hours')
     .optional(),
+  // Micronutrient targets; nutrients left empty use the defaults from utils/nutrients
+  nutrient_targets: z.object(
+    Object.fromEntries(
+      MICRONUTRIENTS.map(({ key, label }) => [key, z.number().positive(`${label} target must be greater than 0`).optional()])
+    ) as Record<MicronutrientKey, z.ZodOptional<z.ZodNumber>>
+  ).optional(),
 }).refine(data => {
-  const { target_protein_ratio, target_carbs_ratio, target_fat_ratio } = data;
+  const { macro_target_mode, target_protein_ratio, target_carbs_ratio, target_fat_ratio } = data;
+  // Ratios derived from grams need not add up exactly; only entered percentages must
+  if (macro_target_mode && macro_target_mode !== 'percent') return true;
   if (target_protein_ratio && target_carbs_ratio && target_fat_ratio) {
     const sum = target_protein_ratio + target_carbs_ratio + target_fat_ratio;
     return sum === 100;
@@ -250,8 +392,48 @@ export const goalSettingSchema = z.object({
   path: ['root'],
 });
 
+const goalTargetFields = goalSettingSchema.innerType().shape;
+
+// Targets for a day type; targets left empty fall back to the base goals
+export const goalProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name must not exceed 50 characters'),
+  day_type: z.enum(DAY_TYPE_IDS, { message: 'Please select a day type' }),
+  weekdays: z.array(z.enum(WEEKDAYS)),
+  target_calories: goalTargetFields.target_calories,
+  target_protein_ratio: goalTargetFields.target_protein_ratio,
+  target_carbs_ratio: goalTargetFields.target_carbs_ratio,
+  target_fat_ratio: goalTargetFields.target_fat_ratio,
+}).refine(data => {
+  const { target_protein_ratio, target_carbs_ratio, target_fat_ratio } = data;
+  if (target_protein_ratio && target_carbs_ratio && target_fat_ratio) {
+    return target_protein_ratio + target_carbs_ratio + target_fat_ratio === 100;
+  }
+  return true;
+}, {
+  message: 'Macronutrient ratios must sum to 100%',
+  path: ['target_fat_ratio'],
+});
+
 export const preferencesSchema = z.object({
   receiveNotifications: z.boolean(),
   notificationFrequency: z.enum(['daily', 'weekly', 'monthly']),
   themePreference: z.enum(['light', 'dark', 'system']),
+  // Body measurement settings of the progress tracker
+  measurementUnit: z.enum(['cm', 'in']).optional(),
+  measurementSites: z.array(z.enum(BODY_SITE_IDS)).optional(),
+});
+
+// Request of the admin food review route
+export const foodReviewRequestSchema = z.object({
+  foodId: z.string().uuid('Invalid food id'),
+  status: z.enum(REVIEW_DECISIONS, { message: 'Status must be verified or rejected' }),
+  note: z.string().trim().max(500, 'Note must not exceed 500 characters').optional(),
+});
+
+// Request of the admin food import route; file is relative to FOOD_IMPORT_DIR
+export const foodImportRequestSchema = z.object({
+  source: z.enum(FOOD_SOURCES, { message: 'Source must be usda or off' }),
+  file: z.string().trim().min(1, 'File is required'),
+  format: z.enum(FOOD_FILE_FORMATS).optional(),
+  dryRun: z.boolean().optional(),
 });
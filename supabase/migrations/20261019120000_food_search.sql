@@ -0,0 +1,50 @@
+-- supabase/migrations/20261019120000_food_search.sql
+-- Fuzzy food search for services/foodSearch: a trigram index on food names and a
+-- function returning the foods the signed-in user may see, best match first and a
+-- page at a time. search_terms holds the whole query followed by the spellings and
+-- synonyms of its words (utils/foodSearch.getSearchTerms).
+
+create extension if not exists pg_trgm;
+
+create index if not exists food_items_name_trgm_idx
+  on public.food_items using gin (lower(name) gin_trgm_ops);
+
+-- A food matches when one of the terms is found in its name, allowing for typos
+-- (word similarity above pg_trgm.word_similarity_threshold, 0.6 by default). The
+-- score is the best term's word similarity plus the similarity of the whole name
+-- to the query, so names that are close to the query in full come first.
+create or replace function public.search_food_items(
+  search_terms text[],
+  result_limit integer default 10,
+  result_offset integer default 0
+)
+returns table (
+  food public.food_items,
+  match_score real,
+  total_count bigint
+)
+language sql
+stable
+as $$
+  with matches as (
+    select f.id, max(word_similarity(t.term, lower(f.name))) as term_score
+    from unnest(search_terms) as t(term)
+    join public.food_items f on lower(f.name) %> t.term
+    group by f.id
+  )
+  select
+    f as food,
+    (m.term_score + similarity(search_terms[1], lower(f.name)))::real as match_score,
+    count(*) over () as total_count
+  from matches m
+  join public.food_items f on f.id = m.id
+  -- The foods a user may see, as utils/customFoods.getVisibleFoodsFilter
+  where f.created_by is null
+    or f.created_by = auth.uid()
+    or (f.visibility = 'shared' and f.verification_status <> 'rejected')
+  order by match_score desc, length(f.name), f.id
+  limit least(result_limit, 50)
+  offset result_offset;
+$$;
+
+grant execute on function public.search_food_items(text[], integer, integer) to anon, authenticated;
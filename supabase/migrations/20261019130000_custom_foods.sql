@@ -0,0 +1,20 @@
+-- supabase/migrations/20261019130000_custom_foods.sql
+-- Custom foods (utils/customFoods) are written by the /api/foods route only, with
+-- the service role, which sets who created a food and whether it awaits review.
+-- Users can still read food_items, but not write it directly.
+
+revoke insert, update, delete on public.food_items from anon, authenticated;
+
+-- Barcodes are unique among the foods everyone may see (curated, imported and
+-- shared foods that were not rejected) and per user among private foods, so a food
+-- one user keeps to themselves never stops anyone else from adding the product.
+alter table public.food_items drop constraint if exists food_items_barcode_key;
+
+create unique index if not exists food_items_public_barcode_key
+  on public.food_items (barcode)
+  where barcode is not null
+    and (created_by is null or (visibility = 'shared' and verification_status <> 'rejected'));
+
+create unique index if not exists food_items_private_barcode_key
+  on public.food_items (created_by, barcode)
+  where barcode is not null and visibility = 'private';
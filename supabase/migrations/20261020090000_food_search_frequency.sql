@@ -0,0 +1,53 @@
+-- supabase/migrations/20261020090000_food_search_frequency.sql
+-- Moves the boost for foods the user logs often into search_food_items, so it
+-- applies before results are paged: a frequently logged food ranks on the first
+-- page even when its name alone would put it further down. The boost matches
+-- utils/foodSearch.getFrequencyBoost: 0.05 per time the food was logged in the
+-- last 90 days (matched by name, as meal_food_items keeps no food id), at most 0.5.
+
+create or replace function public.search_food_items(
+  search_terms text[],
+  result_limit integer default 10,
+  result_offset integer default 0
+)
+returns table (
+  food public.food_items,
+  match_score real,
+  total_count bigint
+)
+language sql
+stable
+as $$
+  with matches as (
+    select f.id, max(word_similarity(t.term, lower(f.name))) as term_score
+    from unnest(search_terms) as t(term)
+    join public.food_items f on lower(f.name) %> t.term
+    group by f.id
+  ),
+  frequencies as (
+    select lower(i.name) as name, count(*) as times_logged
+    from public.meal_food_items i
+    join public.meal_logs l on l.id = i.meal_log_id
+    where l.user_id = auth.uid()
+      and l.meal_date >= current_date - 90
+    group by lower(i.name)
+  )
+  select
+    f as food,
+    (
+      m.term_score
+      + similarity(search_terms[1], lower(f.name))
+      + least(coalesce(fr.times_logged, 0) * 0.05, 0.5)
+    )::real as match_score,
+    count(*) over () as total_count
+  from matches m
+  join public.food_items f on f.id = m.id
+  left join frequencies fr on fr.name = lower(f.name)
+  -- The foods a user may see, as utils/customFoods.getVisibleFoodsFilter
+  where f.created_by is null
+    or f.created_by = auth.uid()
+    or (f.visibility = 'shared' and f.verification_status <> 'rejected')
+  order by match_score desc, length(f.name), f.id
+  limit least(result_limit, 50)
+  offset result_offset;
+$$;
@@ -0,0 +1,20 @@
+-- supabase/migrations/20261020100000_water_goal.sql
+-- Keeps the daily water goal in one place, user_goals.water_intake_goal (litres),
+-- which goal settings, the hydration ring and the nutrition chart all use. Goals
+-- set during onboarding used to be stored on user_profiles instead; they are
+-- copied over where the user has not set one in goal settings, and the old column
+-- is dropped so nothing can read it again.
+
+alter table public.user_goals
+  add column if not exists water_intake_goal numeric;
+
+insert into public.user_goals (user_id, water_intake_goal)
+select p.user_id, p.water_intake_goal
+from public.user_profiles p
+where p.water_intake_goal is not null
+on conflict (user_id) do update
+  set water_intake_goal = excluded.water_intake_goal
+  where public.user_goals.water_intake_goal is null;
+
+alter table public.user_profiles
+  drop column if exists water_intake_goal;
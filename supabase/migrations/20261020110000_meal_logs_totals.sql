@@ -0,0 +1,28 @@
+-- supabase/migrations/20261020110000_meal_logs_totals.sql
+-- Columns the /api/meals routes (services/meals) write on meal_logs: the meal's
+-- nutrition totals, one total_<key> per utils/nutrition.NUTRITION_TOTAL_KEYS, and
+-- the idempotency key sent by the client. Meals logged before the totals existed
+-- keep 0 until they are edited, as the routes already assume.
+
+alter table public.meal_logs
+  add column if not exists total_calories numeric not null default 0,
+  add column if not exists total_protein numeric not null default 0,
+  add column if not exists total_carbs numeric not null default 0,
+  add column if not exists total_fat numeric not null default 0,
+  add column if not exists total_fiber numeric not null default 0,
+  add column if not exists total_sugar numeric not null default 0,
+  add column if not exists total_saturated_fat numeric not null default 0,
+  add column if not exists total_sodium numeric not null default 0,
+  add column if not exists total_cholesterol numeric not null default 0,
+  add column if not exists total_potassium numeric not null default 0,
+  add column if not exists total_calcium numeric not null default 0,
+  add column if not exists total_iron numeric not null default 0,
+  add column if not exists total_vitamin_c numeric not null default 0,
+  add column if not exists total_vitamin_d numeric not null default 0,
+  add column if not exists client_request_id text;
+
+-- A retried submission hits this (23505) when a concurrent attempt stored the meal
+-- first, and the route answers with that meal instead of logging it twice. Meals
+-- without a client_request_id are not constrained.
+create unique index if not exists meal_logs_user_client_request_key
+  on public.meal_logs (user_id, client_request_id);
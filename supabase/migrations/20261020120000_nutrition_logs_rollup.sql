@@ -0,0 +1,29 @@
+-- supabase/migrations/20261020120000_nutrition_logs_rollup.sql
+-- nutrition_logs is the daily rollup of meal_logs that services/meals.refreshNutritionLogs
+-- keeps up to date: one row per user and date, upserted on (user_id, date), with
+-- the same nutrients as the meal totals and the number of meals that day.
+
+alter table public.nutrition_logs
+  add column if not exists fiber numeric not null default 0,
+  add column if not exists sugar numeric not null default 0,
+  add column if not exists saturated_fat numeric not null default 0,
+  add column if not exists sodium numeric not null default 0,
+  add column if not exists cholesterol numeric not null default 0,
+  add column if not exists potassium numeric not null default 0,
+  add column if not exists calcium numeric not null default 0,
+  add column if not exists iron numeric not null default 0,
+  add column if not exists vitamin_c numeric not null default 0,
+  add column if not exists vitamin_d numeric not null default 0,
+  add column if not exists meal_count integer not null default 0,
+  add column if not exists updated_at timestamptz not null default now();
+
+-- The rollup is derived data, so duplicate days are dropped, keeping the newest
+-- row; the next meal change on that day recalculates it.
+delete from public.nutrition_logs n
+using public.nutrition_logs newer
+where newer.user_id = n.user_id
+  and newer.date = n.date
+  and (newer.created_at, newer.id) > (n.created_at, n.id);
+
+create unique index if not exists nutrition_logs_user_date_key
+  on public.nutrition_logs (user_id, date);
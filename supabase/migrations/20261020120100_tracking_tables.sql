@@ -0,0 +1,151 @@
+-- supabase/migrations/20261020120100_tracking_tables.sql
+-- Tables for saved meals, recipes, hydration, weight and body measurements, goal
+-- profiles and goal versions, as described in src/types/database.types.ts. Every
+-- row belongs to one user, who is the only one allowed to read or change it.
+-- Unique keys match the onConflict targets the hooks and services upsert on.
+
+create table if not exists public.saved_meals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  meal_type text not null,
+  -- Array of food items in the meal log food item shape
+  food_items jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.recipes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  servings numeric not null check (servings > 0),
+  total_yield numeric,
+  yield_unit text,
+  -- Array of food items in the meal log food item shape, with food_item_id set for
+  -- ingredients picked from food_items
+  ingredients jsonb not null default '[]'::jsonb,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.water_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  log_date date not null,
+  amount_ml numeric not null check (amount_ml > 0),
+  -- An id from utils/hydration
+  beverage text not null default 'water',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists water_logs_user_date_idx
+  on public.water_logs (user_id, log_date);
+
+create table if not exists public.weight_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  entry_date date not null,
+  weight_kg numeric not null check (weight_kg > 0),
+  body_fat_percentage numeric,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, entry_date)
+);
+
+create table if not exists public.body_measurements (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  measured_on date not null,
+  -- An id from utils/measurements; values are always stored in cm
+  site text not null,
+  value_cm numeric not null check (value_cm > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, measured_on, site)
+);
+
+create table if not exists public.goal_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  day_type text not null,
+  -- Lower-case weekday names the profile applies to
+  weekdays text[],
+  target_calories numeric,
+  target_protein_ratio numeric,
+  target_carbs_ratio numeric,
+  target_fat_ratio numeric,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.goal_adjustments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  previous_calories numeric not null,
+  new_calories numeric not null,
+  estimated_tdee numeric not null,
+  average_intake numeric not null,
+  weight_change_per_week numeric not null,
+  window_days integer not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.goal_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  effective_from date not null,
+  target_calories numeric,
+  macro_target_mode text check (macro_target_mode in ('percent', 'grams', 'grams_per_kg')),
+  target_protein_ratio numeric,
+  target_carbs_ratio numeric,
+  target_fat_ratio numeric,
+  target_protein_g numeric,
+  target_carbs_g numeric,
+  target_fat_g numeric,
+  target_weight_kg numeric,
+  water_intake_goal numeric,
+  nutrient_targets jsonb,
+  created_at timestamptz not null default now(),
+  unique (user_id, effective_from)
+);
+
+-- Each user reads and writes their own rows only
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array[
+    'saved_meals', 'recipes', 'water_logs', 'weight_entries',
+    'body_measurements', 'goal_profiles', 'goal_adjustments', 'goal_history'
+  ] loop
+    execute format('alter table public.%I enable row level security', table_name);
+    execute format('drop policy if exists "Users manage their own rows" on public.%I', table_name);
+    execute format(
+      'create policy "Users manage their own rows" on public.%I for all to authenticated '
+        || 'using (user_id = auth.uid()) with check (user_id = auth.uid())',
+      table_name
+    );
+  end loop;
+end;
+$$;
+
+-- The hooks for these tables subscribe to their changes
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array[
+    'water_logs', 'weight_entries', 'body_measurements', 'goal_profiles', 'goal_history'
+  ] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = table_name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', table_name);
+    end if;
+  end loop;
+end;
+$$;